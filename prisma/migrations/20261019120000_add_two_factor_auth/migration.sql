@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN "twoFactorSecret" TEXT,
+ADD COLUMN "twoFactorRecoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "twoFactorLastUsedStep" INTEGER;
+
+-- AlterTable
+ALTER TABLE "TenantSettings" ADD COLUMN "requireTwoFactorForAdmins" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "PlatformOperatorStatus" AS ENUM ('ACTIVE', 'DISABLED');
+
+-- CreateTable
+CREATE TABLE "PlatformOperator" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "fullName" TEXT,
+    "status" "PlatformOperatorStatus" NOT NULL DEFAULT 'ACTIVE',
+    "tokenVersion" INTEGER NOT NULL DEFAULT 0,
+    "lastLoginAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "PlatformOperator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlatformImpersonation" (
+    "id" TEXT NOT NULL,
+    "operatorId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PlatformImpersonation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlatformOperator_email_key" ON "PlatformOperator"("email");
+
+-- CreateIndex
+CREATE INDEX "PlatformImpersonation_operatorId_createdAt_idx" ON "PlatformImpersonation"("operatorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlatformImpersonation_tenantId_createdAt_idx" ON "PlatformImpersonation"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PlatformImpersonation_userId_idx" ON "PlatformImpersonation"("userId");
+
+-- AddForeignKey
+ALTER TABLE "PlatformImpersonation" ADD CONSTRAINT "PlatformImpersonation_operatorId_fkey" FOREIGN KEY ("operatorId") REFERENCES "PlatformOperator"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlatformImpersonation" ADD CONSTRAINT "PlatformImpersonation_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlatformImpersonation" ADD CONSTRAINT "PlatformImpersonation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- Prevent double-booking at the database level: two active bookings on the same unit
+-- may not have overlapping [checkIn, checkOut) ranges, regardless of request timing.
+-- Prisma cannot express exclusion constraints, so this lives only in SQL.
+--
+-- Fails if overlapping active bookings already exist. Find them first with:
+--   SELECT a."id", b."id" FROM "Booking" a JOIN "Booking" b
+--     ON a."unitId" = b."unitId" AND a."id" < b."id"
+--    AND a."checkIn" < b."checkOut" AND b."checkIn" < a."checkOut"
+--  WHERE a."status" IN ('PENDING', 'CONFIRMED', 'CHECKED_IN')
+--    AND b."status" IN ('PENDING', 'CONFIRMED', 'CHECKED_IN');
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- AddConstraint
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_unit_active_no_overlap"
+  EXCLUDE USING gist ("unitId" WITH =, tsrange("checkIn", "checkOut", '[)') WITH &&)
+  WHERE ("status" IN ('PENDING', 'CONFIRMED', 'CHECKED_IN'));
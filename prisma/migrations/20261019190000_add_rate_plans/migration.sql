@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "RatePlan" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unitId" TEXT,
+    "propertyId" TEXT,
+    "unitType" "UnitType",
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "weekdayPrice" DECIMAL(12,2) NOT NULL,
+    "weekendPrice" DECIMAL(12,2),
+    "minStayNights" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "RatePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UnitRateOverride" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "price" DECIMAL(12,2),
+    "minStayNights" INTEGER,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "UnitRateOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatePlan_tenantId_name_key" ON "RatePlan"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "RatePlan_tenantId_isActive_idx" ON "RatePlan"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "RatePlan_unitId_idx" ON "RatePlan"("unitId");
+
+-- CreateIndex
+CREATE INDEX "RatePlan_propertyId_idx" ON "RatePlan"("propertyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UnitRateOverride_unitId_date_key" ON "UnitRateOverride"("unitId", "date");
+
+-- CreateIndex
+CREATE INDEX "UnitRateOverride_tenantId_idx" ON "UnitRateOverride"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatePlan" ADD CONSTRAINT "RatePlan_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnitRateOverride" ADD CONSTRAINT "UnitRateOverride_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnitRateOverride" ADD CONSTRAINT "UnitRateOverride_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
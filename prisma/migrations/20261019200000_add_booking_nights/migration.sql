@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "NightRateSource" AS ENUM ('OVERRIDE', 'RATE_PLAN', 'UNIT');
+
+-- CreateTable
+CREATE TABLE "BookingNight" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "chargeId" TEXT,
+    "date" DATE NOT NULL,
+    "baseAmount" DECIMAL(12,2) NOT NULL,
+    "discountAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "source" "NightRateSource" NOT NULL,
+    "ratePlanId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BookingNight_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingNight_bookingId_date_key" ON "BookingNight"("bookingId", "date");
+
+-- CreateIndex
+CREATE INDEX "BookingNight_tenantId_idx" ON "BookingNight"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "BookingNight_chargeId_idx" ON "BookingNight"("chargeId");
+
+-- AddForeignKey
+ALTER TABLE "BookingNight" ADD CONSTRAINT "BookingNight_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingNight" ADD CONSTRAINT "BookingNight_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingNight" ADD CONSTRAINT "BookingNight_chargeId_fkey" FOREIGN KEY ("chargeId") REFERENCES "BookingCharge"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TenantSettings" ADD COLUMN "serviceChargePercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN "taxPercent" DECIMAL(5,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "groupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "groupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "BookingGroup" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "payerGuestId" TEXT,
+    "payerName" TEXT,
+    "payerEmail" TEXT,
+    "payerPhone" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "notes" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "BookingGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingGroup_tenantId_idx" ON "BookingGroup"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "BookingGroup_tenantId_createdAt_idx" ON "BookingGroup"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Booking_groupId_idx" ON "Booking"("groupId");
+
+-- CreateIndex
+CREATE INDEX "Payment_groupId_idx" ON "Payment"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "BookingGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "BookingGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingGroup" ADD CONSTRAINT "BookingGroup_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingGroup" ADD CONSTRAINT "BookingGroup_payerGuestId_fkey" FOREIGN KEY ("payerGuestId") REFERENCES "Guest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "BookingStatusHistory" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "fromStatus" "BookingStayStatus",
+    "toStatus" "BookingStayStatus" NOT NULL,
+    "source" TEXT NOT NULL,
+    "reason" TEXT,
+    "actorUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BookingStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingStatusHistory_tenantId_idx" ON "BookingStatusHistory"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "BookingStatusHistory_bookingId_createdAt_idx" ON "BookingStatusHistory"("bookingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusHistory" ADD CONSTRAINT "BookingStatusHistory_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusHistory" ADD CONSTRAINT "BookingStatusHistory_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
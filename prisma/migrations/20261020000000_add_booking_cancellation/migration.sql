@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "CancellationFeeType" AS ENUM ('PERCENT', 'FIRST_NIGHT');
+
+-- AlterTable
+ALTER TABLE "TenantSettings" ADD COLUMN "cancellationFreeHours" INTEGER NOT NULL DEFAULT 72,
+ADD COLUMN "cancellationFeeType" "CancellationFeeType" NOT NULL DEFAULT 'FIRST_NIGHT',
+ADD COLUMN "cancellationFeePercent" DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "cancelledAt" TIMESTAMP(3),
+ADD COLUMN "cancelledByUserId" TEXT,
+ADD COLUMN "cancellationReason" TEXT;
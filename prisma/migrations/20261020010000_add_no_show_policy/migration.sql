@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "TenantSettings" ADD COLUMN "noShowCutoffHours" INTEGER,
+ADD COLUMN "noShowFeeType" "CancellationFeeType" NOT NULL DEFAULT 'FIRST_NIGHT',
+ADD COLUMN "noShowFeePercent" DECIMAL(5,2) NOT NULL DEFAULT 100;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "UnitBlock" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "UnitBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UnitBlock_tenantId_idx" ON "UnitBlock"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "UnitBlock_unitId_startDate_idx" ON "UnitBlock"("unitId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "UnitBlock" ADD CONSTRAINT "UnitBlock_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UnitBlock" ADD CONSTRAINT "UnitBlock_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "HousekeepingStatus" AS ENUM ('DIRTY', 'CLEANING', 'CLEAN', 'INSPECTED');
+
+-- CreateEnum
+CREATE TYPE "HousekeepingTaskStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'DONE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Unit" ADD COLUMN "housekeepingStatus" "HousekeepingStatus" NOT NULL DEFAULT 'CLEAN',
+ADD COLUMN "housekeepingUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "HousekeepingTask" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "unitId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "title" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" "HousekeepingTaskStatus" NOT NULL DEFAULT 'OPEN',
+    "assignedToUserId" TEXT,
+    "createdByUserId" TEXT,
+    "dueAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "HousekeepingTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_tenantId_status_idx" ON "HousekeepingTask"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_unitId_idx" ON "HousekeepingTask"("unitId");
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_assignedToUserId_idx" ON "HousekeepingTask"("assignedToUserId");
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_assignedToUserId_fkey" FOREIGN KEY ("assignedToUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
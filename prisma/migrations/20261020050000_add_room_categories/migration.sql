@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "RoomCategory" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "basePrice" DECIMAL(12,2),
+    "capacity" INTEGER NOT NULL DEFAULT 1,
+    "amenities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "RoomCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoomCategoryPhoto" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "mime" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "RoomCategoryPhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Unit" ADD COLUMN "categoryId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "categoryId" TEXT,
+ADD COLUMN "unitAssigned" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX "RoomCategory_tenantId_idx" ON "RoomCategory"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomCategory_propertyId_name_key" ON "RoomCategory"("propertyId", "name");
+
+-- CreateIndex
+CREATE INDEX "RoomCategoryPhoto_categoryId_idx" ON "RoomCategoryPhoto"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "Unit_categoryId_idx" ON "Unit"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "Booking_categoryId_idx" ON "Booking"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "RoomCategory" ADD CONSTRAINT "RoomCategory_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomCategory" ADD CONSTRAINT "RoomCategory_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Hotel"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomCategoryPhoto" ADD CONSTRAINT "RoomCategoryPhoto_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomCategoryPhoto" ADD CONSTRAINT "RoomCategoryPhoto_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "RoomCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Unit" ADD CONSTRAINT "Unit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "RoomCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "RoomCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
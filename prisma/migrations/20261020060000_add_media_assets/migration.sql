@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Hotel" ADD COLUMN "description" TEXT,
+ADD COLUMN "amenities" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Unit" ADD COLUMN "description" TEXT,
+ADD COLUMN "amenities" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "MediaAsset" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "unitId" TEXT,
+    "key" TEXT NOT NULL,
+    "mime" TEXT,
+    "size" INTEGER,
+    "caption" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isCover" BOOLEAN NOT NULL DEFAULT false,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "MediaAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaAsset_key_key" ON "MediaAsset"("key");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_tenantId_idx" ON "MediaAsset"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_propertyId_unitId_sortOrder_idx" ON "MediaAsset"("propertyId", "unitId", "sortOrder");
+
+-- One cover per gallery (property gallery when unitId is null, otherwise the unit's).
+CREATE UNIQUE INDEX "MediaAsset_one_cover_per_gallery" ON "MediaAsset"("propertyId", COALESCE("unitId", '')) WHERE "isCover";
+
+-- AddForeignKey
+ALTER TABLE "MediaAsset" ADD CONSTRAINT "MediaAsset_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MediaAsset" ADD CONSTRAINT "MediaAsset_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Hotel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MediaAsset" ADD CONSTRAINT "MediaAsset_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
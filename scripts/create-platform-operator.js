@@ -0,0 +1,41 @@
+/* eslint-disable no-console */
+require('dotenv').config();
+
+const bcrypt = require('bcryptjs');
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const email = String(process.env.PLATFORM_OPERATOR_EMAIL || '').trim().toLowerCase();
+  const password = process.env.PLATFORM_OPERATOR_PASSWORD || '';
+  const fullName = process.env.PLATFORM_OPERATOR_FULL_NAME || null;
+
+  if (!email) {
+    throw new Error('PLATFORM_OPERATOR_EMAIL is required.');
+  }
+  if (!password || password.length < 12) {
+    throw new Error('PLATFORM_OPERATOR_PASSWORD is required and must be at least 12 characters.');
+  }
+
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  // Re-running resets the password and signs the operator out everywhere.
+  const operator = await prisma.platformOperator.upsert({
+    where: { email },
+    update: { passwordHash, fullName, status: 'ACTIVE', tokenVersion: { increment: 1 } },
+    create: { email, passwordHash, fullName },
+  });
+
+  console.log('[platform-operator] ready');
+  console.table({ operatorId: operator.id, email: operator.email, status: operator.status });
+}
+
+main()
+  .catch((error) => {
+    console.error('[platform-operator] failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -4,6 +4,7 @@ import helmet from "helmet";
 import morgan from "morgan";
 import path from "path"; // ✅ NEW
 
+import { env } from "./config/env";
 import { tenantMiddleware } from "./middleware/tenant.middleware";
 import { errorMiddleware } from "./middleware/error.middleware";
 import { requestContextMiddleware } from "./middleware/request-context.middleware";
@@ -13,17 +14,26 @@ import { authRoutes } from "./modules/auth/auth.routes";
 import { hotelRoutes } from "./modules/hotels/hotel.routes";
 import { propertyRoutes } from "./modules/properties/property.routes";
 import { unitRoutes } from "./modules/units/unit.routes";
+import { roomCategoryRoutes } from "./modules/room-categories/room-category.routes";
+import { mediaRoutes } from "./modules/media/media.routes";
+import { rateRoutes } from "./modules/rates/rates.routes";
 import { bookingRoutes } from "./modules/bookings/booking.routes";
 import { paymentRoutes } from "./modules/payments/payment.routes";
 import { checkRoutes } from "./modules/check/check.routes";
+import { groupRoutes } from "./modules/groups/group.routes";
 import { dashboardRoutes } from "./modules/dashboard/dashboard.routes";
 import { usersRoutes } from "./modules/users/users.routes";
 import { tenantRoutes } from "./modules/tenant/tenant.routes";
+import { roleRoutes } from "./modules/roles/roles.routes";
+import { platformRoutes } from "./modules/platform/platform.routes";
 import { reportsRoutes } from "./modules/reports/reports.routes";
 import { guestRoutes } from "./modules/guests/guest.routes";
 import { leadsRoutes } from "./modules/leads/leads.routes";
 import { newsRoutes } from "./modules/news/news.routes";
 import { preBookingRoutes } from "./modules/prebookings/prebooking.routes";
+import { availabilityRoutes } from "./modules/availability/availability.routes";
+import { housekeepingRoutes } from "./modules/housekeeping/housekeeping.routes";
+import { workOrderRoutes } from "./modules/work-orders/work-order.routes";
 
 
 // ✅ NEW: public routes (tenant discovery)
@@ -32,6 +42,7 @@ import { publicRoutes } from "./modules/public/public.routes";
 export function createApp() {
   const app = express();
 
+  app.set("trust proxy", env.TRUST_PROXY_HOPS);
   app.use(helmet());
   app.use(requestContextMiddleware);
   app.use(cors());
@@ -58,23 +69,34 @@ app.use(
   app.use("/api", authRoutes);
   app.use("/api", healthRoutes);
 
+  // ✅ Platform operator endpoints authenticate separately (no tenant header)
+  app.use("/api", platformRoutes);
+  app.use("/api", leadsRoutes);
+
   // ✅ Tenant middleware applies to protected API routes only
   app.use(tenantMiddleware);
 
   app.use("/api", dashboardRoutes);
   app.use("/api", usersRoutes);
   app.use("/api", tenantRoutes);
+  app.use("/api", roleRoutes);
 
   app.use("/api", hotelRoutes);
   app.use("/api", propertyRoutes);
   app.use("/api", unitRoutes);
+  app.use("/api", roomCategoryRoutes);
+  app.use("/api", mediaRoutes);
+  app.use("/api", rateRoutes);
   app.use("/api", bookingRoutes);
+  app.use("/api", groupRoutes);
+  app.use("/api", availabilityRoutes);
   app.use("/api", preBookingRoutes);
   app.use("/api", paymentRoutes);
   app.use("/api", checkRoutes);
+  app.use("/api", housekeepingRoutes);
+  app.use("/api", workOrderRoutes);
   app.use("/api", reportsRoutes);
   app.use("/api", guestRoutes);
-  app.use("/api", leadsRoutes);
   app.use("/api", newsRoutes);
 
   app.use((_req, res) =>
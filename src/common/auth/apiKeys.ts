@@ -0,0 +1,58 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import { prisma } from "../../prisma/client";
+
+/**
+ * Tenant API keys: `ehk_<prefix>_<secret>`. Sent as `x-api-key` or `Authorization: Bearer ehk_...`.
+ */
+
+const API_KEY_MARKER = "ehk_";
+const LAST_USED_TOUCH_MS = 5 * 60 * 1000;
+
+export function hashApiKey(key: string) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey() {
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(24).toString("base64url");
+  const key = `${API_KEY_MARKER}${prefix}_${secret}`;
+  return { key, prefix, keyHash: hashApiKey(key) };
+}
+
+export function readApiKey(req: Request) {
+  const headerKey = req.header("x-api-key")?.trim();
+  if (headerKey) return headerKey;
+
+  const auth = req.header("authorization");
+  const bearer = auth?.startsWith("Bearer ") ? auth.slice(7).trim() : undefined;
+  return bearer?.startsWith(API_KEY_MARKER) ? bearer : undefined;
+}
+
+/** Active (not revoked, not expired) key for the raw value, or null. */
+export async function findActiveApiKey(key: string) {
+  const row = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: {
+      id: true,
+      tenantId: true,
+      prefix: true,
+      scopes: true,
+      propertyIds: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+    },
+  });
+  if (!row || row.revokedAt) return null;
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) return null;
+  return row;
+}
+
+export function touchApiKey(key: { id: string; lastUsedAt: Date | null }, ipAddress: string | null) {
+  // Keep "last used" roughly current without writing on every request.
+  if (key.lastUsedAt && Date.now() - key.lastUsedAt.getTime() <= LAST_USED_TOUCH_MS) return;
+  prisma.apiKey
+    .update({ where: { id: key.id }, data: { lastUsedAt: new Date(), lastUsedIp: ipAddress } })
+    .catch(() => undefined);
+}
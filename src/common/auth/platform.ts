@@ -0,0 +1,49 @@
+import jwt from "jsonwebtoken";
+import { prisma } from "../../prisma/client";
+
+/**
+ * Platform operator tokens and impersonation grants.
+ * Operator tokens carry purpose "platform" so tenant requireAuth never accepts them.
+ */
+
+export const PLATFORM_TOKEN_PURPOSE = "platform";
+
+export type PlatformTokenPayload = { operatorId: string; tokenVersion: number; purpose: typeof PLATFORM_TOKEN_PURPOSE };
+
+function platformSecret() {
+  return process.env.JWT_PLATFORM_SECRET || process.env.JWT_ACCESS_SECRET!;
+}
+
+export function signPlatformToken(operator: { id: string; tokenVersion: number }) {
+  const payload: PlatformTokenPayload = {
+    operatorId: operator.id,
+    tokenVersion: operator.tokenVersion,
+    purpose: PLATFORM_TOKEN_PURPOSE,
+  };
+  return jwt.sign(payload, platformSecret(), { expiresIn: (process.env.PLATFORM_TOKEN_EXPIRES_IN ?? "8h") as jwt.SignOptions["expiresIn"] });
+}
+
+/** Returns null for anything that is not a valid platform token. */
+export function verifyPlatformToken(token: string): PlatformTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, platformSecret()) as any;
+    if (payload?.purpose !== PLATFORM_TOKEN_PURPOSE || !payload.operatorId) return null;
+    return payload as PlatformTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+export async function isImpersonationActive(impersonationId: string, userId: string) {
+  const row = await prisma.platformImpersonation.findFirst({
+    where: {
+      id: impersonationId,
+      userId,
+      endedAt: null,
+      expiresAt: { gt: new Date() },
+      operator: { status: "ACTIVE" },
+    },
+    select: { id: true },
+  });
+  return Boolean(row);
+}
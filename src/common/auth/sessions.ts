@@ -0,0 +1,66 @@
+import { prisma } from "../../prisma/client";
+
+/**
+ * Session store queries shared by the auth middleware and account endpoints.
+ * A "session" as seen by users is a refresh-token family; access tokens carry its id as `sessionId`.
+ */
+
+const LAST_USED_TOUCH_MS = 5 * 60 * 1000;
+
+export async function isSessionActive(sessionId: string, userId: string) {
+  const row = await prisma.userSession.findFirst({
+    where: { familyId: sessionId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, lastUsedAt: true },
+  });
+  if (!row) return false;
+
+  // Keep "last used" roughly current without writing on every request.
+  if (Date.now() - row.lastUsedAt.getTime() > LAST_USED_TOUCH_MS) {
+    prisma.userSession
+      .update({ where: { id: row.id }, data: { lastUsedAt: new Date() } })
+      .catch(() => undefined);
+  }
+  return true;
+}
+
+export async function listActiveSessions(tenantId: string, userId: string) {
+  const rows = await prisma.userSession.findMany({
+    where: { tenantId, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      familyId: true,
+      userAgent: true,
+      ipAddress: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+
+  return rows.map((r) => ({
+    id: r.familyId,
+    userAgent: r.userAgent,
+    ipAddress: r.ipAddress,
+    lastUsedAt: r.lastUsedAt,
+    expiresAt: r.expiresAt,
+  }));
+}
+
+export async function revokeSessionFamily(familyId: string, reason: string, userId?: string) {
+  const result = await prisma.userSession.updateMany({
+    where: { familyId, revokedAt: null, ...(userId ? { userId } : {}) },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+}
+
+export async function revokeUserSessions(userId: string, reason: string, options: { exceptSessionId?: string } = {}) {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId ? { familyId: { not: options.exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+}
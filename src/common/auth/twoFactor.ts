@@ -0,0 +1,134 @@
+import crypto from "crypto";
+
+/**
+ * RFC 6238 TOTP (SHA-1, 6 digits, 30s step) as used by Google Authenticator, Authy, 1Password, etc.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buf: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string) {
+  const clean = input.replace(/=+$/g, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(key: Buffer, counter: number) {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac("sha1", key).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(code).padStart(TOTP_DIGITS, "0");
+}
+
+function safeEqual(a: string, b: string) {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Returns the matched time step, or null. Steps at or before `lastUsedStep` are rejected
+ * so a code cannot be replayed inside its validity window.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { window?: number; lastUsedStep?: number | null; now?: number } = {}
+) {
+  const normalized = String(code || "").replace(/\s+/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const window = options.window ?? 1;
+  const current = Math.floor((options.now ?? Date.now()) / 1000 / TOTP_STEP_SECONDS);
+
+  for (let offset = -window; offset <= window; offset += 1) {
+    const step = current + offset;
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue;
+    if (safeEqual(hotp(key, step), normalized)) return step;
+  }
+  return null;
+}
+
+export function totpProvisioningUri(input: { secret: string; accountName: string; issuer: string }) {
+  const label = encodeURIComponent(`${input.issuer}:${input.accountName}`);
+  const params = new URLSearchParams({
+    secret: input.secret,
+    issuer: input.issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/* ================= RECOVERY CODES ================= */
+
+function normalizeRecoveryCode(code: string) {
+  return String(code || "").replace(/[\s-]+/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string) {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * Plain codes are shown to the user once; only hashes are stored.
+ */
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Returns the remaining hashes when `code` matches one, otherwise null.
+ */
+export function consumeRecoveryCode(hashes: string[], code: string) {
+  const hash = hashRecoveryCode(code);
+  const idx = hashes.findIndex((h) => safeEqual(h, hash));
+  if (idx === -1) return null;
+  return hashes.filter((_, i) => i !== idx);
+}
+
+export function twoFactorIssuer() {
+  return process.env.APP_NAME || "EazziHotech";
+}
@@ -0,0 +1,151 @@
+/**
+ * Named permissions checked by requirePermission().
+ * Built-in role defaults mirror the access each route had under requireRole(); tenants can
+ * define role templates (TenantRole) that replace the defaults for the users assigned to them.
+ */
+
+export const PERMISSIONS = [
+  "dashboard.view",
+  "reports.view",
+
+  "bookings.view",
+  "bookings.create",
+  "bookings.update",
+  "bookings.delete",
+  "bookings.cancel",
+  "bookings.checkin",
+  "bookings.checkout",
+  "bookings.extend",
+  "bills.send",
+  "visitors.manage",
+
+  "charges.create",
+  "charges.void",
+
+  "payments.view",
+  "payments.record",
+  "payments.confirm",
+  "payments.delete",
+  "receivables.view",
+  "refunds.approve",
+
+  "prebookings.view",
+  "prebookings.create",
+  "prebookings.cancel",
+
+  "guests.view",
+  "guests.manage",
+
+  "properties.view",
+  "properties.create",
+  "properties.update",
+  "properties.delete",
+  "hotels.create",
+
+  "units.view",
+  "units.manage",
+  "units.delete",
+
+  "housekeeping.view",
+  "housekeeping.manage",
+
+  "maintenance.view",
+  "maintenance.create",
+  "maintenance.manage",
+
+  "users.view",
+  "users.manage",
+  "roles.manage",
+  "apikeys.manage",
+  "tenant.manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+type Role = "ADMIN" | "MANAGER" | "STAFF";
+
+const STAFF_DEFAULTS: Permission[] = [
+  "dashboard.view",
+  "reports.view",
+  "bookings.view",
+  "bookings.create",
+  "bookings.checkin",
+  "bookings.checkout",
+  "bookings.extend",
+  "bills.send",
+  "visitors.manage",
+  "charges.create",
+  "payments.record",
+  "receivables.view",
+  "refunds.approve",
+  "prebookings.view",
+  "prebookings.create",
+  "guests.view",
+  "guests.manage",
+  "properties.view",
+  "units.view",
+  "housekeeping.view",
+  "maintenance.view",
+  "maintenance.create",
+];
+
+const MANAGER_DEFAULTS: Permission[] = [
+  ...STAFF_DEFAULTS,
+  "bookings.update",
+  "bookings.cancel",
+  "charges.void",
+  "payments.view",
+  "payments.confirm",
+  "prebookings.cancel",
+  "properties.update",
+  "hotels.create",
+  "units.manage",
+  "housekeeping.manage",
+  "maintenance.manage",
+  "users.view",
+  "users.manage",
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: [...PERMISSIONS],
+  MANAGER: MANAGER_DEFAULTS,
+  STAFF: STAFF_DEFAULTS,
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Effective permissions for a user. ADMIN always keeps everything so a tenant cannot lock itself out.
+ */
+export function permissionsFor(role: string, templatePermissions?: string[] | null): Permission[] {
+  if (role === "ADMIN") return [...PERMISSIONS];
+  if (templatePermissions) return templatePermissions.filter(isPermission);
+  return DEFAULT_ROLE_PERMISSIONS[role as Role] ?? [];
+}
+
+/**
+ * Permissions an API key may be granted. Account, role and tenant administration stay with users.
+ */
+export const API_KEY_SCOPES: Permission[] = [
+  "reports.view",
+  "bookings.view",
+  "bookings.create",
+  "bookings.update",
+  "charges.create",
+  "payments.view",
+  "payments.record",
+  "payments.confirm",
+  "receivables.view",
+  "prebookings.view",
+  "prebookings.create",
+  "guests.view",
+  "guests.manage",
+  "properties.view",
+  "units.view",
+];
+
+export function isApiKeyScope(value: unknown): value is Permission {
+  return isPermission(value) && API_KEY_SCOPES.includes(value);
+}
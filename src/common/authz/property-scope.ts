@@ -8,6 +8,8 @@ type JwtUser = {
   userId: string;
   tenantId: string;
   role: Role;
+  apiKeyId?: string;
+  assignedPropertyIds?: string[];
 };
 
 export type PropertyScope = {
@@ -44,6 +46,12 @@ export async function resolvePropertyScope(req: Request): Promise<PropertyScope>
     return { role: "ADMIN", propertyIds: null };
   }
 
+  // API keys: requireAuth loaded the key's property list; an empty list covers the whole tenant.
+  if (actor.apiKeyId) {
+    const propertyIds = uniqueIds(actor.assignedPropertyIds);
+    return { role: actor.role, propertyIds: propertyIds.length > 0 ? propertyIds : null };
+  }
+
   const user = await prisma.user.findFirst({
     where: { id: actor.userId, tenantId },
     select: { id: true, role: true, status: true, assignedPropertyIds: true },
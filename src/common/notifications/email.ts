@@ -4,6 +4,15 @@ type SendPasswordResetEmailInput = {
   tenantName?: string | null;
 };
 
+type SendStaffInvitationEmailInput = {
+  to: string;
+  inviteLink: string;
+  tenantName?: string | null;
+  inviterName?: string | null;
+  role: string;
+  expiresAt: Date;
+};
+
 type SendGuestLifecycleEmailInput = {
   to: string;
   guestName?: string | null;
@@ -39,6 +48,34 @@ type SendGuestPaymentAcknowledgementEmailInput = {
   remainingBalance?: string | number | null;
 };
 
+type SendGuestCancellationEmailInput = {
+  to: string;
+  guestName?: string | null;
+  bookingId: string;
+  tenantName?: string | null;
+  tenantPhone?: string | null;
+  propertyName?: string | null;
+  unitName?: string | null;
+  checkIn?: Date | string | null;
+  checkOut?: Date | string | null;
+  cancellationFee?: string | number | null;
+  refundableCredit?: string | number | null;
+  policyLabel?: string | null;
+};
+
+type SendAdminNoShowReportEmailInput = {
+  to: string;
+  tenantName: string;
+  bookings: Array<{
+    bookingId: string;
+    guestName?: string | null;
+    propertyName?: string | null;
+    unitName?: string | null;
+    checkIn: Date | string;
+    fee: string | number;
+  }>;
+};
+
 type SendAdminDailyRevenueReportEmailInput = {
   to: string;
   tenantName: string;
@@ -242,6 +279,40 @@ export async function sendPasswordResetEmail(input: SendPasswordResetEmailInput)
   });
 }
 
+export async function sendStaffInvitationEmail(input: SendStaffInvitationEmailInput) {
+  const appName = process.env.APP_NAME || "EazziHotech";
+  const tenantName = input.tenantName?.trim() || appName;
+  const safeLink = escapeHtml(input.inviteLink);
+  const safeTenantName = escapeHtml(tenantName);
+  const inviter = input.inviterName?.trim() ? `${escapeHtml(input.inviterName.trim())} has` : "You have been";
+  const role = escapeHtml(input.role.charAt(0) + input.role.slice(1).toLowerCase());
+
+  const subject = `${appName}: You're invited to join ${tenantName}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+      <h2 style="margin: 0 0 12px;">You're invited</h2>
+      <p style="margin: 0 0 12px;">${inviter} invited you to join ${safeTenantName} on ${escapeHtml(appName)} as ${role}.</p>
+      <p style="margin: 0 0 16px;">
+        <a href="${safeLink}" style="background:#1d4ed8;color:#fff;padding:10px 14px;border-radius:6px;text-decoration:none;display:inline-block;">
+          Accept invitation
+        </a>
+      </p>
+      <p style="margin: 0 0 8px;">If the button does not work, use this link:</p>
+      <p style="margin: 0 0 12px; word-break: break-all;">
+        <a href="${safeLink}">${safeLink}</a>
+      </p>
+      <p style="margin: 0; color: #6b7280;">This invitation expires on ${escapeHtml(formatDateDdMonYyyy(input.expiresAt))}.</p>
+    </div>
+  `;
+
+  await sendEmailMessage({
+    to: input.to,
+    subject,
+    html,
+    consoleFallback: `[email] Staff invitation link for ${input.to}: ${input.inviteLink}`,
+  });
+}
+
 export async function sendGuestBookingEmail(input: SendGuestLifecycleEmailInput) {
   const appName = process.env.APP_NAME || "EazziHotech";
   const tenantName = input.tenantName?.trim() || appName;
@@ -334,6 +405,38 @@ export async function sendGuestCheckOutEmail(input: SendGuestLifecycleEmailInput
   });
 }
 
+export async function sendGuestCancellationEmail(input: SendGuestCancellationEmailInput) {
+  const appName = process.env.APP_NAME || "EazziHotech";
+  const tenantName = input.tenantName?.trim() || appName;
+  const tenantPhone = input.tenantPhone?.trim() || process.env.SUPPORT_PHONE || "—";
+  const bookingRef = bookingShortId(input.bookingId);
+  const fee = Number(input.cancellationFee ?? 0);
+  const credit = Number(input.refundableCredit ?? 0);
+  const subject = `Booking Cancelled – #${bookingRef}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111827; line-height: 1.6;">
+      <p>Dear ${escapeHtml(input.guestName?.trim() || "Guest Name")},</p>
+      <p>Your reservation has been cancelled.</p>
+      <p><b>Cancellation Details:</b><br/>
+      - Booking Reference: #${escapeHtml(bookingRef)}<br/>
+      - Room: ${escapeHtml(input.propertyName?.trim() || "—")} / ${escapeHtml(input.unitName?.trim() || "—")}<br/>
+      - Dates: ${escapeHtml(formatDateDdMonYyyy(input.checkIn))} to ${escapeHtml(formatDateDdMonYyyy(input.checkOut))}<br/>
+      - Cancellation Fee: ₦${escapeHtml(formatNairaAmount(fee))}<br/>
+      - Refundable Credit: ₦${escapeHtml(formatNairaAmount(credit))}</p>
+      ${input.policyLabel ? `<p><b>Policy applied:</b> ${escapeHtml(input.policyLabel)}</p>` : ""}
+      ${credit > 0 ? `<p>Our team will contact you about your refund. You can also reach us at ${escapeHtml(tenantPhone)}.</p>` : ""}
+      <p>We hope to welcome you another time.</p>
+      <p>Warm regards,<br/>${escapeHtml(tenantName)}</p>
+    </div>
+  `;
+  await sendEmailMessage({
+    to: input.to,
+    subject,
+    html,
+    consoleFallback: `[email] Cancellation notice for ${input.to} (booking ${input.bookingId})`,
+  });
+}
+
 export async function sendGuestPaymentAcknowledgementEmail(input: SendGuestPaymentAcknowledgementEmailInput) {
   const appName = process.env.APP_NAME || "EazziHotech";
   const tenantName = input.tenantName?.trim() || appName;
@@ -479,6 +582,33 @@ export async function sendAdminCheckOutAlertEmail(input: SendGuestLifecycleEmail
   });
 }
 
+export async function sendAdminNoShowReportEmail(input: SendAdminNoShowReportEmailInput) {
+  const appName = process.env.APP_NAME || "EazziHotech";
+  const subject = `${appName}: ${input.bookings.length} No-show Booking(s) – ${input.tenantName}`;
+  const rows = input.bookings
+    .map(
+      (b) =>
+        `- #${escapeHtml(bookingShortId(b.bookingId))} ${escapeHtml(b.guestName?.trim() || "Guest")}, ` +
+        `${escapeHtml(b.propertyName?.trim() || "—")} / ${escapeHtml(b.unitName?.trim() || "—")}, ` +
+        `due ${escapeHtml(formatDateDdMonYyyy(b.checkIn))}, no-show fee ₦${escapeHtml(formatNairaAmount(b.fee))}`
+    )
+    .join("<br/>");
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111827; line-height: 1.6;">
+      <p>Dear ${escapeHtml(input.tenantName)} Admin,</p>
+      <p>The following bookings were not checked in by the no-show cutoff. They are now marked NO_SHOW and their rooms are free for the remaining nights:</p>
+      <p>${rows}</p>
+      <p>Review the no-show fees and contact the guests where needed.</p>
+    </div>
+  `;
+  await sendEmailMessage({
+    to: input.to,
+    subject,
+    html,
+    consoleFallback: `[email] No-show report for ${input.to} (${input.tenantName}, ${input.bookings.length} bookings)`,
+  });
+}
+
 export async function sendGuestBillEmail(input: SendGuestBillEmailInput) {
   const appName = process.env.APP_NAME || "EazziHotech";
   const tenantName = input.tenantName?.trim() || appName;
@@ -1,4 +1,4 @@
-import { GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 
 type StorageDriver = "LOCAL" | "S3";
@@ -154,3 +154,19 @@ export async function storageObjectExists(key: string) {
     return false;
   }
 }
+
+export async function deleteObjectFromStorage(key: string) {
+  const cfg = storageConfig();
+  if (cfg.driver !== "S3") {
+    throw new Error("deleteObjectFromStorage can only be used when STORAGE_DRIVER=S3");
+  }
+  if (!cfg.bucket) throw new Error("S3_BUCKET is required when STORAGE_DRIVER=S3");
+
+  const client = getS3Client();
+  await client.send(
+    new DeleteObjectCommand({
+      Bucket: cfg.bucket,
+      Key: cleanKey(key),
+    })
+  );
+}
@@ -0,0 +1,23 @@
+import { AppError } from "../errors/AppError";
+
+const MAX_AMENITIES = 50;
+const MAX_AMENITY_LENGTH = 60;
+
+/**
+ * Amenity lists on properties, units and room categories: trimmed, de-duplicated strings.
+ * undefined/null give an empty list.
+ */
+export function parseAmenities(value: unknown) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((a) => typeof a !== "string")) {
+    throw new AppError("amenities must be an array of strings", 400, "VALIDATION_ERROR");
+  }
+  const amenities = Array.from(new Set(value.map((a: string) => a.trim()).filter(Boolean)));
+  if (amenities.length > MAX_AMENITIES) {
+    throw new AppError(`amenities cannot have more than ${MAX_AMENITIES} entries`, 400, "VALIDATION_ERROR");
+  }
+  if (amenities.some((a) => a.length > MAX_AMENITY_LENGTH)) {
+    throw new AppError(`each amenity must be at most ${MAX_AMENITY_LENGTH} characters`, 400, "VALIDATION_ERROR");
+  }
+  return amenities;
+}
@@ -0,0 +1,9 @@
+import type { Request } from "express";
+
+/**
+ * Client address as resolved by Express. Forwarded headers are only honoured for the
+ * proxy hops configured via `TRUST_PROXY_HOPS`, so clients cannot pick their own IP.
+ */
+export function getClientIp(req: Request) {
+  return req.ip || "unknown";
+}
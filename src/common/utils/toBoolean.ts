@@ -0,0 +1,12 @@
+/**
+ * Lenient boolean for JSON bodies, form fields and query strings: "false", "0" and "" are false.
+ */
+export function toBoolean(value: unknown) {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value === 1;
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    return normalized === "true" || normalized === "1" || normalized === "yes" || normalized === "on";
+  }
+  return false;
+}
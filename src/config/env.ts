@@ -10,5 +10,7 @@ function requireEnv(name: string): string {
 
 export const env = {
   PORT: Number(process.env.PORT ?? 4000),
+  /** Reverse proxies in front of the API whose X-Forwarded-For entries are trusted (0 = none). */
+  TRUST_PROXY_HOPS: Number(process.env.TRUST_PROXY_HOPS ?? 0),
   DATABASE_URL: requireEnv("DATABASE_URL"),
 };
@@ -0,0 +1,48 @@
+/**
+ * Scheduled job: mark unarrived bookings as NO_SHOW per each tenant's policy.
+ * Run from cron, e.g. hourly: `npm run jobs:no-shows` (add `-- --dry-run` to preview, `--tenant=<id>` for one tenant).
+ */
+import "dotenv/config";
+import { prisma } from "../prisma/client";
+import { logger } from "../common/logger/logger";
+import { processNoShows } from "../modules/bookings/booking.noshow";
+
+function argValue(name: string) {
+  const prefix = `--${name}=`;
+  const hit = process.argv.find((a) => a.startsWith(prefix));
+  return hit ? hit.slice(prefix.length).trim() || undefined : undefined;
+}
+
+async function run() {
+  const dryRun = process.argv.includes("--dry-run");
+  const tenantId = argValue("tenant");
+
+  logger.info({ event: "jobs.no_show.start", dryRun, tenantId: tenantId ?? null }, "No-show job started");
+  const results = await processNoShows(prisma, { dryRun, tenantId });
+
+  for (const r of results) {
+    if (r.marked.length === 0 && r.skipped.length === 0) continue;
+    logger.info(
+      {
+        event: "jobs.no_show.tenant",
+        tenantId: r.tenantId,
+        dryRun,
+        marked: r.marked,
+        skipped: r.skipped,
+      },
+      `No-show job: ${r.tenantName} marked=${r.marked.length} skipped=${r.skipped.length}`
+    );
+  }
+
+  const marked = results.reduce((sum, r) => sum + r.marked.length, 0);
+  logger.info({ event: "jobs.no_show.done", dryRun, tenants: results.length, marked }, "No-show job finished");
+}
+
+run()
+  .catch((err) => {
+    logger.error({ event: "jobs.no_show.failed", err }, "No-show job failed");
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
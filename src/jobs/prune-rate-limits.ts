@@ -0,0 +1,37 @@
+/**
+ * Scheduled job: delete rate-limit buckets that have been idle past every limiter window.
+ * Run from cron, e.g. daily: `npm run jobs:rate-limits` (`--older-than-hours=<n>` overrides the 24h default).
+ */
+import "dotenv/config";
+import { prisma } from "../prisma/client";
+import { logger } from "../common/logger/logger";
+import { pruneRateLimitBuckets } from "../middleware/rate-limit.middleware";
+
+const DEFAULT_OLDER_THAN_HOURS = 24;
+
+function argValue(name: string) {
+  const prefix = `--${name}=`;
+  const hit = process.argv.find((a) => a.startsWith(prefix));
+  return hit ? hit.slice(prefix.length).trim() || undefined : undefined;
+}
+
+async function run() {
+  const raw = argValue("older-than-hours");
+  const olderThanHours = raw === undefined ? DEFAULT_OLDER_THAN_HOURS : Number(raw);
+  if (!Number.isFinite(olderThanHours) || olderThanHours < 1) {
+    throw new Error(`--older-than-hours must be a number >= 1 (got "${raw}")`);
+  }
+
+  logger.info({ event: "jobs.rate_limit_prune.start", olderThanHours }, "Rate-limit prune job started");
+  const deleted = await pruneRateLimitBuckets(prisma, olderThanHours * 60 * 60 * 1000);
+  logger.info({ event: "jobs.rate_limit_prune.done", olderThanHours, deleted }, "Rate-limit prune job finished");
+}
+
+run()
+  .catch((err) => {
+    logger.error({ event: "jobs.rate_limit_prune.failed", err }, "Rate-limit prune job failed");
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,24 +1,159 @@
 import type { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { AppError } from "../common/errors/AppError";
+import { isSessionActive } from "../common/auth/sessions";
+import { isImpersonationActive } from "../common/auth/platform";
+import { findActiveApiKey, readApiKey, touchApiKey } from "../common/auth/apiKeys";
+import { getClientIp } from "../common/utils/clientIp";
+import { logger } from "../common/logger/logger";
+import { permissionsFor } from "../common/authz/permissions";
+import { prisma } from "../prisma/client";
+
+/**
+ * API key principals: tenant from the key, permissions from its scopes, property scope from its propertyIds.
+ * They have no userId, so user-only endpoints add requireUser.
+ */
+async function authenticateApiKey(req: Request, key: string, next: NextFunction) {
+  if ((req as any).user?.apiKeyId && (req as any).authToken === key) return next();
+
+  let apiKey: Awaited<ReturnType<typeof findActiveApiKey>>;
+  try {
+    apiKey = (req as any).apiKey ?? (await findActiveApiKey(key));
+  } catch (err) {
+    return next(err);
+  }
+
+  if (!apiKey) return next(new AppError("Invalid or expired API key", 401, "API_KEY_INVALID"));
+  if (req.tenantId && apiKey.tenantId !== req.tenantId) {
+    return next(new AppError("API key tenant mismatch", 401, "TENANT_MISMATCH"));
+  }
+
+  touchApiKey(apiKey, getClientIp(req));
+
+  (req as any).user = {
+    tenantId: apiKey.tenantId,
+    role: "STAFF",
+    apiKeyId: apiKey.id,
+    permissions: apiKey.scopes,
+    assignedPropertyIds: apiKey.propertyIds,
+  };
+  (req as any).authToken = key;
+  return next();
+}
+
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
+  const apiKey = readApiKey(req);
+  if (apiKey) return authenticateApiKey(req, apiKey, next);
 
-export function requireAuth(req: Request, _res: Response, next: NextFunction) {
   const header = req.header("authorization");
   const token = header?.startsWith("Bearer ") ? header.slice(7) : undefined;
 
   if (!token) return next(new AppError("Missing authorization token", 401, "UNAUTHORIZED"));
 
+  // Routers mounted with router.use(requireAuth) run for every request; skip repeat lookups.
+  if ((req as any).user && (req as any).authToken === token) return next();
+
+  let payload: any;
+  try {
+    payload = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as any;
+  } catch {
+    return next(new AppError("Invalid or expired token", 401, "UNAUTHORIZED"));
+  }
+
+  // Login challenge tokens share the signing secret but are not access tokens.
+  if (payload.purpose) {
+    return next(new AppError("Invalid or expired token", 401, "UNAUTHORIZED"));
+  }
+
+  // Optional safety checks:
+  if (req.tenantId && payload.tenantId !== req.tenantId) {
+    return next(new AppError("Token tenant mismatch", 401, "TENANT_MISMATCH"));
+  }
+
+  let user: {
+    tenantId: string;
+    role: string;
+    status: string;
+    tokenVersion: number;
+    assignedPropertyIds: string[];
+    tenantRole: { permissions: string[] } | null;
+  } | null;
   try {
-    const payload = jwt.verify(token, process.env.JWT_ACCESS_SECRET!) as any;
+    const [found, sessionActive] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: payload.userId },
+        select: {
+          tenantId: true,
+          role: true,
+          status: true,
+          tokenVersion: true,
+          assignedPropertyIds: true,
+          tenantRole: { select: { permissions: true } },
+        },
+      }),
+      // Impersonation tokens are bound to their grant; tokens issued before sessions existed simply run out.
+      payload.impersonationId
+        ? isImpersonationActive(payload.impersonationId, payload.userId)
+        : payload.sessionId
+          ? isSessionActive(payload.sessionId, payload.userId)
+          : Promise.resolve(true),
+    ]);
+    user = found;
 
-    // Optional safety checks:
-    if (req.tenantId && payload.tenantId !== req.tenantId) {
-      return next(new AppError("Token tenant mismatch", 401, "TENANT_MISMATCH"));
+    if (!sessionActive && payload.impersonationId) {
+      return next(new AppError("Impersonation has ended", 401, "IMPERSONATION_ENDED"));
+    }
+    if (!sessionActive) {
+      return next(new AppError("Session has been revoked", 401, "SESSION_REVOKED"));
     }
+  } catch (err) {
+    return next(err);
+  }
 
-    (req as any).user = payload; // { userId, tenantId, role }
-    return next();
-  } catch {
+  if (!user || user.tenantId !== payload.tenantId) {
     return next(new AppError("Invalid or expired token", 401, "UNAUTHORIZED"));
   }
+  if (user.status !== "ACTIVE") {
+    return next(new AppError("Account is disabled", 403, "ACCOUNT_DISABLED"));
+  }
+  if ((payload.tokenVersion ?? 0) !== user.tokenVersion) {
+    return next(new AppError("Token has been revoked", 401, "TOKEN_REVOKED"));
+  }
+
+  // Role, permissions and property scope come from the store so changes apply without waiting for token expiry.
+  (req as any).user = {
+    ...payload,
+    role: user.role,
+    assignedPropertyIds: user.assignedPropertyIds,
+    permissions: permissionsFor(user.role, user.tenantRole?.permissions),
+  }; // { userId, tenantId, role, permissions, sessionId, tokenVersion }
+  (req as any).authToken = token;
+
+  if (payload.impersonationId) {
+    logger.info(
+      {
+        event: "audit.impersonation_request",
+        requestId: req.requestId,
+        tenantId: payload.tenantId,
+        impersonationId: payload.impersonationId,
+        operatorId: payload.impersonatorId,
+        userId: payload.userId,
+        method: req.method,
+        path: req.originalUrl,
+      },
+      "Audit impersonated request"
+    );
+  }
+  return next();
+}
+
+/**
+ * For endpoints that act on the signed-in account itself (profile, password, 2FA, sessions).
+ * Must run after requireAuth.
+ */
+export function requireUser(req: Request, _res: Response, next: NextFunction) {
+  if ((req as any).user?.apiKeyId) {
+    return next(new AppError("This endpoint requires a user login", 403, "API_KEY_NOT_ALLOWED"));
+  }
+  return next();
 }
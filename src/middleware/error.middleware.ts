@@ -3,7 +3,23 @@ import { AppError } from "../common/errors/AppError";
 import { logger } from "../common/logger/logger";
 import { trackError } from "../common/observability/error-tracker";
 
+const BOOKING_OVERLAP_CONSTRAINT = "Booking_unit_active_no_overlap";
+
+/**
+ * Exclusion-constraint violations (SQLSTATE 23P01) reach us as generic Prisma errors;
+ * the constraint name in the message is the reliable signal.
+ */
+function isBookingOverlapViolation(err: any) {
+  if (!err || err instanceof AppError) return false;
+  const text = `${err.message ?? ""} ${JSON.stringify(err.meta ?? {})}`;
+  return text.includes(BOOKING_OVERLAP_CONSTRAINT);
+}
+
 export function errorMiddleware(err: any, req: Request, res: Response, _next: NextFunction) {
+  if (isBookingOverlapViolation(err)) {
+    err = new AppError("Unit is not available for the selected dates", 409, "UNIT_NOT_AVAILABLE");
+  }
+
   const status = err instanceof AppError ? err.statusCode : 500;
   const code = err instanceof AppError ? err.code : "INTERNAL_ERROR";
   const message = err instanceof AppError ? err.message : "Something went wrong";
@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../common/errors/AppError";
+import type { Permission } from "../common/authz/permissions";
+
+export function hasPermission(req: Request, permission: Permission) {
+  const permissions = ((req as any).user?.permissions ?? []) as string[];
+  return permissions.includes(permission);
+}
+
+/**
+ * Non-admins can only hand out permissions they hold themselves (role templates and their assignment).
+ */
+export function assertCanGrantPermissions(req: Request, permissions: readonly string[]) {
+  const user = (req as any).user;
+  if (user?.role === "ADMIN") return;
+
+  const held = (user?.permissions ?? []) as string[];
+  const notHeld = permissions.filter((p) => !held.includes(p));
+  if (notHeld.length > 0) {
+    throw new AppError("You cannot grant permissions you do not hold", 403, "FORBIDDEN", { notHeldPermissions: notHeld });
+  }
+}
+
+/**
+ * Must run after requireAuth, which loads the user's effective permissions from the store.
+ * All listed permissions are required.
+ */
+export function requirePermission(...required: Permission[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+
+    if (!user || !(req as any).authToken) {
+      return next(new AppError("Authentication required", 401, "UNAUTHORIZED"));
+    }
+
+    const missing = required.filter((p) => !hasPermission(req, p));
+    if (missing.length > 0) {
+      return next(new AppError("Insufficient permissions", 403, "FORBIDDEN", { missingPermissions: missing }));
+    }
+
+    next();
+  };
+}
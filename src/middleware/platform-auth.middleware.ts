@@ -0,0 +1,35 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../common/errors/AppError";
+import { verifyPlatformToken } from "../common/auth/platform";
+import { prisma } from "../prisma/client";
+
+/**
+ * Authenticates platform operators. Independent of tenants: no x-tenant-id, no tenant user tokens.
+ */
+export async function requirePlatformAuth(req: Request, _res: Response, next: NextFunction) {
+  const header = req.header("authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : undefined;
+
+  if (!token) return next(new AppError("Missing authorization token", 401, "UNAUTHORIZED"));
+
+  const payload = verifyPlatformToken(token);
+  if (!payload) {
+    return next(new AppError("Platform operator access required", 401, "PLATFORM_UNAUTHORIZED"));
+  }
+
+  try {
+    const operator = await prisma.platformOperator.findUnique({
+      where: { id: payload.operatorId },
+      select: { id: true, email: true, status: true, tokenVersion: true },
+    });
+
+    if (!operator || operator.status !== "ACTIVE" || operator.tokenVersion !== payload.tokenVersion) {
+      return next(new AppError("Platform operator access required", 401, "PLATFORM_UNAUTHORIZED"));
+    }
+
+    req.platformOperator = { operatorId: operator.id, email: operator.email };
+    return next();
+  } catch (err) {
+    return next(err);
+  }
+}
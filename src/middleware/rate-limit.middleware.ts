@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "../common/errors/AppError";
+import { getClientIp } from "../common/utils/clientIp";
+import type { PrismaClient } from "@prisma/client";
+import { prisma } from "../prisma/client";
+
+type RateLimitOptions = {
+  /** Bucket namespace, e.g. "auth.login". */
+  name: string;
+  windowMs: number;
+  max: number;
+  message?: string;
+  /** Defaults to the client IP. */
+  key?: (req: Request) => string;
+};
+
+/**
+ * Fixed-window limiter backed by Postgres so limits hold across instances and restarts.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const windowSeconds = Math.max(1, Math.ceil(options.windowMs / 1000));
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = `${options.name}:${options.key ? options.key(req) : getClientIp(req)}`;
+
+      const rows = await prisma.$queryRaw<Array<{ count: number; windowStartedAt: Date }>>`
+        INSERT INTO "RateLimitBucket" ("key", "count", "windowStartedAt", "updatedAt")
+        VALUES (${key}, 1, NOW(), NOW())
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE
+            WHEN "RateLimitBucket"."windowStartedAt" <= NOW() - make_interval(secs => ${windowSeconds}) THEN 1
+            ELSE "RateLimitBucket"."count" + 1
+          END,
+          "windowStartedAt" = CASE
+            WHEN "RateLimitBucket"."windowStartedAt" <= NOW() - make_interval(secs => ${windowSeconds}) THEN NOW()
+            ELSE "RateLimitBucket"."windowStartedAt"
+          END,
+          "updatedAt" = NOW()
+        RETURNING "count", "windowStartedAt"
+      `;
+
+      const bucket = rows[0];
+      if (bucket && Number(bucket.count) > options.max) {
+        const resetAt = new Date(bucket.windowStartedAt).getTime() + windowSeconds * 1000;
+        const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+        res.setHeader("Retry-After", String(retryAfterSeconds));
+        return next(
+          new AppError(options.message ?? "Too many requests. Please try again later.", 429, "RATE_LIMITED", {
+            retryAfterSeconds,
+          })
+        );
+      }
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
+}
+
+/**
+ * Deletes buckets not touched within `olderThanMs`. Pass something longer than the widest
+ * limiter window so live counts are never reset early.
+ */
+export async function pruneRateLimitBuckets(db: PrismaClient, olderThanMs: number) {
+  const result = await db.rateLimitBucket.deleteMany({
+    where: { updatedAt: { lt: new Date(Date.now() - olderThanMs) } },
+  });
+  return result.count;
+}
@@ -1,11 +1,15 @@
 import type { Request, Response, NextFunction } from "express";
 import { AppError } from "../common/errors/AppError";
 
+/**
+ * Must run after requireAuth, which replaces the token's role claim with the stored role.
+ */
 export function requireRole(...allowedRoles: string[]) {
   return (req: Request, _res: Response, next: NextFunction) => {
     const user = (req as any).user;
 
-    if (!user) {
+    // authToken is only set once requireAuth has checked the token version against the store.
+    if (!user || !(req as any).authToken) {
       return next(new AppError("Authentication required", 401, "UNAUTHORIZED"));
     }
 
@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from "express";
 import { AppError } from "../common/errors/AppError";
 import { prisma } from "../prisma/client";
+import { findActiveApiKey, readApiKey } from "../common/auth/apiKeys";
 
 function daysUntil(dateValue?: Date | null) {
   if (!dateValue) return null;
@@ -11,7 +12,16 @@ function daysUntil(dateValue?: Date | null) {
 
 export async function tenantMiddleware(req: Request, _res: Response, next: NextFunction) {
   try {
-    const tenantId = req.header("x-tenant-id")?.trim();
+    let tenantId = req.header("x-tenant-id")?.trim();
+
+    // Integrations may omit the header: an API key already names its tenant.
+    const rawApiKey = tenantId ? undefined : readApiKey(req);
+    if (rawApiKey) {
+      const apiKey = await findActiveApiKey(rawApiKey);
+      if (!apiKey) return next(new AppError("Invalid or expired API key", 401, "API_KEY_INVALID"));
+      (req as any).apiKey = apiKey;
+      tenantId = apiKey.tenantId;
+    }
 
     if (!tenantId) {
       return next(new AppError("Missing x-tenant-id header", 400, "TENANT_REQUIRED"));
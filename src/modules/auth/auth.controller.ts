@@ -1,16 +1,124 @@
 import type { Request, Response, NextFunction } from "express";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
-import { isSuperAdminEmail } from "../../common/auth/superadmin";
 import { passwordPolicyErrors } from "../../common/auth/passwordPolicy";
-import { resetPassword, sendResetLink } from "./auth.service";
+import { revokeSessionFamily, revokeUserSessions } from "../../common/auth/sessions";
+import { logger } from "../../common/logger/logger";
+import { getClientIp } from "../../common/utils/clientIp";
+import { acceptInvitation, describeInvitation } from "../users/invitation.service";
+import { endImpersonation } from "../platform/platform.service";
+import {
+  beginTwoFactorEnrollment,
+  clearFailedLogins,
+  completeTwoFactorEnrollment,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  logFailedLogin,
+  recordFailedLogin,
+  regenerateRecoveryCodes,
+  resetPassword,
+  rotateSession,
+  sendResetLink,
+  signLoginChallenge,
+  startSession,
+  verifyLoginChallenge,
+  verifyTwoFactor,
+  type SessionContext,
+} from "./auth.service";
 
 type UserRole = "ADMIN" | "MANAGER" | "STAFF";
 
-function signAccessToken(payload: { userId: string; tenantId: string; role: UserRole }) {
-  return jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, { expiresIn: "1h" });
+type LoginUser = {
+  id: string;
+  tenantId: string;
+  role: UserRole;
+  email: string;
+  fullName: string | null;
+  tokenVersion: number;
+  lockedUntil: Date | null;
+  failedLoginCount: number;
+};
+
+const loginUserSelect = {
+  id: true,
+  tenantId: true,
+  role: true,
+  email: true,
+  fullName: true,
+  status: true,
+  tokenVersion: true,
+  lockedUntil: true,
+  failedLoginCount: true,
+} as const;
+
+function sessionContext(req: Request): SessionContext {
+  return { userAgent: req.header("user-agent") ?? null, ipAddress: getClientIp(req) };
+}
+
+function getAuthedUser(req: Request) {
+  const u = (req as any).user as { userId: string; tenantId: string; role: UserRole } | undefined;
+  if (!u) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
+  return u;
+}
+
+function assertNotLocked(user: { lockedUntil: Date | null }) {
+  if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+    throw new AppError("Account is temporarily locked. Try again later.", 423, "ACCOUNT_LOCKED", {
+      lockedUntil: user.lockedUntil,
+    });
+  }
+}
+
+/**
+ * Loads the user behind a 2FA challenge and re-checks the account is still usable.
+ */
+async function loadChallengeUser(userId: string, tenantId: string) {
+  const user = await prisma.user.findFirst({ where: { id: userId, tenantId }, select: loginUserSelect });
+  if (!user) throw new AppError("Invalid or expired challenge token", 401, "INVALID_CHALLENGE");
+  if (user.status === "DISABLED") throw new AppError("Account is disabled", 403, "ACCOUNT_DISABLED");
+  assertNotLocked(user);
+  return user;
+}
+
+/**
+ * Final step of every login path: opens a session and returns the standard login payload.
+ * Lockout counters are only reset here, so a correct password alone cannot clear them ahead of the 2FA step.
+ */
+async function sendLoginResponse(
+  req: Request,
+  res: Response,
+  user: LoginUser,
+  extra: Record<string, unknown> = {}
+) {
+  const subscription = (req as any).tenantSubscription as
+    | { subscriptionStatus: string; currentPeriodEndAt?: Date | null; daysToExpiry?: number | null }
+    | undefined;
+
+  if (user.failedLoginCount > 0 || user.lockedUntil) await clearFailedLogins(user.id);
+
+  const { tokens } = await startSession(
+    { id: user.id, tenantId: user.tenantId, role: user.role, tokenVersion: user.tokenVersion },
+    sessionContext(req)
+  );
+
+  const daysToExpiry = subscription?.daysToExpiry ?? null;
+  const expiringSoon = typeof daysToExpiry === "number" && daysToExpiry >= 0 && daysToExpiry <= 3;
+
+  return res.json({
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    tenantId: user.tenantId,
+    role: user.role,
+    user: { id: user.id, email: user.email, fullName: user.fullName, role: user.role },
+    subscription: {
+      status: subscription?.subscriptionStatus ?? "ACTIVE",
+      currentPeriodEndAt: subscription?.currentPeriodEndAt ?? null,
+      daysToExpiry,
+      expiringSoon,
+    },
+    ...extra,
+  });
 }
 
 export async function register(req: Request, res: Response, next: NextFunction) {
@@ -64,15 +172,22 @@ export async function register(req: Request, res: Response, next: NextFunction)
         role: true,
         fullName: true,
         phone: true,
+        tokenVersion: true,
         createdAt: true,
       },
     });
 
-    const accessToken = signAccessToken({ userId: user.id, tenantId: user.tenantId, role: user.role });
+    const { tokens } = await startSession(
+      { id: user.id, tenantId: user.tenantId, role: user.role, tokenVersion: user.tokenVersion },
+      sessionContext(req)
+    );
+
+    const { tokenVersion: _tokenVersion, ...createdUser } = user;
 
     return res.status(201).json({
-      user,
-      accessToken,
+      user: createdUser,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       tenantId: user.tenantId,
       role: user.role,
     });
@@ -85,9 +200,6 @@ export async function login(req: Request, res: Response, next: NextFunction) {
   try {
     const tenantId = (req as any).tenantId as string | undefined;
     if (!tenantId) throw new AppError("Tenant missing on request", 400, "TENANT_CONTEXT_MISSING");
-    const subscription = (req as any).tenantSubscription as
-      | { subscriptionStatus: string; currentPeriodEndAt?: Date | null; daysToExpiry?: number | null }
-      | undefined;
 
     const { email, password } = req.body as { email?: string; password?: string };
     if (!email || !password) throw new AppError("email and password are required", 400, "VALIDATION_ERROR");
@@ -95,55 +207,373 @@ export async function login(req: Request, res: Response, next: NextFunction) {
     const user = await prisma.user.findUnique({
       where: { tenantId_email: { tenantId, email } },
       select: {
-        id: true,
-        tenantId: true,
-        role: true,
+        ...loginUserSelect,
         passwordHash: true,
-        email: true,
-        fullName: true,
-        status: true,
+        twoFactorEnabled: true,
       },
     });
 
+    const context = sessionContext(req);
+
     if (!user) {
+      logFailedLogin({ tenantId, email, reason: "UNKNOWN_EMAIL" }, context);
       throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
     }
 
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      logFailedLogin(
+        { tenantId, email, userId: user.id, reason: "ACCOUNT_LOCKED", lockedUntil: user.lockedUntil },
+        context
+      );
+      assertNotLocked(user);
+    }
+
     if (user.status === "DISABLED") {
       throw new AppError("Account is disabled", 403, "ACCOUNT_DISABLED");
     }
+    if (user.status === "INVITED") {
+      throw new AppError("Accept your invitation email to activate this account", 403, "INVITATION_PENDING");
+    }
+
+    const ok = await bcrypt.compare(password, user.passwordHash);
+    if (!ok) {
+      await recordFailedLogin(user, context);
+      throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
+    }
 
+    // Password step passed; enrolled users (or those the tenant policy forces to enrol) get a challenge instead of tokens.
+    const enrollmentRequired = !user.twoFactorEnabled && (await isTwoFactorRequired(user));
+    if (user.twoFactorEnabled || enrollmentRequired) {
+      const challenge = signLoginChallenge({ userId: user.id, tenantId: user.tenantId, enrollmentRequired });
+      return res.json({
+        twoFactorRequired: true,
+        enrollmentRequired,
+        challengeToken: challenge.challengeToken,
+        expiresIn: challenge.expiresIn,
+      });
+    }
 
-    // ✅ If you added user.status, enable this:
-    // if ((user as any).status === "DISABLED") throw new AppError("Account disabled", 403, "ACCOUNT_DISABLED");
+    return sendLoginResponse(req, res, user);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/login/2fa
+ * Body: { challengeToken, code? , recoveryCode? }
+ * Second login step for users with 2FA enabled.
+ */
+export async function verifyLoginTwoFactor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenantId as string | undefined;
+    if (!tenantId) throw new AppError("Tenant missing on request", 400, "TENANT_CONTEXT_MISSING");
+
+    const { challengeToken, code, recoveryCode } = req.body as {
+      challengeToken?: string;
+      code?: string;
+      recoveryCode?: string;
+    };
+    if (!challengeToken || (!code && !recoveryCode)) {
+      throw new AppError("challengeToken and code or recoveryCode are required", 400, "VALIDATION_ERROR");
+    }
+
+    const challenge = verifyLoginChallenge(challengeToken, tenantId);
+    const user = await loadChallengeUser(challenge.userId, tenantId);
+    const context = sessionContext(req);
+
+    const result = await verifyTwoFactor(user.id, { code, recoveryCode });
+    if (!result.ok) {
+      await recordFailedLogin(user, context);
+      throw new AppError("Invalid two-factor code", 401, "INVALID_TWO_FACTOR_CODE");
+    }
+
+    logger.info(
+      {
+        event: "audit.login_two_factor_passed",
+        requestId: req.requestId,
+        tenantId,
+        actorUserId: user.id,
+        method: result.method,
+      },
+      "Audit login two-factor passed"
+    );
+
+    return sendLoginResponse(
+      req,
+      res,
+      user,
+      result.method === "RECOVERY_CODE" ? { recoveryCodesRemaining: result.recoveryCodesRemaining } : {}
+    );
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/login/2fa/enroll
+ * Body: { challengeToken }
+ * For users the tenant policy forces to enrol before their first 2FA login.
+ */
+export async function beginLoginTwoFactorEnrollment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenantId as string | undefined;
+    if (!tenantId) throw new AppError("Tenant missing on request", 400, "TENANT_CONTEXT_MISSING");
+
+    const { challengeToken } = req.body as { challengeToken?: string };
+    if (!challengeToken) throw new AppError("challengeToken is required", 400, "VALIDATION_ERROR");
+
+    const challenge = verifyLoginChallenge(challengeToken, tenantId);
+    if (!challenge.enrollmentRequired) {
+      throw new AppError("Two-factor enrolment is not pending for this login", 400, "VALIDATION_ERROR");
+    }
+    const user = await loadChallengeUser(challenge.userId, tenantId);
+
+    const setup = await beginTwoFactorEnrollment(user.id);
+    return res.json(setup);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/login/2fa/enroll/confirm
+ * Body: { challengeToken, code }
+ * Completes enrolment and signs the user in; recovery codes are returned once.
+ */
+export async function confirmLoginTwoFactorEnrollment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenantId as string | undefined;
+    if (!tenantId) throw new AppError("Tenant missing on request", 400, "TENANT_CONTEXT_MISSING");
+
+    const { challengeToken, code } = req.body as { challengeToken?: string; code?: string };
+    if (!challengeToken || !code) throw new AppError("challengeToken and code are required", 400, "VALIDATION_ERROR");
+
+    const challenge = verifyLoginChallenge(challengeToken, tenantId);
+    if (!challenge.enrollmentRequired) {
+      throw new AppError("Two-factor enrolment is not pending for this login", 400, "VALIDATION_ERROR");
+    }
+    const user = await loadChallengeUser(challenge.userId, tenantId);
+
+    const { recoveryCodes } = await completeTwoFactorEnrollment(user.id, code);
+    logger.info(
+      { event: "audit.two_factor_enabled", requestId: req.requestId, tenantId, actorUserId: user.id },
+      "Audit two-factor enabled"
+    );
+
+    return sendLoginResponse(req, res, user, { recoveryCodes });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/setup
+ * Starts enrolment for the signed-in user; returns the secret and an otpauth:// URI for the QR code.
+ */
+export async function setupTwoFactor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getAuthedUser(req);
+    const setup = await beginTwoFactorEnrollment(actor.userId);
+    return res.json(setup);
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/enable
+ * Body: { code }
+ */
+export async function enableTwoFactor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getAuthedUser(req);
+    const { code } = req.body as { code?: string };
+    if (!code) throw new AppError("code is required", 400, "VALIDATION_ERROR");
+
+    const { recoveryCodes } = await completeTwoFactorEnrollment(actor.userId, code);
+    logger.info(
+      { event: "audit.two_factor_enabled", requestId: req.requestId, tenantId: actor.tenantId, actorUserId: actor.userId },
+      "Audit two-factor enabled"
+    );
+
+    return res.json({ enabled: true, recoveryCodes });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/disable
+ * Body: { password, code? , recoveryCode? }
+ */
+export async function disableMyTwoFactor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getAuthedUser(req);
+    const { password, code, recoveryCode } = req.body as { password?: string; code?: string; recoveryCode?: string };
+    if (!password || (!code && !recoveryCode)) {
+      throw new AppError("password and code or recoveryCode are required", 400, "VALIDATION_ERROR");
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: actor.userId },
+      select: { id: true, tenantId: true, role: true, passwordHash: true },
+    });
+    if (!user) throw new AppError("User not found", 404, "NOT_FOUND");
+
+    if (await isTwoFactorRequired(user)) {
+      throw new AppError("Your workspace requires two-factor authentication", 403, "TWO_FACTOR_REQUIRED");
+    }
 
     const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
+    if (!ok) throw new AppError("Current password is incorrect", 401, "INVALID_CREDENTIALS");
+
+    const result = await verifyTwoFactor(user.id, { code, recoveryCode });
+    if (!result.ok) throw new AppError("Invalid two-factor code", 401, "INVALID_TWO_FACTOR_CODE");
+
+    await disableTwoFactor(user.id);
+    logger.info(
+      { event: "audit.two_factor_disabled", requestId: req.requestId, tenantId: actor.tenantId, actorUserId: actor.userId },
+      "Audit two-factor disabled"
+    );
+
+    return res.json({ enabled: false });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Body: { code }
+ * Replaces all recovery codes; the old ones stop working.
+ */
+export async function regenerateMyRecoveryCodes(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getAuthedUser(req);
+    const { code } = req.body as { code?: string };
+    if (!code) throw new AppError("code is required", 400, "VALIDATION_ERROR");
+
+    const result = await verifyTwoFactor(actor.userId, { code });
+    if (!result.ok) throw new AppError("Invalid two-factor code", 401, "INVALID_TWO_FACTOR_CODE");
+
+    const { recoveryCodes } = await regenerateRecoveryCodes(actor.userId);
+    return res.json({ recoveryCodes });
+  } catch (err) {
+    next(err);
+  }
+}
 
-    const accessToken = signAccessToken({ userId: user.id, tenantId: user.tenantId, role: user.role });
-    const isSuperAdmin = isSuperAdminEmail(user.email);
+/**
+ * POST /api/auth/refresh
+ * Body: { refreshToken }
+ * Rotates the refresh token; the presented one cannot be used again.
+ */
+export async function refreshSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenantId as string | undefined;
+    if (!tenantId) throw new AppError("Tenant missing on request", 400, "TENANT_CONTEXT_MISSING");
+
+    const { refreshToken } = req.body as { refreshToken?: string };
+    if (!refreshToken || typeof refreshToken !== "string") {
+      throw new AppError("refreshToken is required", 400, "VALIDATION_ERROR");
+    }
 
-    const daysToExpiry = subscription?.daysToExpiry ?? null;
-    const expiringSoon = typeof daysToExpiry === "number" && daysToExpiry >= 0 && daysToExpiry <= 3;
+    const { tokens, user } = await rotateSession(tenantId, refreshToken.trim(), sessionContext(req));
 
     return res.json({
-      accessToken,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
       tenantId: user.tenantId,
       role: user.role,
-      isSuperAdmin,
-      user: { id: user.id, email: user.email, fullName: user.fullName, role: user.role },
-      subscription: {
-        status: subscription?.subscriptionStatus ?? "ACTIVE",
-        currentPeriodEndAt: subscription?.currentPeriodEndAt ?? null,
-        daysToExpiry,
-        expiringSoon,
-      },
     });
   } catch (err) {
     next(err);
   }
 }
 
+/**
+ * POST /api/auth/logout
+ * Body: { allDevices?: boolean }
+ * Revokes the caller's current session, or every session when allDevices is true.
+ */
+export async function logout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = (req as any).user as
+      | { userId: string; tenantId: string; sessionId?: string; impersonationId?: string; impersonatorId?: string }
+      | undefined;
+    if (!actor) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
+
+    // Logging out of an impersonated session ends the grant; the real user's sessions are untouched.
+    if (actor.impersonationId) {
+      await endImpersonation(actor.impersonatorId ?? "", actor.impersonationId, {
+        requestId: req.requestId,
+        ipAddress: getClientIp(req),
+        userAgent: req.header("user-agent") ?? null,
+      });
+      return res.json({ message: "Logged out", revokedSessions: 0 });
+    }
+
+    const { allDevices } = (req.body ?? {}) as { allDevices?: boolean };
+
+    const revokedSessions = allDevices
+      ? await revokeUserSessions(actor.userId, "LOGOUT_ALL")
+      : actor.sessionId
+        ? await revokeSessionFamily(actor.sessionId, "LOGOUT", actor.userId)
+        : 0;
+
+    logger.info(
+      {
+        event: "audit.logout",
+        requestId: req.requestId,
+        tenantId: actor.tenantId,
+        actorUserId: actor.userId,
+        allDevices: Boolean(allDevices),
+        revokedSessions,
+      },
+      "Audit logout"
+    );
+
+    return res.json({ message: "Logged out", revokedSessions });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * GET /api/auth/invitations/:token
+ * Public: details shown on the accept-invite page.
+ */
+export async function getInvitation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invitation = await describeInvitation(String(req.params.token || ""));
+    return res.json({ invitation });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/auth/invitations/accept
+ * Body: { token, password, fullName?, phone? }
+ */
+export async function acceptInvitationWithToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token, password, fullName, phone } = req.body as {
+      token?: string;
+      password?: string;
+      fullName?: string;
+      phone?: string;
+    };
+    if (!token || !password) throw new AppError("token and password are required", 400, "VALIDATION_ERROR");
+
+    const accepted = await acceptInvitation(token, { password, fullName, phone });
+    return res.json({ message: "Invitation accepted. You can now sign in.", ...accepted });
+  } catch (err) {
+    next(err);
+  }
+}
+
 export async function forgotPassword(req: Request, res: Response, next: NextFunction) {
   try {
     const { tenantSlug, tenantId, email } = req.body as {
@@ -153,11 +583,14 @@ export async function forgotPassword(req: Request, res: Response, next: NextFunc
     };
     if (!email) throw new AppError("email is required", 400, "VALIDATION_ERROR");
 
-    await sendResetLink({
-      tenantSlug: tenantSlug?.trim() || undefined,
-      tenantId: tenantId?.trim() || undefined,
-      email: email.trim().toLowerCase(),
-    });
+    await sendResetLink(
+      {
+        tenantSlug: tenantSlug?.trim() || undefined,
+        tenantId: tenantId?.trim() || undefined,
+        email: email.trim().toLowerCase(),
+      },
+      sessionContext(req)
+    );
 
     return res.json({ message: "If the email exists, a reset link has been sent." });
   } catch (err) {
@@ -1,13 +1,72 @@
 import { Router } from "express";
 import { tenantMiddleware } from "../../middleware/tenant.middleware";
-import { forgotPassword, login, register, resetPasswordWithToken } from "./auth.controller";
+import { requireAuth, requireUser } from "../../middleware/auth.middleware";
+import { rateLimit } from "../../middleware/rate-limit.middleware";
+import {
+  acceptInvitationWithToken,
+  beginLoginTwoFactorEnrollment,
+  confirmLoginTwoFactorEnrollment,
+  disableMyTwoFactor,
+  enableTwoFactor,
+  forgotPassword,
+  getInvitation,
+  login,
+  logout,
+  refreshSession,
+  regenerateMyRecoveryCodes,
+  register,
+  resetPasswordWithToken,
+  setupTwoFactor,
+  verifyLoginTwoFactor,
+} from "./auth.controller";
 
 const router = Router();
 
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+
+const loginLimiter = rateLimit({
+  name: "auth.login",
+  windowMs: FIFTEEN_MINUTES_MS,
+  max: 20,
+  message: "Too many login attempts. Please try again later.",
+});
+const forgotPasswordLimiter = rateLimit({
+  name: "auth.forgot-password",
+  windowMs: FIFTEEN_MINUTES_MS,
+  max: 5,
+  message: "Too many password reset requests. Please try again later.",
+});
+const resetPasswordLimiter = rateLimit({
+  name: "auth.reset-password",
+  windowMs: FIFTEEN_MINUTES_MS,
+  max: 10,
+  message: "Too many password reset attempts. Please try again later.",
+});
+const invitationLimiter = rateLimit({
+  name: "auth.invitations",
+  windowMs: FIFTEEN_MINUTES_MS,
+  max: 20,
+});
+
 // Register/Login require tenant header in your current architecture:
 router.post("/auth/register", tenantMiddleware, register);
-router.post("/auth/login", tenantMiddleware, login);
-router.post("/auth/forgot-password", forgotPassword);
-router.post("/auth/reset-password", resetPasswordWithToken);
+router.post("/auth/login", loginLimiter, tenantMiddleware, login);
+router.post("/auth/login/2fa", loginLimiter, tenantMiddleware, verifyLoginTwoFactor);
+router.post("/auth/login/2fa/enroll", loginLimiter, tenantMiddleware, beginLoginTwoFactorEnrollment);
+router.post("/auth/login/2fa/enroll/confirm", loginLimiter, tenantMiddleware, confirmLoginTwoFactorEnrollment);
+router.post("/auth/refresh", tenantMiddleware, refreshSession);
+router.post("/auth/logout", tenantMiddleware, requireAuth, requireUser, logout);
+
+// Two-factor management for the signed-in user
+router.post("/auth/2fa/setup", tenantMiddleware, requireAuth, requireUser, setupTwoFactor);
+router.post("/auth/2fa/enable", tenantMiddleware, requireAuth, requireUser, enableTwoFactor);
+router.post("/auth/2fa/disable", tenantMiddleware, requireAuth, requireUser, disableMyTwoFactor);
+router.post("/auth/2fa/recovery-codes", tenantMiddleware, requireAuth, requireUser, regenerateMyRecoveryCodes);
+router.post("/auth/forgot-password", forgotPasswordLimiter, forgotPassword);
+router.post("/auth/reset-password", resetPasswordLimiter, resetPasswordWithToken);
+
+// Staff invitations (token in the emailed link identifies the tenant)
+router.get("/auth/invitations/:token", invitationLimiter, getInvitation);
+router.post("/auth/invitations/accept", invitationLimiter, acceptInvitationWithToken);
 
 export const authRoutes = router;
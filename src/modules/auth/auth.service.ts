@@ -1,24 +1,390 @@
+import crypto from "crypto";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
 import { passwordPolicyErrors } from "../../common/auth/passwordPolicy";
+import { revokeSessionFamily, revokeUserSessions } from "../../common/auth/sessions";
+import {
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  totpProvisioningUri,
+  twoFactorIssuer,
+  verifyTotp,
+} from "../../common/auth/twoFactor";
 import { sendPasswordResetEmail } from "../../common/notifications/email";
 
 type Tokens = { accessToken: string; refreshToken: string };
 
-function signTokens(payload: { userId: string; tenantId: string; role: string }): Tokens {
+export type SessionContext = { userAgent?: string | null; ipAddress?: string | null };
+
+type SessionUser = { id: string; tenantId: string; role: string; tokenVersion: number };
+
+function signTokens(
+  payload: { userId: string; tenantId: string; role: string; sessionId?: string; tokenVersion?: number },
+  options: { refreshTokenId?: string } = {}
+): Tokens {
   const accessToken = jwt.sign(payload, process.env.JWT_ACCESS_SECRET!, {
     expiresIn: process.env.JWT_ACCESS_EXPIRES_IN ?? "15m",
   });
 
   const refreshToken = jwt.sign(payload, process.env.JWT_REFRESH_SECRET!, {
     expiresIn: process.env.JWT_REFRESH_EXPIRES_IN ?? "30d",
+    ...(options.refreshTokenId ? { jwtid: options.refreshTokenId } : {}),
   });
 
   return { accessToken, refreshToken };
 }
 
+/* ================= LOGIN LOCKOUT ================= */
+
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MINUTES = 5;
+const LOCKOUT_MAX_MINUTES = 24 * 60;
+
+/**
+ * Minutes to lock an account after `failedCount` consecutive failures:
+ * 5 minutes at the threshold, doubling per further failure, capped at a day.
+ */
+function lockoutMinutesFor(failedCount: number) {
+  if (failedCount < LOCKOUT_THRESHOLD) return 0;
+  return Math.min(LOCKOUT_MAX_MINUTES, LOCKOUT_BASE_MINUTES * 2 ** (failedCount - LOCKOUT_THRESHOLD));
+}
+
+export function logFailedLogin(
+  input: { tenantId: string; email: string; userId?: string; reason: string; failedLoginCount?: number; lockedUntil?: Date | null },
+  context: SessionContext
+) {
+  logger.warn(
+    {
+      event: "audit.login_failed",
+      tenantId: input.tenantId,
+      email: input.email,
+      userId: input.userId ?? null,
+      reason: input.reason,
+      failedLoginCount: input.failedLoginCount ?? null,
+      lockedUntil: input.lockedUntil ?? null,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+    },
+    "Audit login failed"
+  );
+}
+
+export async function recordFailedLogin(
+  user: { id: string; tenantId: string; email: string },
+  context: SessionContext
+) {
+  const now = new Date();
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true },
+  });
+
+  const minutes = lockoutMinutesFor(updated.failedLoginCount);
+  const lockedUntil = minutes > 0 ? new Date(now.getTime() + minutes * 60 * 1000) : null;
+  if (lockedUntil) {
+    await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } });
+  }
+
+  logFailedLogin(
+    {
+      tenantId: user.tenantId,
+      email: user.email,
+      userId: user.id,
+      reason: "INVALID_PASSWORD",
+      failedLoginCount: updated.failedLoginCount,
+      lockedUntil,
+    },
+    context
+  );
+  return lockedUntil;
+}
+
+export async function clearFailedLogins(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
+
+/* ================= TWO-FACTOR ================= */
+
+const LOGIN_CHALLENGE_PURPOSE = "login_2fa";
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export type LoginChallenge = { userId: string; tenantId: string; enrollmentRequired: boolean };
+
+export async function isTwoFactorRequired(user: { tenantId: string; role: string }) {
+  if (user.role !== "ADMIN" && user.role !== "MANAGER") return false;
+  const settings = await prisma.tenantSettings.findUnique({
+    where: { tenantId: user.tenantId },
+    select: { requireTwoFactorForAdmins: true },
+  });
+  return Boolean(settings?.requireTwoFactorForAdmins);
+}
+
+/**
+ * Short-lived token proving the password step passed. requireAuth rejects it because of `purpose`.
+ */
+export function signLoginChallenge(challenge: LoginChallenge) {
+  const challengeToken = jwt.sign({ ...challenge, purpose: LOGIN_CHALLENGE_PURPOSE }, process.env.JWT_ACCESS_SECRET!, {
+    expiresIn: LOGIN_CHALLENGE_TTL_SECONDS,
+  });
+  return { challengeToken, expiresIn: LOGIN_CHALLENGE_TTL_SECONDS };
+}
+
+export function verifyLoginChallenge(token: string, tenantId: string): LoginChallenge {
+  let payload: any;
+  try {
+    payload = jwt.verify(token, process.env.JWT_ACCESS_SECRET!);
+  } catch {
+    throw new AppError("Invalid or expired challenge token", 401, "INVALID_CHALLENGE");
+  }
+  if (payload.purpose !== LOGIN_CHALLENGE_PURPOSE) {
+    throw new AppError("Invalid or expired challenge token", 401, "INVALID_CHALLENGE");
+  }
+  if (payload.tenantId !== tenantId) {
+    throw new AppError("Token tenant mismatch", 401, "TENANT_MISMATCH");
+  }
+  return { userId: payload.userId, tenantId: payload.tenantId, enrollmentRequired: Boolean(payload.enrollmentRequired) };
+}
+
+/**
+ * Generates a fresh secret for a user who has not finished enrolment yet.
+ */
+export async function beginTwoFactorEnrollment(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, twoFactorEnabled: true },
+  });
+  if (!user) throw new AppError("User not found", 404, "NOT_FOUND");
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409, "TWO_FACTOR_ALREADY_ENABLED");
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({ where: { id: user.id }, data: { twoFactorSecret: secret } });
+
+  return {
+    secret,
+    otpauthUrl: totpProvisioningUri({ secret, accountName: user.email, issuer: twoFactorIssuer() }),
+  };
+}
+
+/**
+ * Confirms enrolment with a first code from the authenticator app and returns one-time recovery codes.
+ */
+export async function completeTwoFactorEnrollment(userId: string, code: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, twoFactorEnabled: true, twoFactorSecret: true },
+  });
+  if (!user) throw new AppError("User not found", 404, "NOT_FOUND");
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409, "TWO_FACTOR_ALREADY_ENABLED");
+  }
+  if (!user.twoFactorSecret) {
+    throw new AppError("Start two-factor setup first", 400, "TWO_FACTOR_SETUP_REQUIRED");
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) throw new AppError("Invalid two-factor code", 401, "INVALID_TWO_FACTOR_CODE");
+
+  const recovery = generateRecoveryCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: new Date(),
+      twoFactorRecoveryCodes: recovery.hashes,
+      twoFactorLastUsedStep: step,
+    },
+  });
+
+  return { recoveryCodes: recovery.codes };
+}
+
+/**
+ * Checks a TOTP code or a recovery code for an enrolled user. Used codes cannot be replayed.
+ */
+export async function verifyTwoFactor(userId: string, input: { code?: string; recoveryCode?: string }) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorRecoveryCodes: true,
+      twoFactorLastUsedStep: true,
+    },
+  });
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new AppError("Two-factor authentication is not enabled", 400, "TWO_FACTOR_NOT_ENABLED");
+  }
+
+  if (input.code) {
+    const step = verifyTotp(user.twoFactorSecret, input.code, { lastUsedStep: user.twoFactorLastUsedStep });
+    if (step === null) return { ok: false as const };
+    await prisma.user.update({ where: { id: user.id }, data: { twoFactorLastUsedStep: step } });
+    return { ok: true as const, method: "TOTP" as const };
+  }
+
+  if (input.recoveryCode) {
+    const remaining = consumeRecoveryCode(user.twoFactorRecoveryCodes, input.recoveryCode);
+    if (!remaining) return { ok: false as const };
+    await prisma.user.update({ where: { id: user.id }, data: { twoFactorRecoveryCodes: remaining } });
+    return { ok: true as const, method: "RECOVERY_CODE" as const, recoveryCodesRemaining: remaining.length };
+  }
+
+  return { ok: false as const };
+}
+
+export async function regenerateRecoveryCodes(userId: string) {
+  const recovery = generateRecoveryCodes();
+  await prisma.user.update({ where: { id: userId }, data: { twoFactorRecoveryCodes: recovery.hashes } });
+  return { recoveryCodes: recovery.codes };
+}
+
+export async function disableTwoFactor(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorEnabledAt: null,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastUsedStep: null,
+    },
+  });
+}
+
+function hashRefreshToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function refreshTokenExpiry(token: string) {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  if (decoded?.exp) return new Date(decoded.exp * 1000);
+  return new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+}
+
+async function issueSession(
+  db: Prisma.TransactionClient,
+  user: SessionUser,
+  context: SessionContext,
+  options: { sessionId?: string; familyId?: string } = {}
+) {
+  const sessionId = options.sessionId ?? crypto.randomUUID();
+  const familyId = options.familyId ?? sessionId;
+  // Access tokens identify the family so they stay valid across rotations until it is revoked.
+  const tokens = signTokens(
+    { userId: user.id, tenantId: user.tenantId, role: user.role, sessionId: familyId, tokenVersion: user.tokenVersion },
+    { refreshTokenId: sessionId }
+  );
+
+  await db.userSession.create({
+    data: {
+      id: sessionId,
+      tenantId: user.tenantId,
+      userId: user.id,
+      familyId,
+      refreshTokenHash: hashRefreshToken(tokens.refreshToken),
+      userAgent: context.userAgent?.slice(0, 512) || null,
+      ipAddress: context.ipAddress || null,
+      expiresAt: refreshTokenExpiry(tokens.refreshToken),
+    },
+  });
+
+  return { sessionId, familyId, tokens };
+}
+
+/**
+ * Starts a new session family for a freshly authenticated user.
+ */
+export async function startSession(user: SessionUser, context: SessionContext) {
+  return issueSession(prisma, user, context);
+}
+
+/**
+ * Exchanges a refresh token for a new access/refresh pair.
+ * The presented token is single-use: replaying a rotated token revokes its whole family.
+ */
+export async function rotateSession(tenantId: string, refreshToken: string, context: SessionContext) {
+  let payload: any;
+  try {
+    payload = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET!);
+  } catch {
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  if (payload.tenantId !== tenantId) {
+    throw new AppError("Token tenant mismatch", 401, "TENANT_MISMATCH");
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { refreshTokenHash: hashRefreshToken(refreshToken) },
+    include: { user: { select: { id: true, tenantId: true, role: true, status: true, tokenVersion: true } } },
+  });
+
+  if (!session || session.tenantId !== tenantId) {
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  if (session.revokedAt) {
+    if (session.replacedById) {
+      const revoked = await revokeSessionFamily(session.familyId, "REUSE_DETECTED");
+      logger.warn(
+        {
+          event: "audit.session_reuse_detected",
+          tenantId,
+          userId: session.userId,
+          familyId: session.familyId,
+          sessionId: session.id,
+          revokedSessions: revoked,
+          ipAddress: context.ipAddress ?? null,
+        },
+        "Audit refresh token reuse detected"
+      );
+      throw new AppError("Refresh token has already been used", 401, "REFRESH_TOKEN_REUSED");
+    }
+    throw new AppError("Session has been revoked", 401, "SESSION_REVOKED");
+  }
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    throw new AppError("Invalid or expired refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+
+  if (session.user.status !== "ACTIVE") {
+    await revokeSessionFamily(session.familyId, "ACCOUNT_DISABLED");
+    throw new AppError("Account is disabled", 403, "ACCOUNT_DISABLED");
+  }
+
+  const now = new Date();
+  const nextSessionId = crypto.randomUUID();
+  const next = await prisma.$transaction(async (tx) => {
+    // Claim the current row first so two concurrent refreshes cannot both rotate it.
+    const claimed = await tx.userSession.updateMany({
+      where: { id: session.id, revokedAt: null },
+      data: { revokedAt: now, revokedReason: "ROTATED", replacedById: nextSessionId, lastUsedAt: now },
+    });
+    if (claimed.count === 0) return null;
+
+    return issueSession(tx, session.user, context, { sessionId: nextSessionId, familyId: session.familyId });
+  });
+
+  if (!next) {
+    await revokeSessionFamily(session.familyId, "REUSE_DETECTED");
+    throw new AppError("Refresh token has already been used", 401, "REFRESH_TOKEN_REUSED");
+  }
+
+  return { ...next, user: session.user };
+}
+
 export async function register(tenantId: string, input: { email: string; password: string; role?: any }) {
   const existing = await prisma.user.findUnique({
     where: { tenantId_email: { tenantId, email: input.email } },
@@ -62,16 +428,85 @@ export async function login(tenantId: string, input: { email: string; password:
 }
 
 // New: forgot/reset password helpers
-export async function sendResetLink(input: { tenantId?: string; tenantSlug?: string; email: string }) {
+
+/**
+ * Lifetime of a reset link. Accepts the old JWT-style values ("1h", "30m") for compatibility.
+ */
+function resetTokenTtlMs() {
+  const raw = String(process.env.JWT_RESET_EXPIRES_IN || "1h").trim();
+  const m = raw.match(/^(\d+)\s*([smhd])?$/i);
+  if (!m) return 60 * 60 * 1000;
+  const unitMs: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  return Number(m[1]) * unitMs[(m[2] || "s").toLowerCase()];
+}
+
+function hashResetToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+async function issueResetLink(
+  user: { id: string; tenantId: string; email: string; tenant: { name: string; slug: string } },
+  requestedIp?: string | null
+) {
+  const resetToken = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await prisma.$transaction([
+    // A newer request supersedes any link still sitting in the inbox.
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null, invalidatedAt: null },
+      data: { invalidatedAt: now },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        tenantId: user.tenantId,
+        userId: user.id,
+        tokenHash: hashResetToken(resetToken),
+        expiresAt: new Date(now.getTime() + resetTokenTtlMs()),
+        requestedIp: requestedIp || null,
+      },
+    }),
+  ]);
+
+  const frontend = process.env.FRONTEND_URL || "http://localhost:5173";
+  const resetLink = `${frontend}/reset-password?token=${encodeURIComponent(resetToken)}&email=${encodeURIComponent(
+    user.email
+  )}&tenant=${encodeURIComponent(user.tenant.slug)}`;
+
+  try {
+    await sendPasswordResetEmail({
+      to: user.email,
+      resetLink,
+      tenantName: user.tenant.name,
+    });
+  } catch (err) {
+    // Keep forgot-password response generic and non-enumerating.
+    // Log provider issues for ops without returning 500 to the client.
+    console.error("[auth] Failed to send password reset email", err);
+  }
+}
+
+export async function sendResetLink(
+  input: { tenantId?: string; tenantSlug?: string; email: string },
+  context: SessionContext = {}
+) {
   const { tenantId, tenantSlug, email } = input;
   const normalizedEmail = email.trim().toLowerCase();
-  let user:
-    | {
-        id: string;
-        tenantId: string;
-        email: string;
-      }
-    | null = null;
+  const userSelect = {
+    id: true,
+    tenantId: true,
+    email: true,
+    status: true,
+    tenant: { select: { name: true, slug: true } },
+  } as const;
+
+  let users: Array<{
+    id: string;
+    tenantId: string;
+    email: string;
+    status: string;
+    tenant: { name: string; slug: string };
+  }> = [];
 
   if (tenantId || tenantSlug) {
     const tenant = tenantId
@@ -86,50 +521,32 @@ export async function sendResetLink(input: { tenantId?: string; tenantSlug?: str
 
     if (!tenant) return; // silence to avoid enumeration
 
-    user = await prisma.user.findFirst({
+    const user = await prisma.user.findFirst({
       where: {
         tenantId: tenant.id,
         email: { equals: normalizedEmail, mode: "insensitive" },
       },
-      select: { id: true, tenantId: true, email: true },
+      select: userSelect,
     });
+    if (user) users = [user];
   } else {
-    // Workspace not selected: resolve by email across active tenants.
-    user = await prisma.user.findFirst({
+    // Workspace not selected: the same email may belong to accounts in several workspaces.
+    // Each gets its own link so the reset is always tied to one account.
+    users = await prisma.user.findMany({
       where: {
         email: { equals: normalizedEmail, mode: "insensitive" },
         tenant: { status: "ACTIVE" },
       },
-      select: { id: true, tenantId: true, email: true },
+      select: userSelect,
+      orderBy: { createdAt: "asc" },
+      take: 10,
     });
   }
 
-  if (!user) return; // silence to avoid enumeration
-
-  const secret = process.env.JWT_RESET_SECRET || process.env.JWT_ACCESS_SECRET!;
-  const expiresIn = process.env.JWT_RESET_EXPIRES_IN || "1h";
-
-  const resetToken = jwt.sign(
-    { userId: user.id, tenantId: user.tenantId, email: user.email },
-    secret,
-    { expiresIn }
-  );
-
-  const frontend = process.env.FRONTEND_URL || "http://localhost:5173";
-  const resetLink = `${frontend}/reset-password?token=${encodeURIComponent(resetToken)}&email=${encodeURIComponent(
-    user.email
-  )}`;
-
-  try {
-    await sendPasswordResetEmail({
-      to: user.email,
-      resetLink,
-      tenantName: tenantSlug || undefined,
-    });
-  } catch (err) {
-    // Keep forgot-password response generic and non-enumerating.
-    // Log provider issues for ops without returning 500 to the client.
-    console.error("[auth] Failed to send password reset email", err);
+  for (const user of users) {
+    // Invited users activate through their invitation link instead.
+    if (user.status !== "ACTIVE") continue;
+    await issueResetLink(user, context.ipAddress);
   }
 }
 
@@ -139,22 +556,54 @@ export async function resetPassword(token: string, newPassword: string) {
     throw new AppError(`Password must include ${policy.join(", ")}`, 400, "WEAK_PASSWORD");
   }
 
-  const secret = process.env.JWT_RESET_SECRET || process.env.JWT_ACCESS_SECRET!;
-  let payload: any;
-  try {
-    payload = jwt.verify(token, secret);
-  } catch (err) {
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { tokenHash: hashResetToken(token) },
+    select: { id: true, userId: true, tenantId: true, expiresAt: true, usedAt: true, invalidatedAt: true },
+  });
+  if (!record || record.usedAt || record.invalidatedAt || record.expiresAt.getTime() <= Date.now()) {
     throw new AppError("Invalid or expired token", 400, "INVALID_TOKEN");
   }
 
-  const user = await prisma.user.findUnique({ where: { id: payload.userId } });
-  if (!user || user.tenantId !== payload.tenantId) {
-    throw new AppError("Invalid token", 400, "INVALID_TOKEN_PAYLOAD");
-  }
-
   const passwordHash = await bcrypt.hash(newPassword, 12);
-  await prisma.user.update({
-    where: { id: user.id },
-    data: { passwordHash },
+  const now = new Date();
+
+  const consumed = await prisma.$transaction(async (tx) => {
+    // Claim the token first so two concurrent submissions cannot both succeed.
+    const claimed = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null, invalidatedAt: null },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) return false;
+
+    await tx.passwordResetToken.updateMany({
+      where: { userId: record.userId, usedAt: null, invalidatedAt: null },
+      data: { invalidatedAt: now },
+    });
+
+    await tx.user.update({
+      where: { id: record.userId },
+      data: {
+        passwordHash,
+        tokenVersion: { increment: 1 },
+        // Proving control of the mailbox also lifts any login lockout.
+        failedLoginCount: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      },
+    });
+    return true;
   });
+
+  if (!consumed) throw new AppError("Invalid or expired token", 400, "INVALID_TOKEN");
+
+  const revokedSessions = await revokeUserSessions(record.userId, "PASSWORD_RESET");
+  logger.info(
+    {
+      event: "audit.password_reset",
+      tenantId: record.tenantId,
+      actorUserId: record.userId,
+      revokedSessions,
+    },
+    "Audit password reset"
+  );
 }
@@ -0,0 +1,451 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import {
+  assertPropertyInScope,
+  resolvePropertyScope,
+  scopedPropertyWhere,
+  scopedUnitWhere,
+} from "../../common/authz/property-scope";
+import { PRICING_UNIT_SELECT, loadPricingRules, priceStay } from "../bookings/booking.pricing";
+import { ACTIVE_BOOKING_STATUSES } from "../bookings/booking.availability";
+
+const UNIT_TYPES = new Set(["ROOM", "APARTMENT"]);
+const MAX_RANGE_NIGHTS = 90;
+const MAX_CALENDAR_NIGHTS = 62;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Why a unit cannot be sold for the requested range.
+ * PENDING bookings are unpaid holds; CONFIRMED are sold; CHECKED_IN units are occupied.
+ * OUT_OF_ORDER is a maintenance block on the unit.
+ * MIN_STAY means the unit is free but its rate rules need a longer stay from this arrival date.
+ */
+type BlockReason =
+  | {
+      type: "HOLD" | "BOOKED" | "OCCUPIED";
+      bookingId: string;
+      from: Date;
+      to: Date;
+    }
+  | { type: "OUT_OF_ORDER"; blockId: string; reason: string; from: Date; to: Date }
+  | { type: "MIN_STAY"; minStayNights: number };
+
+function toDate(value: unknown, field: string) {
+  const raw = String(value ?? "").trim();
+  if (!raw) throw new AppError(`${field} is required`, 400, "VALIDATION_ERROR");
+  const d = new Date(raw);
+  if (Number.isNaN(d.getTime())) throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function blockTypeForStatus(status: string): "HOLD" | "BOOKED" | "OCCUPIED" {
+  if (status === "CHECKED_IN") return "OCCUPIED";
+  if (status === "CONFIRMED") return "BOOKED";
+  return "HOLD";
+}
+
+/** Active bookings and maintenance blocks overlapping [from, to), grouped by unit. */
+async function loadBlockReasons(db: ReturnType<typeof prismaForTenant>, tenantId: string, unitIds: string[], from: Date, to: Date) {
+  const blocksByUnit = new Map<string, BlockReason[]>();
+  if (unitIds.length === 0) return blocksByUnit;
+
+  const [blockingBookings, maintenanceBlocks] = await Promise.all([
+    db.raw.booking.findMany({
+      where: {
+        tenantId,
+        unitId: { in: unitIds },
+        status: { in: [...ACTIVE_BOOKING_STATUSES] },
+        AND: [{ checkIn: { lt: to } }, { checkOut: { gt: from } }],
+      },
+      orderBy: { checkIn: "asc" },
+      select: { id: true, unitId: true, status: true, checkIn: true, checkOut: true },
+    }),
+    db.raw.unitBlock.findMany({
+      where: {
+        tenantId,
+        unitId: { in: unitIds },
+        AND: [{ startDate: { lt: to } }, { endDate: { gt: from } }],
+      },
+      orderBy: { startDate: "asc" },
+      select: { id: true, unitId: true, reason: true, startDate: true, endDate: true },
+    }),
+  ]);
+
+  for (const b of blockingBookings) {
+    const list = blocksByUnit.get(b.unitId) ?? [];
+    list.push({ type: blockTypeForStatus(b.status), bookingId: b.id, from: b.checkIn, to: b.checkOut });
+    blocksByUnit.set(b.unitId, list);
+  }
+  for (const b of maintenanceBlocks) {
+    const list = blocksByUnit.get(b.unitId) ?? [];
+    list.push({ type: "OUT_OF_ORDER", blockId: b.id, reason: b.reason, from: b.startDate, to: b.endDate });
+    blocksByUnit.set(b.unitId, list);
+  }
+  return blocksByUnit;
+}
+
+function parseSearchRange(req: Request) {
+  const from = toDate(req.query.from, "from");
+  const to = toDate(req.query.to, "to");
+  if (to <= from) throw new AppError("to must be after from", 400, "VALIDATION_ERROR");
+  if (to.getTime() - from.getTime() > MAX_RANGE_NIGHTS * DAY_MS) {
+    throw new AppError(`Range cannot exceed ${MAX_RANGE_NIGHTS} nights`, 400, "VALIDATION_ERROR");
+  }
+  return { from, to };
+}
+
+function parseGuests(req: Request) {
+  const guestsRaw = String(req.query.guests ?? "").trim();
+  const guests = guestsRaw ? Number(guestsRaw) : null;
+  if (guests !== null && (!Number.isInteger(guests) || guests < 1)) {
+    throw new AppError("guests must be a positive integer", 400, "VALIDATION_ERROR");
+  }
+  return guests;
+}
+
+/**
+ * GET /api/availability?from=&to=&guests=&propertyId=&unitType=&categoryId=
+ * Free units with their computed price, plus the units that are blocked and why.
+ */
+export const searchAvailability = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+
+  const { from, to } = parseSearchRange(req);
+  const guests = parseGuests(req);
+
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  if (propertyId) assertPropertyInScope(propertyScope, propertyId);
+
+  const unitType = String(req.query.unitType ?? "").trim().toUpperCase() || null;
+  if (unitType && !UNIT_TYPES.has(unitType)) {
+    throw new AppError("unitType must be ROOM or APARTMENT", 400, "VALIDATION_ERROR");
+  }
+  const categoryId = String(req.query.categoryId ?? "").trim() || null;
+
+  const units = await db.raw.unit.findMany({
+    where: {
+      tenantId,
+      ...scopedUnitWhere(propertyScope),
+      ...(propertyId ? { propertyId } : {}),
+      ...(unitType ? { type: unitType as any } : {}),
+      ...(categoryId ? { categoryId } : {}),
+      ...(guests !== null ? { capacity: { gte: guests } } : {}),
+    },
+    orderBy: [{ property: { name: "asc" } }, { name: "asc" }],
+    select: {
+      ...PRICING_UNIT_SELECT,
+      name: true,
+      capacity: true,
+      discountLabel: true,
+      property: { select: { id: true, name: true, type: true } },
+      category: { select: { id: true, name: true, basePrice: true } },
+    },
+  });
+
+  const [blocksByUnit, pricingRules] = await Promise.all([
+    loadBlockReasons(db, tenantId, units.map((u) => u.id), from, to),
+    loadPricingRules(db.raw, tenantId, units, from, to),
+  ]);
+
+  const nights = Math.max(1, Math.ceil((to.getTime() - from.getTime()) / DAY_MS));
+
+  const available: any[] = [];
+  const unavailable: any[] = [];
+  for (const unit of units) {
+    const summary = {
+      unitId: unit.id,
+      name: unit.name,
+      type: unit.type,
+      capacity: unit.capacity,
+      property: unit.property,
+      category: unit.category ? { id: unit.category.id, name: unit.category.name } : null,
+    };
+
+    const blocks = blocksByUnit.get(unit.id);
+    if (blocks) {
+      unavailable.push({ ...summary, reasons: blocks });
+      continue;
+    }
+
+    const quote = priceStay(unit, from, to, pricingRules);
+    if (quote.minStayNights > nights) {
+      unavailable.push({ ...summary, reasons: [{ type: "MIN_STAY", minStayNights: quote.minStayNights }] });
+      continue;
+    }
+
+    available.push({
+      ...summary,
+      price: !quote.rateMissing
+        ? {
+            total: quote.total.toFixed(2),
+            averageNightly: (quote.total / nights).toFixed(2),
+            currency: "NGN",
+            discountLabel: unit.discountLabel ?? null,
+          }
+        : null,
+      rateMissing: quote.rateMissing,
+    });
+  }
+
+  res.json({
+    from,
+    to,
+    nights,
+    guests,
+    available,
+    unavailable,
+    summary: { totalUnits: units.length, available: available.length, unavailable: unavailable.length },
+  });
+});
+
+/**
+ * GET /api/availability/categories?from=&to=&guests=&propertyId=
+ * Sellable inventory per room category: how many of its units are free for the whole range, and the
+ * lowest price among them. Booking a category takes one of these units (see createBooking).
+ */
+export const searchCategoryAvailability = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+
+  const { from, to } = parseSearchRange(req);
+  const guests = parseGuests(req);
+
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  if (propertyId) assertPropertyInScope(propertyScope, propertyId);
+
+  const categories = await db.raw.roomCategory.findMany({
+    where: {
+      tenantId,
+      property: scopedPropertyWhere(propertyScope),
+      ...(propertyId ? { propertyId } : {}),
+      ...(guests !== null ? { capacity: { gte: guests } } : {}),
+    },
+    orderBy: [{ property: { name: "asc" } }, { name: "asc" }],
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      capacity: true,
+      amenities: true,
+      property: { select: { id: true, name: true, type: true } },
+      units: { select: { ...PRICING_UNIT_SELECT, discountLabel: true } },
+    },
+  });
+
+  const units = categories.flatMap((c) => c.units);
+  const [blocksByUnit, pricingRules] = await Promise.all([
+    loadBlockReasons(db, tenantId, units.map((u) => u.id), from, to),
+    loadPricingRules(db.raw, tenantId, units, from, to),
+  ]);
+
+  const nights = Math.max(1, Math.ceil((to.getTime() - from.getTime()) / DAY_MS));
+
+  const rows = categories.map((category) => {
+    let availableUnits = 0;
+    let lowest: { total: number; discountLabel: string | null } | null = null;
+    let rateMissing = false;
+
+    for (const unit of category.units) {
+      if (blocksByUnit.has(unit.id)) continue;
+      const quote = priceStay(unit, from, to, pricingRules);
+      if (quote.minStayNights > nights) continue;
+
+      availableUnits += 1;
+      if (quote.rateMissing) {
+        rateMissing = true;
+        continue;
+      }
+      if (!lowest || quote.total < lowest.total) lowest = { total: quote.total, discountLabel: unit.discountLabel ?? null };
+    }
+
+    return {
+      categoryId: category.id,
+      name: category.name,
+      description: category.description,
+      capacity: category.capacity,
+      amenities: category.amenities,
+      property: category.property,
+      totalUnits: category.units.length,
+      availableUnits,
+      soldOut: availableUnits === 0,
+      price: lowest
+        ? {
+            fromTotal: lowest.total.toFixed(2),
+            averageNightly: (lowest.total / nights).toFixed(2),
+            currency: "NGN",
+            discountLabel: lowest.discountLabel,
+          }
+        : null,
+      rateMissing,
+    };
+  });
+
+  res.json({
+    from,
+    to,
+    nights,
+    guests,
+    categories: rows,
+    summary: {
+      categories: rows.length,
+      available: rows.filter((r) => !r.soldOut).length,
+      soldOut: rows.filter((r) => r.soldOut).length,
+    },
+  });
+});
+
+function startOfDay(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+function addDays(d: Date, days: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + days);
+  return x;
+}
+
+function ymd(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+/**
+ * GET /api/calendar?from=&to=&propertyId=&categoryId=
+ * Tape chart: for each unit, one cell per night in [from, to). A booking occupies the nights from its
+ * check-in date up to (not including) its check-out date; maintenance blocks cover their nights the
+ * same way and show as OUT_OF_ORDER where no booking sits.
+ */
+export const getCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+
+  const from = startOfDay(toDate(req.query.from, "from"));
+  const to = startOfDay(toDate(req.query.to, "to"));
+  if (to <= from) throw new AppError("to must be after from", 400, "VALIDATION_ERROR");
+
+  const dates: Date[] = [];
+  for (let d = from; d < to; d = addDays(d, 1)) dates.push(d);
+  if (dates.length > MAX_CALENDAR_NIGHTS) {
+    throw new AppError(`Range cannot exceed ${MAX_CALENDAR_NIGHTS} nights`, 400, "VALIDATION_ERROR");
+  }
+
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  if (propertyId) assertPropertyInScope(propertyScope, propertyId);
+  const categoryId = String(req.query.categoryId ?? "").trim() || null;
+
+  const units = await db.raw.unit.findMany({
+    where: {
+      tenantId,
+      ...scopedUnitWhere(propertyScope),
+      ...(propertyId ? { propertyId } : {}),
+      ...(categoryId ? { categoryId } : {}),
+    },
+    orderBy: [{ property: { name: "asc" } }, { name: "asc" }],
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      capacity: true,
+      property: { select: { id: true, name: true } },
+      category: { select: { id: true, name: true } },
+    },
+  });
+
+  // Checked-out stays stay on the chart as history; cancelled and no-show bookings free the unit.
+  const bookings = units.length
+    ? await db.raw.booking.findMany({
+        where: {
+          tenantId,
+          unitId: { in: units.map((u) => u.id) },
+          status: { in: [...ACTIVE_BOOKING_STATUSES, "CHECKED_OUT"] },
+          AND: [{ checkIn: { lt: to } }, { checkOut: { gt: from } }],
+        },
+        orderBy: { checkIn: "asc" },
+        select: {
+          id: true,
+          unitId: true,
+          status: true,
+          paymentStatus: true,
+          guestName: true,
+          checkIn: true,
+          checkOut: true,
+          totalAmount: true,
+          currency: true,
+          categoryId: true,
+          unitAssigned: true,
+        },
+      })
+    : [];
+  const maintenanceBlocks = units.length
+    ? await db.raw.unitBlock.findMany({
+        where: {
+          tenantId,
+          unitId: { in: units.map((u) => u.id) },
+          AND: [{ startDate: { lt: to } }, { endDate: { gt: from } }],
+        },
+        orderBy: { startDate: "asc" },
+        select: { id: true, unitId: true, reason: true, startDate: true, endDate: true },
+      })
+    : [];
+
+  const bookingsByUnit = new Map<string, typeof bookings>();
+  for (const b of bookings) {
+    const list = bookingsByUnit.get(b.unitId) ?? [];
+    list.push(b);
+    bookingsByUnit.set(b.unitId, list);
+  }
+  const blocksByUnit = new Map<string, typeof maintenanceBlocks>();
+  for (const b of maintenanceBlocks) {
+    const list = blocksByUnit.get(b.unitId) ?? [];
+    list.push(b);
+    blocksByUnit.set(b.unitId, list);
+  }
+
+  const rows = units.map((unit) => {
+    const unitBookings = bookingsByUnit.get(unit.id) ?? [];
+    const unitBlocks = blocksByUnit.get(unit.id) ?? [];
+    const nights = dates.map((date) => {
+      const t = date.getTime();
+      const occupying = unitBookings.find((b) => {
+        const firstNight = startOfDay(b.checkIn).getTime();
+        const lastNightExclusive = Math.max(startOfDay(b.checkOut).getTime(), addDays(startOfDay(b.checkIn), 1).getTime());
+        return t >= firstNight && t < lastNightExclusive;
+      });
+      if (occupying) return { date: ymd(date), state: "BOOKED" as const, bookingId: occupying.id };
+      const block = unitBlocks.find(
+        (b) => t >= startOfDay(b.startDate).getTime() && t < startOfDay(b.endDate).getTime()
+      );
+      return block
+        ? { date: ymd(date), state: "OUT_OF_ORDER" as const, blockId: block.id }
+        : { date: ymd(date), state: "FREE" as const };
+    });
+
+    return {
+      unitId: unit.id,
+      name: unit.name,
+      type: unit.type,
+      capacity: unit.capacity,
+      property: unit.property,
+      category: unit.category,
+      nights,
+    };
+  });
+
+  res.json({
+    from: ymd(from),
+    to: ymd(to),
+    dates: dates.map(ymd),
+    units: rows,
+    bookings,
+    blocks: maintenanceBlocks,
+  });
+});
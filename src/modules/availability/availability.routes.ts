@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import { getCalendar, searchAvailability, searchCategoryAvailability } from "./availability.controller";
+
+export const availabilityRoutes = Router();
+
+availabilityRoutes.get("/availability", requireAuth, requirePermission("bookings.view"), searchAvailability);
+availabilityRoutes.get(
+  "/availability/categories",
+  requireAuth,
+  requirePermission("bookings.view"),
+  searchCategoryAvailability
+);
+availabilityRoutes.get("/calendar", requireAuth, requirePermission("bookings.view"), getCalendar);
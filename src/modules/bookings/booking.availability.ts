@@ -0,0 +1,182 @@
+// src/modules/bookings/booking.availability.ts
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { PRICING_UNIT_SELECT, quoteStay, replaceBookingNights } from "./booking.pricing";
+
+/** Statuses that hold a unit; mirrors the Booking_unit_active_no_overlap constraint. */
+export const ACTIVE_BOOKING_STATUSES = ["PENDING", "CONFIRMED", "CHECKED_IN"] as const;
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+type AvailabilityInput = { tenantId: string; unitId: string; checkIn: Date; checkOut: Date; excludeBookingId?: string };
+
+/**
+ * First active booking overlapping [checkIn, checkOut) on the unit, or null when it is free.
+ */
+export async function findUnitConflict(db: Db, input: AvailabilityInput) {
+  return db.booking.findFirst({
+    where: {
+      tenantId: input.tenantId,
+      unitId: input.unitId,
+      ...(input.excludeBookingId ? { id: { not: input.excludeBookingId } } : {}),
+      status: { in: [...ACTIVE_BOOKING_STATUSES] },
+      AND: [{ checkIn: { lt: input.checkOut } }, { checkOut: { gt: input.checkIn } }],
+    },
+    select: { id: true, status: true, checkIn: true, checkOut: true },
+  });
+}
+
+/**
+ * First maintenance block overlapping [checkIn, checkOut) on the unit, or null when it is in service.
+ */
+export async function findUnitBlock(db: Db, input: Omit<AvailabilityInput, "excludeBookingId">) {
+  return db.unitBlock.findFirst({
+    where: {
+      tenantId: input.tenantId,
+      unitId: input.unitId,
+      AND: [{ startDate: { lt: input.checkOut } }, { endDate: { gt: input.checkIn } }],
+    },
+    orderBy: { startDate: "asc" },
+    select: { id: true, reason: true, startDate: true, endDate: true },
+  });
+}
+
+/** Throws UNIT_OUT_OF_ORDER when a maintenance block overlaps [checkIn, checkOut) on the unit. */
+export async function assertUnitInService(
+  db: Db,
+  input: Omit<AvailabilityInput, "excludeBookingId">,
+  message = "Unit is out of order for the selected dates"
+) {
+  const block = await findUnitBlock(db, input);
+  if (block) {
+    throw new AppError(message, 409, "UNIT_OUT_OF_ORDER", {
+      blockId: block.id,
+      reason: block.reason,
+      blockStart: block.startDate,
+      blockEnd: block.endDate,
+    });
+  }
+}
+
+/**
+ * Throws UNIT_NOT_AVAILABLE when another active booking overlaps [checkIn, checkOut) on the unit,
+ * or UNIT_OUT_OF_ORDER when a maintenance block does.
+ * This is the friendly early check; the exclusion constraint still guards concurrent writes.
+ */
+export async function assertUnitAvailable(
+  db: Db,
+  input: AvailabilityInput,
+  message = "Unit is not available for the selected dates"
+) {
+  const conflict = await findUnitConflict(db, input);
+  if (conflict) {
+    throw new AppError(message, 409, "UNIT_NOT_AVAILABLE", {
+      conflictingBookingId: conflict.id,
+      conflictCheckIn: conflict.checkIn,
+      conflictCheckOut: conflict.checkOut,
+    });
+  }
+  await assertUnitInService(db, input);
+}
+
+/**
+ * Units of the category that are free and in service for all of [checkIn, checkOut), by name.
+ * This is the category's sellable inventory for the stay; a category booking takes the first one.
+ */
+export async function findFreeCategoryUnits(
+  db: Db,
+  input: { tenantId: string; categoryId: string; checkIn: Date; checkOut: Date }
+) {
+  return db.unit.findMany({
+    where: {
+      tenantId: input.tenantId,
+      categoryId: input.categoryId,
+      bookings: {
+        none: {
+          status: { in: [...ACTIVE_BOOKING_STATUSES] },
+          AND: [{ checkIn: { lt: input.checkOut } }, { checkOut: { gt: input.checkIn } }],
+        },
+      },
+      blocks: {
+        none: { AND: [{ startDate: { lt: input.checkOut } }, { endDate: { gt: input.checkIn } }] },
+      },
+    },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, propertyId: true },
+  });
+}
+
+/**
+ * Room assignment at check-in. Without a requested unit the booking keeps the room it holds.
+ * A requested unit must be in the same property (and the same category for a category booking)
+ * and free for the whole stay; the booking is moved onto it. An engine-priced stay is requoted for
+ * the new room (total, open ROOM charges and nights), while a manual total stays as agreed.
+ * Returns the unit the guest goes into and, when the stay was requoted, its new total.
+ */
+export async function assignRoomForCheckIn(
+  db: Db,
+  input: {
+    tenantId: string;
+    booking: { id: string; unitId: string; categoryId: string | null; checkIn: Date; checkOut: Date };
+    unitId?: string | null;
+  }
+) {
+  const { booking } = input;
+  if (!input.unitId || input.unitId === booking.unitId) return { unitId: booking.unitId, repricedTotal: null };
+
+  const [current, target] = await Promise.all([
+    db.unit.findFirst({ where: { id: booking.unitId, tenantId: input.tenantId }, select: { propertyId: true } }),
+    db.unit.findFirst({
+      where: { id: input.unitId, tenantId: input.tenantId },
+      select: PRICING_UNIT_SELECT,
+    }),
+  ]);
+  if (!target || target.propertyId !== current?.propertyId) {
+    throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+  }
+  if (booking.categoryId && target.categoryId !== booking.categoryId) {
+    throw new AppError("Unit is not in the booked room category", 409, "UNIT_CATEGORY_MISMATCH", {
+      categoryId: booking.categoryId,
+      unitCategoryId: target.categoryId,
+    });
+  }
+
+  // The overlap constraint covers the booking's full range, so check bookings from the original
+  // arrival. Maintenance blocks only matter from now on; callers check those with assertUnitInService.
+  const conflict = await findUnitConflict(db, {
+    tenantId: input.tenantId,
+    unitId: target.id,
+    checkIn: booking.checkIn,
+    checkOut: booking.checkOut,
+    excludeBookingId: booking.id,
+  });
+  if (conflict) {
+    throw new AppError("Unit is not available for the rest of this stay", 409, "UNIT_NOT_AVAILABLE", {
+      conflictingBookingId: conflict.id,
+      conflictCheckIn: conflict.checkIn,
+      conflictCheckOut: conflict.checkOut,
+    });
+  }
+
+  const pricedNights = await db.bookingNight.count({
+    where: { tenantId: input.tenantId, bookingId: booking.id, chargeId: null },
+  });
+  if (pricedNights === 0) {
+    await db.booking.update({ where: { id: booking.id }, data: { unitId: target.id } });
+    return { unitId: target.id, repricedTotal: null };
+  }
+
+  const quote = await quoteStay(db, input.tenantId, target, booking.checkIn, booking.checkOut);
+  if (quote.rateMissing) {
+    throw new AppError("Target unit base rate is not set; cannot reprice", 400, "UNIT_BASE_RATE_MISSING");
+  }
+  const totalAmount = quote.total.toFixed(2);
+
+  await db.booking.update({ where: { id: booking.id }, data: { unitId: target.id, totalAmount } });
+  await db.bookingCharge.updateMany({
+    where: { tenantId: input.tenantId, bookingId: booking.id, status: "OPEN", type: "ROOM" },
+    data: { amount: totalAmount },
+  });
+  await replaceBookingNights(db, input.tenantId, booking.id, quote);
+  return { unitId: target.id, repricedTotal: totalAmount };
+}
@@ -0,0 +1,102 @@
+// src/modules/bookings/booking.cancellation.ts
+import type { Prisma, PrismaClient } from "@prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+type FeeRule = {
+  feeType: "PERCENT" | "FIRST_NIGHT";
+  feePercent: number;
+};
+
+export type CancellationPolicy = FeeRule & {
+  freeHours: number;
+};
+
+/** No-show rule; cutoffHours null means the tenant has switched automatic no-shows off. */
+export type NoShowPolicy = FeeRule & {
+  cutoffHours: number | null;
+};
+
+export type CancellationFee = {
+  hoursBeforeArrival: number;
+  withinFreeWindow: boolean;
+  fee: number;
+  /** Human-readable rule that produced the fee, stored as the booking's refundPolicy. */
+  label: string;
+};
+
+/** Matches the TenantSettings defaults so tenants without a settings row get the same policy. */
+const DEFAULT_POLICY: CancellationPolicy = { freeHours: 72, feeType: "FIRST_NIGHT", feePercent: 0 };
+const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = { cutoffHours: null, feeType: "FIRST_NIGHT", feePercent: 100 };
+
+function round2(n: number) {
+  return Number(n.toFixed(2));
+}
+
+export async function loadCancellationPolicy(db: Db, tenantId: string): Promise<CancellationPolicy> {
+  const settings = await db.tenantSettings.findUnique({
+    where: { tenantId },
+    select: { cancellationFreeHours: true, cancellationFeeType: true, cancellationFeePercent: true },
+  });
+  if (!settings) return DEFAULT_POLICY;
+  return {
+    freeHours: settings.cancellationFreeHours,
+    feeType: settings.cancellationFeeType,
+    feePercent: Number(settings.cancellationFeePercent ?? 0),
+  };
+}
+
+export function noShowPolicyFromSettings(
+  settings: { noShowCutoffHours: number | null; noShowFeeType: FeeRule["feeType"]; noShowFeePercent: unknown } | null
+): NoShowPolicy {
+  if (!settings) return DEFAULT_NO_SHOW_POLICY;
+  return {
+    cutoffHours: settings.noShowCutoffHours,
+    feeType: settings.noShowFeeType,
+    feePercent: Number(settings.noShowFeePercent ?? 0),
+  };
+}
+
+/** Percent of the room total or the first night's rate, never more than the room total. */
+export function policyFeeAmount(rule: FeeRule, roomTotal: number, firstNightAmount: number) {
+  const total = Math.max(0, roomTotal);
+  const fee =
+    rule.feeType === "PERCENT"
+      ? (total * Math.min(100, Math.max(0, rule.feePercent))) / 100
+      : Math.max(0, firstNightAmount);
+  return round2(Math.min(fee, total));
+}
+
+/**
+ * Fee for cancelling at `now`: free inside the window, otherwise policyFeeAmount. `firstNightAmount`
+ * comes from the stored nightly breakdown when there is one, else the caller passes the average night.
+ */
+export function computeCancellationFee(input: {
+  policy: CancellationPolicy;
+  checkIn: Date;
+  now: Date;
+  roomTotal: number;
+  firstNightAmount: number;
+}): CancellationFee {
+  const { policy, checkIn, now } = input;
+  const hoursBeforeArrival = round2((checkIn.getTime() - now.getTime()) / (1000 * 60 * 60));
+
+  if (hoursBeforeArrival >= policy.freeHours) {
+    return {
+      hoursBeforeArrival,
+      withinFreeWindow: true,
+      fee: 0,
+      label: `Free cancellation until ${policy.freeHours}h before arrival`,
+    };
+  }
+
+  return {
+    hoursBeforeArrival,
+    withinFreeWindow: false,
+    fee: policyFeeAmount(policy, input.roomTotal, input.firstNightAmount),
+    label:
+      policy.feeType === "PERCENT"
+        ? `${policy.feePercent}% of room total inside ${policy.freeHours}h of arrival`
+        : `First night charged inside ${policy.freeHours}h of arrival`,
+  };
+}
@@ -1,15 +1,16 @@
 // src/modules/bookings/booking.controller.ts
 import type { Request, Response } from "express";
-import fs from "fs";
 import path from "path";
 
 import { asyncHandler } from "../../common/utils/asyncHandler";
+import { toBoolean } from "../../common/utils/toBoolean";
 import { AppError } from "../../common/errors/AppError";
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
 import { logger } from "../../common/logger/logger";
 import {
   sendAdminBookingAlertEmail,
   sendGuestBookingEmail,
+  sendGuestCancellationEmail,
   sendGuestPaymentAcknowledgementEmail,
 } from "../../common/notifications/email";
 import {
@@ -18,9 +19,36 @@ import {
   isS3StorageEnabled,
   publicUrlFromKey,
   storageObjectExists,
-  uploadBufferToStorage,
 } from "../../common/storage/object-storage";
-import { resolvePropertyScope, scopedBookingWhere, scopedUnitWhere } from "../../common/authz/property-scope";
+import {
+  resolvePropertyScope,
+  scopedBookingWhere,
+  scopedPropertyWhere,
+  scopedUnitWhere,
+} from "../../common/authz/property-scope";
+import { hasPermission } from "../../middleware/permission.middleware";
+import {
+  PRICING_UNIT_SELECT,
+  assertMinimumStay,
+  computeTotalBillFromBaseAndCharges,
+  countNights,
+  quoteStay,
+  replaceBookingNights,
+  summarizeQuote,
+} from "./booking.pricing";
+import {
+  assignRoomForCheckIn,
+  assertUnitAvailable,
+  assertUnitInService,
+  findFreeCategoryUnits,
+  findUnitBlock,
+  findUnitConflict,
+} from "./booking.availability";
+import { BOOKING_TRANSITIONS, assertTransition, recordStatusChange, transitionBooking, transitionData } from "./booking.state";
+import { computeCancellationFee, loadCancellationPolicy } from "./booking.cancellation";
+import { checkUnitReadyForCheckIn } from "../housekeeping/housekeeping.status";
+import { safeImageExt, storeUploadedImage } from "../media/media.service";
+import type { UploadedFile } from "../media/media.service";
 
 /**
  * Helpers
@@ -33,14 +61,6 @@ function toDate(value: any, field: string) {
   return d;
 }
 
-function ensureDir(dir: string) {
-  fs.mkdirSync(dir, { recursive: true });
-}
-
-function safeImageExt(mime: string) {
-  return mime === "image/png" ? "png" : "jpg";
-}
-
 const ALLOWED_IMAGE_MIME = new Set(["image/jpeg", "image/jpg", "image/png"]);
 const MAX_GUEST_PHOTO_BYTES = 300 * 1024;
 
@@ -54,87 +74,16 @@ function normalizeOptionalString(value: unknown) {
   return next ? next : null;
 }
 
-function toBoolean(value: unknown) {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "number") return value === 1;
-  if (typeof value === "string") {
-    const normalized = value.trim().toLowerCase();
-    return normalized === "true" || normalized === "1" || normalized === "yes" || normalized === "on";
-  }
-  return false;
-}
-
-function computeTotalBillFromBaseAndCharges(
-  baseAmount: number,
-  charges: Array<{ amount: any; type?: string | null }> | null | undefined
-) {
-  const list = charges ?? [];
-  const base = Math.max(0, Number(baseAmount || 0));
-
-  const roomCharges = list.filter((c) => String(c.type || "").toUpperCase() === "ROOM");
-  const otherCharges = list.filter((c) => String(c.type || "").toUpperCase() !== "ROOM");
-
-  const roomTotal = roomCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-
-  // If ROOM charge exists, use it unless legacy data undercut booking total.
-  const roomComponent = roomCharges.length > 0 ? Math.max(roomTotal, base) : base;
-
-  return Math.max(0, roomComponent + otherTotal);
-}
-
-function startOfDay(d: Date) {
-  const x = new Date(d);
-  x.setHours(0, 0, 0, 0);
-  return x;
-}
-
-function addDays(d: Date, days: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + days);
-  return x;
-}
-
-function unitNightlyRateForDate(unit: any, day: Date) {
-  const base = Number(unit.basePrice ?? 0);
-  if (!Number.isFinite(base) || base <= 0) return 0;
-
-  if (!unit.discountType || !unit.discountValue || !unit.discountStart || !unit.discountEnd) {
-    return base;
-  }
-
-  const d = startOfDay(day).getTime();
-  const s = startOfDay(new Date(unit.discountStart)).getTime();
-  const e = startOfDay(new Date(unit.discountEnd)).getTime();
-  if (d < s || d > e) return base;
-
-  const discountValue = Number(unit.discountValue ?? 0);
-  if (!Number.isFinite(discountValue) || discountValue <= 0) return base;
-
-  if (unit.discountType === "PERCENT") {
-    const pct = Math.max(0, Math.min(100, discountValue));
-    return Math.max(0, base * (1 - pct / 100));
-  }
-  if (unit.discountType === "FIXED_PRICE") {
-    return Math.max(0, discountValue);
-  }
-  return base;
-}
-
-function calculateBookingTotalFromUnitRate(unit: any, checkIn: Date, checkOut: Date) {
-  const s = startOfDay(checkIn);
-  const e = startOfDay(checkOut);
-  const nights = Math.max(1, Math.ceil((e.getTime() - s.getTime()) / (1000 * 60 * 60 * 24)));
-  let total = 0;
-  for (let i = 0; i < nights; i += 1) {
-    total += unitNightlyRateForDate(unit, addDays(s, i));
-  }
-  return Math.max(0, Number(total.toFixed(2)));
-}
-
 /**
  * Controllers
  */
+
+/**
+ * POST /api/bookings
+ * Body: { unitId? , categoryId?, guestId, checkIn, checkOut, totalAmount?, currency?, groupId? }
+ * With only categoryId the first free room of the category is held and the booking is left
+ * unassigned (unitAssigned: false) until check-in.
+ */
 export const createBooking = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
   const db = prismaForTenant(tenantId);
@@ -143,14 +92,16 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
 
   const {
     unitId,
+    categoryId,
     checkIn,
     checkOut,
     guestId, // ✅ NEW
     totalAmount,
     currency,
+    groupId,
   } = req.body;
 
-  if (!unitId) throw new AppError("unitId is required", 400, "VALIDATION_ERROR");
+  if (!unitId && !categoryId) throw new AppError("unitId or categoryId is required", 400, "VALIDATION_ERROR");
   if (!guestId) throw new AppError("guestId is required", 400, "VALIDATION_ERROR");
 
   const start = toDate(checkIn, "checkIn");
@@ -163,46 +114,63 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
   if (currency !== undefined && currency !== null && typeof currency !== "string") {
     throw new AppError("currency must be a string", 400, "VALIDATION_ERROR");
   }
+  if (groupId !== undefined && groupId !== null && typeof groupId !== "string") {
+    throw new AppError("groupId must be a string", 400, "VALIDATION_ERROR");
+  }
+
+  // Booking by category takes the first free room in it; the room is confirmed or swapped at check-in.
+  const category = categoryId
+    ? await db.raw.roomCategory.findFirst({
+        where: { id: String(categoryId), tenantId, property: scopedPropertyWhere(propertyScope) },
+        select: { id: true },
+      })
+    : null;
+  if (categoryId && !category) throw new AppError("Room category not found", 404, "ROOM_CATEGORY_NOT_FOUND");
+
+  let bookedUnitId: string | null = unitId ? String(unitId) : null;
+  if (!bookedUnitId && category) {
+    const [free] = await findFreeCategoryUnits(db.raw, { tenantId, categoryId: category.id, checkIn: start, checkOut: end });
+    if (!free) {
+      throw new AppError("No rooms left in this category for the selected dates", 409, "ROOM_CATEGORY_SOLD_OUT", {
+        categoryId: category.id,
+      });
+    }
+    bookedUnitId = free.id;
+  }
 
   const unit = await db.raw.unit.findFirst({
-    where: { id: unitId, tenantId, ...scopedUnitWhere(propertyScope) },
-    select: {
-      id: true,
-      basePrice: true,
-      discountType: true,
-      discountValue: true,
-      discountStart: true,
-      discountEnd: true,
-    },
+    where: { id: bookedUnitId!, tenantId, ...scopedUnitWhere(propertyScope) },
+    select: PRICING_UNIT_SELECT,
   });
   if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+  if (category && unit.categoryId !== category.id) {
+    throw new AppError("Unit is not in the booked room category", 409, "UNIT_CATEGORY_MISMATCH", {
+      categoryId: category.id,
+      unitCategoryId: unit.categoryId,
+    });
+  }
+
+  // Adding a room to an existing group puts it on that group's master folio.
+  const group = groupId
+    ? await db.raw.bookingGroup.findFirst({ where: { id: groupId, tenantId }, select: { id: true, currency: true } })
+    : null;
+  if (groupId && !group) throw new AppError("Booking group not found", 404, "GROUP_NOT_FOUND");
 
-  const calculatedTotal = calculateBookingTotalFromUnitRate(unit, start, end);
-  if ((totalAmount === undefined || totalAmount === null || !String(totalAmount).trim()) && calculatedTotal <= 0) {
+  const quote = await quoteStay(db.raw, tenantId, unit, start, end);
+  assertMinimumStay(quote);
+  const hasManualTotal = totalAmount !== undefined && totalAmount !== null && !!String(totalAmount).trim();
+  if (!hasManualTotal && quote.rateMissing) {
     throw new AppError(
       "Unit base rate is not set. Set unit base price or provide totalAmount.",
       400,
       "UNIT_BASE_RATE_MISSING"
     );
   }
-  const bookingTotalAmount =
-    totalAmount !== undefined && totalAmount !== null && String(totalAmount).trim()
-      ? String(totalAmount).trim()
-      : calculatedTotal.toFixed(2);
+  const bookingTotalAmount = hasManualTotal ? String(totalAmount).trim() : quote.total.toFixed(2);
 
-  // Overlap check:
-  const conflict = await db.booking.findMany({
-    where: {
-      unitId,
-      status: { in: ["PENDING", "CONFIRMED", "CHECKED_IN"] },
-      AND: [{ checkIn: { lt: end } }, { checkOut: { gt: start } }],
-    },
-    take: 1,
-  });
-
-  if (conflict.length > 0) {
-    throw new AppError("Unit is not available for the selected dates", 409, "UNIT_NOT_AVAILABLE");
-  }
+  // Concurrent requests that both pass this are stopped by the Booking_unit_active_no_overlap
+  // constraint, which error.middleware maps to UNIT_NOT_AVAILABLE.
+  await assertUnitAvailable(db.raw, { tenantId, unitId: unit.id, checkIn: start, checkOut: end });
 
   const result = await db.raw.$transaction(async (tx) => {
     // ✅ Load guest (and ensure tenant match)
@@ -228,7 +196,10 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
     const booking = await tx.booking.create({
       data: {
         tenantId,
-        unitId,
+        unitId: unit.id,
+        categoryId: unit.categoryId ?? null,
+        unitAssigned: !!unitId,
+        groupId: group?.id ?? null,
         guestId: guest.id, // ✅ IMPORTANT
         checkIn: start,
         checkOut: end,
@@ -245,7 +216,7 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
         vehiclePlate: guest.vehiclePlate ?? null,
 
         totalAmount: bookingTotalAmount,
-        currency: currency ?? "NGN",
+        currency: currency ?? group?.currency ?? "NGN",
         status: "PENDING",
         paymentStatus: "UNPAID",
       },
@@ -255,6 +226,20 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
       },
     });
 
+    await recordStatusChange(tx, {
+      tenantId,
+      bookingId: booking.id,
+      from: null,
+      to: "PENDING",
+      source: "bookings.create",
+      actorUserId: user?.userId ?? null,
+    });
+
+    // A manual totalAmount has no nightly breakdown to store.
+    if (!hasManualTotal) {
+      await replaceBookingNights(tx, tenantId, booking.id, quote);
+    }
+
     // ✅ Auto-create ROOM charge if totalAmount is present
     if (bookingTotalAmount) {
       await tx.bookingCharge.create({
@@ -279,8 +264,11 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
       requestId: req.requestId,
       tenantId,
       bookingId: (result as any).id,
-      unitId,
+      unitId: unit.id,
+      categoryId: unit.categoryId ?? null,
+      unitAssigned: !!unitId,
       guestId,
+      groupId: group?.id ?? null,
       actorUserId: user?.userId ?? null,
     },
     "Audit booking created"
@@ -349,7 +337,93 @@ export const createBooking = asyncHandler(async (req: Request, res: Response) =>
     });
   }
 
-  res.status(201).json({ booking: withGuestPhotoUrl(result as any) });
+  res.status(201).json({
+    booking: withGuestPhotoUrl(result as any),
+    nights: hasManualTotal ? [] : quote.nights,
+  });
+});
+
+/**
+ * POST /api/bookings/quote
+ * Body: { unitId, checkIn, checkOut, guests? }
+ * Prices a prospective stay exactly as createBooking would, without reserving the unit or writing anything.
+ */
+export const quoteBooking = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+  const { unitId, checkIn, checkOut, guests } = req.body ?? {};
+
+  if (!unitId) throw new AppError("unitId is required", 400, "VALIDATION_ERROR");
+  if (!checkIn || !checkOut) throw new AppError("checkIn and checkOut are required", 400, "VALIDATION_ERROR");
+  const start = toDate(checkIn, "checkIn");
+  const end = toDate(checkOut, "checkOut");
+  if (end <= start) throw new AppError("checkOut must be after checkIn", 400, "VALIDATION_ERROR");
+
+  const guestCount = guests === undefined || guests === null || guests === "" ? null : Number(guests);
+  if (guestCount !== null && (!Number.isInteger(guestCount) || guestCount < 1)) {
+    throw new AppError("guests must be a positive integer", 400, "VALIDATION_ERROR");
+  }
+
+  const unit = await db.raw.unit.findFirst({
+    where: { id: String(unitId), tenantId, ...scopedUnitWhere(propertyScope) },
+    select: {
+      ...PRICING_UNIT_SELECT,
+      name: true,
+      capacity: true,
+      discountLabel: true,
+      property: { select: { id: true, name: true } },
+    },
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+
+  const [quote, conflict, block, settings] = await Promise.all([
+    quoteStay(db.raw, tenantId, unit, start, end),
+    findUnitConflict(db.raw, { tenantId, unitId: unit.id, checkIn: start, checkOut: end }),
+    findUnitBlock(db.raw, { tenantId, unitId: unit.id, checkIn: start, checkOut: end }),
+    db.raw.tenantSettings.findUnique({
+      where: { tenantId },
+      select: { serviceChargePercent: true, taxPercent: true, minDepositPercent: true },
+    }),
+  ]);
+
+  const capacityOk = guestCount === null || guestCount <= unit.capacity;
+  const minStayMet = quote.minStayNights <= quote.nights.length;
+
+  res.json({
+    unit: {
+      id: unit.id,
+      name: unit.name,
+      type: unit.type,
+      capacity: unit.capacity,
+      property: unit.property,
+    },
+    checkIn: start,
+    checkOut: end,
+    nights: quote.nights.length,
+    guests: guestCount,
+    availability: {
+      available: !conflict && !block && capacityOk && minStayMet,
+      conflict: conflict
+        ? { bookingId: conflict.id, status: conflict.status, checkIn: conflict.checkIn, checkOut: conflict.checkOut }
+        : null,
+      outOfOrder: block
+        ? { blockId: block.id, reason: block.reason, from: block.startDate, to: block.endDate }
+        : null,
+      capacityOk,
+      minStayNights: quote.minStayNights,
+      minStayMet,
+    },
+    rateMissing: quote.rateMissing,
+    pricing: quote.rateMissing
+      ? null
+      : {
+          currency: "NGN",
+          discountLabel: unit.discountLabel ?? null,
+          breakdown: quote.nights,
+          ...summarizeQuote(quote, settings),
+        },
+  });
 });
 
 export const listBookings = asyncHandler(async (req: Request, res: Response) => {
@@ -657,6 +731,8 @@ export const checkInBooking = asyncHandler(async (req: Request, res: Response) =
     idIssuedBy,
     vehiclePlate,
     updateGuestProfile,
+    ignoreHousekeeping,
+    unitId,
   } = req.body ?? {};
   const shouldUpdateGuestProfile = toBoolean(updateGuestProfile);
 
@@ -679,6 +755,10 @@ export const checkInBooking = asyncHandler(async (req: Request, res: Response) =
       select: {
         id: true,
         status: true,
+        unitId: true,
+        categoryId: true,
+        checkIn: true,
+        checkOut: true,
         checkedInAt: true,
         guestId: true,
       },
@@ -686,17 +766,31 @@ export const checkInBooking = asyncHandler(async (req: Request, res: Response) =
 
     if (!existing) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
 
-    if (String(existing.status).toUpperCase() !== "CONFIRMED") {
-      throw new AppError("Only CONFIRMED bookings can be checked in", 400, "INVALID_STATUS");
-    }
-
     if (existing.checkedInAt) {
       throw new AppError("Booking already checked in", 409, "ALREADY_CHECKED_IN");
     }
 
+    const { unitId: roomUnitId } = await assignRoomForCheckIn(tx, {
+      tenantId,
+      booking: existing,
+      unitId: normalizeOptionalString(unitId),
+    });
+
+    await assertUnitInService(tx, {
+      tenantId,
+      unitId: roomUnitId,
+      checkIn: new Date(),
+      checkOut: existing.checkOut,
+    });
+    const housekeepingWarning = await checkUnitReadyForCheckIn(tx, {
+      tenantId,
+      unitId: roomUnitId,
+      ignoreHousekeeping: toBoolean(ignoreHousekeeping),
+    });
+
     const bookingUpdateData: Record<string, any> = {
-      status: "CHECKED_IN",
-      checkedInAt: new Date(),
+      ...transitionData(existing.status, "CHECKED_IN"),
+      unitAssigned: true,
       checkInNotes: incoming.checkInNotes ?? null,
     };
 
@@ -724,6 +818,15 @@ export const checkInBooking = asyncHandler(async (req: Request, res: Response) =
         },
       },
     });
+    await recordStatusChange(tx, {
+      tenantId,
+      bookingId,
+      from: existing.status,
+      to: "CHECKED_IN",
+      source: "bookings.check_in",
+      reason: incoming.checkInNotes,
+      actorUserId: req.user?.userId ?? null,
+    });
 
     if (shouldUpdateGuestProfile && existing.guestId) {
       const guestUpdateData: Record<string, any> = {};
@@ -745,10 +848,10 @@ export const checkInBooking = asyncHandler(async (req: Request, res: Response) =
       }
     }
 
-    return booking;
+    return { booking, housekeepingWarning };
   });
 
-  res.json({ booking: withGuestPhotoUrl(updated as any) });
+  res.json({ booking: withGuestPhotoUrl(updated.booking as any), housekeepingWarning: updated.housekeepingWarning });
 });
 
 /**
@@ -763,7 +866,7 @@ export const uploadGuestPhoto = asyncHandler(async (req: Request, res: Response)
   const bookingId = req.params.id;
   const propertyScope = await resolvePropertyScope(req);
 
-  const file = (req as any).file as Express.Multer.File | undefined;
+  const file = (req as any).file as UploadedFile | undefined;
   if (!file) throw new AppError("No photo uploaded", 400, "VALIDATION_ERROR");
 
   // Ensure booking belongs to tenant
@@ -780,20 +883,8 @@ export const uploadGuestPhoto = asyncHandler(async (req: Request, res: Response)
   const filename = `guest.${ext}`;
   const photoKey = path.join(relativeDir, filename).replace(/\\/g, "/");
 
-  if (isS3StorageEnabled()) {
-    await uploadBufferToStorage({
-      key: photoKey,
-      body: file.buffer,
-      contentType: file.mimetype,
-    });
-  } else {
-    // Local dev fallback: save to uploads/tenants/<tenantId>/bookings/<bookingId>/guest.<ext>
-    const uploadRoot = path.join(process.cwd(), "uploads");
-    const absoluteDir = path.join(uploadRoot, relativeDir);
-    ensureDir(absoluteDir);
-    const absolutePath = path.join(absoluteDir, filename);
-    fs.writeFileSync(absolutePath, file.buffer);
-  }
+  // S3, or uploads/tenants/<tenantId>/bookings/<bookingId>/guest.<ext> locally
+  await storeUploadedImage(photoKey, file);
 
   await db.raw.booking.update({
     where: { id: bookingId },
@@ -1032,7 +1123,7 @@ export const recordBookingPayment = asyncHandler(async (req: Request, res: Respo
       where: { id: bookingId },
       data: {
         paymentStatus: nextStatus,
-        status: nextBookingStatus,
+        ...(nextBookingStatus !== booking.status ? transitionData(booking.status, nextBookingStatus) : {}),
       },
       select: {
         id: true,
@@ -1054,6 +1145,16 @@ export const recordBookingPayment = asyncHandler(async (req: Request, res: Respo
       },
     });
 
+    await recordStatusChange(tx, {
+      tenantId,
+      bookingId: booking.id,
+      from: booking.status,
+      to: nextBookingStatus,
+      source: "bookings.record_payment",
+      reason: "Payment recorded",
+      actorUserId: user?.userId ?? null,
+    });
+
     return {
       payment,
       booking: withGuestPhotoUrl(updatedBooking as any),
@@ -1244,18 +1345,13 @@ export const updateBooking = asyncHandler(async (req: Request, res: Response) =>
     if (!guest) throw new AppError("Guest not found", 404, "GUEST_NOT_FOUND");
   }
 
-  const overlap = await db.raw.booking.findFirst({
-    where: {
-      tenantId,
-      id: { not: bookingId },
-      unitId: nextUnitId,
-      status: { in: ["PENDING", "CONFIRMED", "CHECKED_IN"] },
-      AND: [{ checkIn: { lt: nextCheckOut } }, { checkOut: { gt: nextCheckIn } }],
-      ...scopedBookingWhere(propertyScope),
-    },
-    select: { id: true },
+  await assertUnitAvailable(db.raw, {
+    tenantId,
+    unitId: nextUnitId,
+    checkIn: nextCheckIn,
+    checkOut: nextCheckOut,
+    excludeBookingId: bookingId,
   });
-  if (overlap) throw new AppError("Unit is not available for the selected dates", 409, "UNIT_NOT_AVAILABLE");
 
   const updated = await db.raw.$transaction(async (tx) => {
     let guestSnapshot: any = null;
@@ -1316,12 +1412,362 @@ export const updateBooking = asyncHandler(async (req: Request, res: Response) =>
       });
     }
 
+    // Edits here are not repriced, so the stored nightly breakdown no longer describes the total.
+    const stayChanged =
+      nextUnitId !== current.unitId ||
+      nextCheckIn.getTime() !== current.checkIn.getTime() ||
+      nextCheckOut.getTime() !== current.checkOut.getTime();
+    const totalChanged = Number(nextTotalAmount ?? 0) !== Number(current.totalAmount ?? 0);
+    if (stayChanged || totalChanged) {
+      await replaceBookingNights(tx, tenantId, bookingId, null);
+    }
+
     return booking;
   });
 
   res.json({ booking: withGuestPhotoUrl(updated as any) });
 });
 
+/**
+ * POST /api/bookings/:id/move
+ * Body: { unitId?, checkIn?, checkOut?, reprice? }
+ * Tape chart drag/drop. If only checkIn is given the stay length is kept. CHECKED_IN bookings can
+ * change unit only (room move); use extend-stay for their dates. The agreed price is kept unless
+ * reprice is true, in which case it is recalculated from the target unit's rate (extension nights
+ * keep their own charge). Changing the number of nights requires reprice.
+ */
+export const moveBooking = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const propertyScope = await resolvePropertyScope(req);
+
+  const bookingId = normalizeOptionalString(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+  if (!bookingId) throw new AppError("booking id is required", 400, "VALIDATION_ERROR");
+
+  const current = await db.raw.booking.findFirst({
+    where: { id: bookingId, tenantId, ...scopedBookingWhere(propertyScope) },
+    select: { id: true, unitId: true, status: true, checkIn: true, checkOut: true, totalAmount: true, currency: true },
+  });
+  if (!current) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
+
+  const status = String(current.status).toUpperCase();
+  if (!["PENDING", "CONFIRMED", "CHECKED_IN"].includes(status)) {
+    throw new AppError("Only PENDING, CONFIRMED or CHECKED_IN bookings can be moved", 400, "INVALID_STATUS");
+  }
+
+  const { unitId, checkIn, checkOut, reprice } = req.body ?? {};
+  const nextUnitId = normalizeOptionalString(unitId) ?? current.unitId;
+
+  let nextCheckIn = current.checkIn;
+  let nextCheckOut = current.checkOut;
+  if (checkIn || checkOut) {
+    if (status === "CHECKED_IN") {
+      throw new AppError("Checked-in bookings can only change unit; use extend-stay for dates", 400, "INVALID_STATUS");
+    }
+    nextCheckIn = checkIn ? toDate(checkIn, "checkIn") : current.checkIn;
+    nextCheckOut = checkOut
+      ? toDate(checkOut, "checkOut")
+      : new Date(nextCheckIn.getTime() + (current.checkOut.getTime() - current.checkIn.getTime()));
+  }
+  if (nextCheckOut <= nextCheckIn) throw new AppError("checkOut must be after checkIn", 400, "VALIDATION_ERROR");
+
+  if (
+    nextUnitId === current.unitId &&
+    nextCheckIn.getTime() === current.checkIn.getTime() &&
+    nextCheckOut.getTime() === current.checkOut.getTime()
+  ) {
+    throw new AppError("Booking is already on this unit and dates", 400, "VALIDATION_ERROR");
+  }
+
+  const unit = await db.raw.unit.findFirst({
+    where: { id: nextUnitId, tenantId, ...scopedUnitWhere(propertyScope) },
+    select: PRICING_UNIT_SELECT,
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+
+  await assertUnitAvailable(db.raw, {
+    tenantId,
+    unitId: nextUnitId,
+    checkIn: nextCheckIn,
+    checkOut: nextCheckOut,
+    excludeBookingId: bookingId,
+  });
+
+  const datesChanged =
+    nextCheckIn.getTime() !== current.checkIn.getTime() || nextCheckOut.getTime() !== current.checkOut.getTime();
+  const shouldReprice = toBoolean(reprice);
+  const nextNights = countNights(nextCheckIn, nextCheckOut);
+  if (!shouldReprice && nextNights !== countNights(current.checkIn, current.checkOut)) {
+    throw new AppError("reprice is required when the number of nights changes", 400, "REPRICE_REQUIRED");
+  }
+
+  // Extension nights are billed through their own EXTRA charge, so only the nights that make up
+  // totalAmount are repriced; the extension stays at the tail of the stay.
+  let pricedCheckOut = nextCheckOut;
+  if (shouldReprice) {
+    const extensionNights = await db.raw.bookingNight.count({
+      where: { tenantId, bookingId, chargeId: { not: null } },
+    });
+    if (extensionNights > 0 && extensionNights < nextNights) {
+      pricedCheckOut = new Date(nextCheckOut);
+      pricedCheckOut.setDate(pricedCheckOut.getDate() - extensionNights);
+    }
+  }
+
+  const quote = datesChanged || shouldReprice ? await quoteStay(db.raw, tenantId, unit, nextCheckIn, pricedCheckOut) : null;
+  if (quote && datesChanged) assertMinimumStay(quote);
+
+  let nextTotalAmount: string | null = current.totalAmount ? String(current.totalAmount) : null;
+  if (quote && shouldReprice) {
+    if (quote.rateMissing) {
+      throw new AppError("Target unit base rate is not set; cannot reprice", 400, "UNIT_BASE_RATE_MISSING");
+    }
+    nextTotalAmount = quote.total.toFixed(2);
+  }
+
+  const moved = await db.raw.$transaction(async (tx) => {
+    const booking = await tx.booking.update({
+      where: { id: bookingId },
+      data: {
+        unitId: nextUnitId,
+        checkIn: nextCheckIn,
+        checkOut: nextCheckOut,
+        totalAmount: nextTotalAmount,
+        // A room picked by hand is assigned, and the stay is now sold as that room's category.
+        ...(nextUnitId !== current.unitId ? { categoryId: unit.categoryId ?? null, unitAssigned: true } : {}),
+      },
+      include: {
+        guest: { select: { id: true, fullName: true, email: true, phone: true } },
+        unit: { select: { id: true, name: true, property: { select: { id: true, name: true } } } },
+      },
+    });
+
+    if (nextTotalAmount && shouldReprice) {
+      await tx.bookingCharge.updateMany({
+        where: { bookingId, tenantId, status: "OPEN", type: "ROOM" },
+        data: { amount: nextTotalAmount },
+      });
+    }
+
+    if (quote && shouldReprice) {
+      await replaceBookingNights(tx, tenantId, bookingId, quote);
+    } else if (datesChanged) {
+      await replaceBookingNights(tx, tenantId, bookingId, null);
+    }
+
+    return booking;
+  });
+
+  logger.info(
+    {
+      event: "audit.booking_moved",
+      requestId: req.requestId,
+      tenantId,
+      bookingId,
+      from: { unitId: current.unitId, checkIn: current.checkIn, checkOut: current.checkOut },
+      to: { unitId: nextUnitId, checkIn: nextCheckIn, checkOut: nextCheckOut },
+      repriced: shouldReprice,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit booking moved"
+  );
+
+  res.json({ booking: withGuestPhotoUrl(moved as any) });
+});
+
+/**
+ * POST /api/bookings/:id/cancel
+ * Body: { reason?, waiveFee?, refundApproved?, refundAmount? }
+ * Keeps the booking as CANCELLED, voids its room charges and applies the tenant cancellation policy:
+ * any fee is posted as a PENALTY charge and payments above what is still owed become refundable credit.
+ */
+export const cancelBooking = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = req.user;
+  const propertyScope = await resolvePropertyScope(req);
+  const bookingId = normalizeOptionalString(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+  if (!bookingId) throw new AppError("booking id is required", 400, "VALIDATION_ERROR");
+
+  const { reason, waiveFee, refundApproved, refundAmount } = req.body ?? {};
+  const cancellationReason = normalizeOptionalString(reason);
+  const shouldWaiveFee = toBoolean(waiveFee);
+  const shouldApproveRefund = toBoolean(refundApproved);
+  if (shouldWaiveFee && !hasPermission(req, "charges.void")) {
+    throw new AppError("You are not allowed to waive cancellation fees", 403, "FORBIDDEN", {
+      missingPermissions: ["charges.void"],
+    });
+  }
+  if (shouldApproveRefund && !hasPermission(req, "refunds.approve")) {
+    throw new AppError("You are not allowed to approve refunds", 403, "FORBIDDEN", {
+      missingPermissions: ["refunds.approve"],
+    });
+  }
+  const parsedRefundAmount = Number(refundAmount ?? 0);
+  const requestedRefund = Number.isFinite(parsedRefundAmount) && parsedRefundAmount > 0 ? parsedRefundAmount : 0;
+
+  const booking = await db.raw.booking.findFirst({
+    where: { id: bookingId, tenantId, ...scopedBookingWhere(propertyScope) },
+    select: {
+      id: true,
+      status: true,
+      checkIn: true,
+      checkOut: true,
+      totalAmount: true,
+      currency: true,
+      guestName: true,
+      guestEmail: true,
+      unit: { select: { name: true, property: { select: { name: true } } } },
+      charges: { where: { status: "OPEN" }, select: { id: true, type: true, amount: true } },
+      payments: { where: { status: "CONFIRMED" }, select: { amount: true } },
+      nights: { where: { chargeId: null }, orderBy: { date: "asc" }, take: 1, select: { amount: true } },
+    },
+  });
+  if (!booking) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
+  assertTransition(booking.status, "CANCELLED");
+
+  const currency = booking.currency ?? "NGN";
+  const now = new Date();
+  const roomCharges = booking.charges.filter((c) => c.type === "ROOM");
+  const otherCharges = booking.charges.filter((c) => c.type !== "ROOM");
+  const roomTotal = computeTotalBillFromBaseAndCharges(
+    Number(booking.totalAmount?.toString?.() ?? booking.totalAmount ?? 0),
+    roomCharges
+  );
+  const firstNightAmount = booking.nights[0]
+    ? Number(booking.nights[0].amount.toString())
+    : roomTotal / countNights(booking.checkIn, booking.checkOut);
+
+  const policy = await loadCancellationPolicy(db.raw, tenantId);
+  const computed = computeCancellationFee({ policy, checkIn: booking.checkIn, now, roomTotal, firstNightAmount });
+  const fee = shouldWaiveFee ? 0 : computed.fee;
+
+  // Non-room charges stay on the bill; the room itself is no longer owed beyond the fee.
+  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
+  const stillOwed = fee + otherTotal;
+  const paidTotal = booking.payments.reduce((sum, p) => sum + Number(p.amount?.toString?.() ?? p.amount ?? 0), 0);
+  const refundableCredit = Math.max(0, paidTotal - stillOwed);
+  const balanceDue = Math.max(0, stillOwed - paidTotal);
+  const approvedRefund = shouldApproveRefund ? Math.min(requestedRefund || refundableCredit, refundableCredit) : 0;
+
+  const paymentStatus: "UNPAID" | "PARTPAID" | "PAID" =
+    paidTotal <= 0 ? "UNPAID" : balanceDue > 0.009 ? "PARTPAID" : "PAID";
+
+  const penaltyCharge = await db.raw.$transaction(async (tx) => {
+    if (roomCharges.length > 0) {
+      await tx.bookingCharge.updateMany({
+        where: { tenantId, bookingId, status: "OPEN", type: "ROOM" },
+        data: { status: "VOID" },
+      });
+    }
+
+    const penalty =
+      fee > 0
+        ? await tx.bookingCharge.create({
+            data: {
+              tenantId,
+              bookingId,
+              type: "PENALTY",
+              title: "Cancellation fee",
+              amount: fee.toFixed(2),
+              currency,
+              status: "OPEN",
+            },
+          })
+        : null;
+
+    await transitionBooking(
+      tx,
+      {
+        tenantId,
+        bookingId,
+        from: booking.status,
+        to: "CANCELLED",
+        source: "bookings.cancel",
+        reason: cancellationReason,
+        actorUserId: user?.userId ?? null,
+        data: {
+          paymentStatus,
+          cancelledAt: now,
+          cancelledByUserId: user?.userId ?? null,
+          cancellationReason,
+          refundPolicy: shouldWaiveFee ? "Cancellation fee waived" : computed.label,
+          refundEligibleAmount: refundableCredit > 0 ? refundableCredit.toFixed(2) : null,
+          refundApproved: approvedRefund > 0,
+          refundAmount: approvedRefund > 0 ? approvedRefund.toFixed(2) : null,
+          refundStatus: approvedRefund > 0 ? "PENDING" : "NOT_APPROVED",
+          refundReason: cancellationReason,
+        },
+      },
+      now
+    );
+
+    return penalty;
+  });
+
+  const cancellation = {
+    policy,
+    hoursBeforeArrival: computed.hoursBeforeArrival,
+    withinFreeWindow: computed.withinFreeWindow,
+    feeWaived: shouldWaiveFee && computed.fee > 0,
+    fee: fee.toFixed(2),
+    penaltyChargeId: penaltyCharge?.id ?? null,
+    paidTotal: paidTotal.toFixed(2),
+    refundableCredit: refundableCredit.toFixed(2),
+    refundApproved: approvedRefund.toFixed(2),
+    balanceDue: balanceDue.toFixed(2),
+    currency,
+  };
+
+  logger.info(
+    {
+      event: "audit.booking_cancelled",
+      requestId: req.requestId,
+      tenantId,
+      bookingId,
+      fromStatus: booking.status,
+      reason: cancellationReason,
+      cancellation,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit booking cancelled"
+  );
+
+  if (booking.guestEmail) {
+    const tenantMeta = await db.raw.tenant.findUnique({
+      where: { id: tenantId },
+      select: { name: true, phone: true },
+    });
+    sendGuestCancellationEmail({
+      to: String(booking.guestEmail),
+      guestName: booking.guestName ?? null,
+      bookingId,
+      tenantName: tenantMeta?.name ?? null,
+      tenantPhone: tenantMeta?.phone ?? null,
+      propertyName: booking.unit?.property?.name ?? null,
+      unitName: booking.unit?.name ?? null,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      cancellationFee: cancellation.fee,
+      refundableCredit: cancellation.refundableCredit,
+      policyLabel: shouldWaiveFee ? null : computed.label,
+    }).catch((err) => {
+      logger.warn(
+        { event: "notify.cancellation_email_failed", tenantId, bookingId, error: String(err) },
+        "Failed to send cancellation email"
+      );
+    });
+  }
+
+  const updated = await db.raw.booking.findFirst({
+    where: { id: bookingId, tenantId },
+    include: { unit: { select: { id: true, name: true, property: { select: { name: true } } } } },
+  });
+
+  res.json({ booking: withGuestPhotoUrl(updated as any), cancellation });
+});
+
 export const deleteBooking = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
   const db = prismaForTenant(tenantId);
@@ -1343,7 +1789,7 @@ export const deleteBooking = asyncHandler(async (req: Request, res: Response) =>
     where: { tenantId, bookingId, status: "CONFIRMED" },
   });
   if (confirmedCount > 0) {
-    throw new AppError("Cannot delete booking with confirmed payments", 400, "CONFIRMED_PAYMENT_EXISTS");
+    throw new AppError("Cannot delete booking with confirmed payments; cancel it instead", 400, "CONFIRMED_PAYMENT_EXISTS");
   }
 
   await db.raw.$transaction(async (tx) => {
@@ -1356,3 +1802,50 @@ export const deleteBooking = asyncHandler(async (req: Request, res: Response) =>
 
   res.json({ ok: true });
 });
+
+/**
+ * GET /api/bookings/:id/history
+ * Stay-status changes, oldest first, with the user who made each one.
+ */
+export const getBookingHistory = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+  const bookingId = normalizeOptionalString(Array.isArray(req.params.id) ? req.params.id[0] : req.params.id);
+  if (!bookingId) throw new AppError("booking id is required", 400, "VALIDATION_ERROR");
+
+  const booking = await db.raw.booking.findFirst({
+    where: { id: bookingId, tenantId, ...scopedBookingWhere(propertyScope) },
+    select: { id: true, status: true },
+  });
+  if (!booking) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
+
+  const history = await db.raw.bookingStatusHistory.findMany({
+    where: { tenantId, bookingId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const actorIds = Array.from(new Set(history.map((h) => h.actorUserId).filter((id): id is string => !!id)));
+  const actors = actorIds.length
+    ? await db.raw.user.findMany({
+        where: { tenantId, id: { in: actorIds } },
+        select: { id: true, fullName: true, email: true },
+      })
+    : [];
+  const actorById = new Map(actors.map((a) => [a.id, a]));
+
+  res.json({
+    bookingId: booking.id,
+    status: booking.status,
+    allowedNext: BOOKING_TRANSITIONS[booking.status],
+    history: history.map((h) => ({
+      id: h.id,
+      fromStatus: h.fromStatus,
+      toStatus: h.toStatus,
+      source: h.source,
+      reason: h.reason,
+      actor: h.actorUserId ? actorById.get(h.actorUserId) ?? { id: h.actorUserId, fullName: null, email: null } : null,
+      createdAt: h.createdAt,
+    })),
+  });
+});
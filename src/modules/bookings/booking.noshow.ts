@@ -0,0 +1,219 @@
+// src/modules/bookings/booking.noshow.ts
+import { Prisma } from "@prisma/client";
+import type { PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { sendAdminNoShowReportEmail } from "../../common/notifications/email";
+import { countNights, replaceBookingNights } from "./booking.pricing";
+import { noShowPolicyFromSettings, policyFeeAmount } from "./booking.cancellation";
+import type { NoShowPolicy } from "./booking.cancellation";
+import { transitionBooking } from "./booking.state";
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Arrivals older than this (past the cutoff) are left to the desk, so switching the policy on never sweeps up old history. */
+const NO_SHOW_LOOKBACK_HOURS = 7 * 24;
+/** Lost or exhausted database connections; every later booking would fail the same way. */
+const SYSTEMIC_PRISMA_CODES = new Set(["P1001", "P1002", "P1008", "P1017", "P2024"]);
+
+export type NoShowRunOptions = {
+  now?: Date;
+  tenantId?: string;
+  /** Report what would change without writing anything or sending email. */
+  dryRun?: boolean;
+};
+
+export type NoShowResult = {
+  tenantId: string;
+  tenantName: string;
+  policy: NoShowPolicy;
+  marked: Array<{ bookingId: string; fee: string }>;
+  skipped: Array<{ bookingId: string; reason: string }>;
+};
+
+function isSystemicError(err: unknown) {
+  return (
+    err instanceof Prisma.PrismaClientInitializationError ||
+    err instanceof Prisma.PrismaClientRustPanicError ||
+    SYSTEMIC_PRISMA_CODES.has((err as any)?.code)
+  );
+}
+
+function toNumber(value: unknown) {
+  const n = Number((value as any)?.toString?.() ?? value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Marks PENDING/CONFIRMED bookings that were not checked in by the tenant cutoff as NO_SHOW.
+ * Each booking gets its room charges voided and the no-show fee posted as a PENALTY charge, and its
+ * nightly rows cleared; NO_SHOW is not an active status, so the unit opens up for the rest of the stay.
+ * Admins of each tenant get one summary email. Tenants without a cutoff are skipped. A booking that
+ * fails is reported in `skipped`; only database connection failures end the run.
+ */
+export async function processNoShows(prisma: PrismaClient, options: NoShowRunOptions = {}) {
+  const now = options.now ?? new Date();
+  const results: NoShowResult[] = [];
+
+  const tenants = await prisma.tenant.findMany({
+    where: { status: "ACTIVE", ...(options.tenantId ? { id: options.tenantId } : {}) },
+    select: {
+      id: true,
+      name: true,
+      settings: { select: { noShowCutoffHours: true, noShowFeeType: true, noShowFeePercent: true } },
+    },
+  });
+
+  for (const tenant of tenants) {
+    const policy = noShowPolicyFromSettings(tenant.settings);
+    if (policy.cutoffHours === null) continue;
+
+    const result: NoShowResult = { tenantId: tenant.id, tenantName: tenant.name, policy, marked: [], skipped: [] };
+    const cutoff = new Date(now.getTime() - policy.cutoffHours * HOUR_MS);
+
+    const candidates = await prisma.booking.findMany({
+      where: {
+        tenantId: tenant.id,
+        status: { in: ["PENDING", "CONFIRMED"] },
+        checkedInAt: null,
+        checkIn: { gt: new Date(cutoff.getTime() - NO_SHOW_LOOKBACK_HOURS * HOUR_MS), lte: cutoff },
+      },
+      orderBy: { checkIn: "asc" },
+      select: {
+        id: true,
+        status: true,
+        checkIn: true,
+        checkOut: true,
+        totalAmount: true,
+        currency: true,
+        guestName: true,
+        unit: { select: { name: true, property: { select: { name: true } } } },
+        charges: { where: { status: "OPEN" }, select: { type: true, amount: true } },
+        payments: { where: { status: "CONFIRMED" }, select: { amount: true } },
+        nights: { where: { chargeId: null }, orderBy: { date: "asc" }, take: 1, select: { amount: true } },
+      },
+    });
+
+    const report: Parameters<typeof sendAdminNoShowReportEmail>[0]["bookings"] = [];
+
+    for (const booking of candidates) {
+      const roomCharges = booking.charges.filter((c) => c.type === "ROOM");
+      const roomChargeTotal = roomCharges.reduce((sum, c) => sum + toNumber(c.amount), 0);
+      const base = toNumber(booking.totalAmount);
+      const roomTotal = roomCharges.length > 0 ? Math.max(roomChargeTotal, base) : base;
+      const firstNight = booking.nights[0]
+        ? toNumber(booking.nights[0].amount)
+        : roomTotal / countNights(booking.checkIn, booking.checkOut);
+      const fee = policyFeeAmount(policy, roomTotal, firstNight);
+
+      const otherTotal = booking.charges
+        .filter((c) => c.type !== "ROOM")
+        .reduce((sum, c) => sum + toNumber(c.amount), 0);
+      const paid = booking.payments.reduce((sum, p) => sum + toNumber(p.amount), 0);
+      const owed = fee + otherTotal;
+      const credit = Math.max(0, paid - owed);
+      const paymentStatus: "UNPAID" | "PARTPAID" | "PAID" =
+        paid <= 0 ? "UNPAID" : owed - paid > 0.009 ? "PARTPAID" : "PAID";
+
+      if (options.dryRun) {
+        result.marked.push({ bookingId: booking.id, fee: fee.toFixed(2) });
+        continue;
+      }
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          await transitionBooking(
+            tx,
+            {
+              tenantId: tenant.id,
+              bookingId: booking.id,
+              from: booking.status,
+              to: "NO_SHOW",
+              source: "jobs.no_show",
+              reason: `Not checked in within ${policy.cutoffHours}h of arrival`,
+              actorUserId: null,
+              data: {
+                paymentStatus,
+                refundPolicy: `No-show: ${policy.feeType === "PERCENT" ? `${policy.feePercent}% of room total` : "first night"}`,
+                refundEligibleAmount: credit > 0 ? credit.toFixed(2) : null,
+                refundStatus: "NOT_APPROVED",
+              },
+            },
+            now
+          );
+
+          await tx.bookingCharge.updateMany({
+            where: { tenantId: tenant.id, bookingId: booking.id, status: "OPEN", type: "ROOM" },
+            data: { status: "VOID" },
+          });
+          if (fee > 0) {
+            await tx.bookingCharge.create({
+              data: {
+                tenantId: tenant.id,
+                bookingId: booking.id,
+                type: "PENALTY",
+                title: "No-show fee",
+                amount: fee.toFixed(2),
+                currency: booking.currency ?? "NGN",
+                status: "OPEN",
+              },
+            });
+          }
+          await replaceBookingNights(tx, tenant.id, booking.id, null);
+        });
+      } catch (err) {
+        // The desk checked the guest in (or cancelled) between our read and the update.
+        if (err instanceof AppError && err.code === "BOOKING_STATE_CONFLICT") {
+          result.skipped.push({ bookingId: booking.id, reason: "Status changed during run" });
+          continue;
+        }
+        if (isSystemicError(err)) throw err;
+        // One bad booking must not stop the run or the admin report for the rest.
+        logger.error(
+          { event: "jobs.no_show.booking_failed", tenantId: tenant.id, bookingId: booking.id, err },
+          "No-show processing failed for booking"
+        );
+        result.skipped.push({
+          bookingId: booking.id,
+          reason: `Failed: ${err instanceof Error ? err.message : String(err)}`,
+        });
+        continue;
+      }
+
+      result.marked.push({ bookingId: booking.id, fee: fee.toFixed(2) });
+      report.push({
+        bookingId: booking.id,
+        guestName: booking.guestName,
+        propertyName: booking.unit?.property?.name ?? null,
+        unitName: booking.unit?.name ?? null,
+        checkIn: booking.checkIn,
+        fee: fee.toFixed(2),
+      });
+    }
+
+    if (report.length > 0) {
+      logger.info(
+        { event: "audit.bookings_no_show", tenantId: tenant.id, bookingIds: report.map((r) => r.bookingId) },
+        "Audit bookings marked no-show"
+      );
+
+      const admins = await prisma.user.findMany({
+        where: { tenantId: tenant.id, role: "ADMIN", status: "ACTIVE" },
+        select: { email: true },
+      });
+      for (const admin of admins) {
+        const to = String(admin.email || "").trim();
+        if (!to) continue;
+        await sendAdminNoShowReportEmail({ to, tenantName: tenant.name, bookings: report }).catch((err) => {
+          logger.warn(
+            { event: "notify.no_show_admin_email_failed", tenantId: tenant.id, adminEmail: to, error: String(err) },
+            "Failed to send no-show report email"
+          );
+        });
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
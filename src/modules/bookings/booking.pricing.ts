@@ -0,0 +1,447 @@
+// src/modules/bookings/booking.pricing.ts
+import type { Prisma, PrismaClient, UnitType } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+
+/**
+ * Stay pricing shared by bookings, stay extensions, pre-booking conversion and availability.
+ *
+ * Each night is priced from, in order:
+ *   1. a UnitRateOverride with a price for that unit and date
+ *   2. the best matching active RatePlan (highest priority, then the most specific scope)
+ *   3. the unit's basePrice, falling back to its room category's basePrice
+ * The unit's promo discount window applies to plan and base rates; overrides are taken as-is.
+ * The minimum stay is read from the arrival night (override first, then the winning plan).
+ *
+ * Priced nights are stored per booking (BookingNight) so bills, extensions and payment
+ * confirmation read the same figures the quote produced.
+ */
+
+type PricingClient = PrismaClient | Prisma.TransactionClient;
+type DecimalLike = Prisma.Decimal | number | string | null;
+
+/** Unit fields the engine needs; spread into a Prisma `select`. */
+export const PRICING_UNIT_SELECT = {
+  id: true,
+  propertyId: true,
+  type: true,
+  basePrice: true,
+  discountType: true,
+  discountValue: true,
+  discountStart: true,
+  discountEnd: true,
+  categoryId: true,
+  category: { select: { basePrice: true } },
+} as const;
+
+export type PricingUnit = {
+  id: string;
+  propertyId: string;
+  type: UnitType;
+  basePrice: DecimalLike;
+  discountType: string | null;
+  discountValue: DecimalLike;
+  discountStart: Date | null;
+  discountEnd: Date | null;
+  categoryId?: string | null;
+  category?: { basePrice: DecimalLike } | null;
+};
+
+type RatePlanRule = {
+  id: string;
+  unitId: string | null;
+  propertyId: string | null;
+  unitType: UnitType | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  weekdayPrice: DecimalLike;
+  weekendPrice: DecimalLike;
+  minStayNights: number | null;
+  priority: number;
+};
+
+type OverrideRule = {
+  unitId: string;
+  date: Date;
+  price: DecimalLike;
+  minStayNights: number | null;
+};
+
+export type PricingRules = {
+  plans: RatePlanRule[];
+  overrides: Map<string, OverrideRule>;
+};
+
+export type NightlyRate = {
+  date: string;
+  base: number;
+  discount: number;
+  final: number;
+  source: "OVERRIDE" | "RATE_PLAN" | "UNIT";
+  ratePlanId: string | null;
+};
+
+export type StayQuote = {
+  nights: NightlyRate[];
+  total: number;
+  minStayNights: number;
+  /** Some night has no rate at all (no override, plan or unit base price). */
+  rateMissing: boolean;
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function startOfDay(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+function addDays(d: Date, days: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + days);
+  return x;
+}
+
+function ymd(d: Date) {
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+// Override dates are Postgres DATE columns, which Prisma returns as UTC midnight.
+function utcYmd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function toAmount(value: DecimalLike) {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function round2(n: number) {
+  return Number(n.toFixed(2));
+}
+
+function isWeekendNight(day: Date) {
+  const dow = day.getDay();
+  return dow === 5 || dow === 6;
+}
+
+function scopeRank(plan: RatePlanRule) {
+  if (plan.unitId) return 3;
+  if (plan.propertyId && plan.unitType) return 2;
+  if (plan.propertyId || plan.unitType) return 1;
+  return 0;
+}
+
+function planMatches(plan: RatePlanRule, unit: PricingUnit, day: Date) {
+  if (plan.unitId && plan.unitId !== unit.id) return false;
+  if (!plan.unitId) {
+    if (plan.propertyId && plan.propertyId !== unit.propertyId) return false;
+    if (plan.unitType && plan.unitType !== unit.type) return false;
+  }
+  const t = day.getTime();
+  if (plan.startDate && t < startOfDay(plan.startDate).getTime()) return false;
+  if (plan.endDate && t > startOfDay(plan.endDate).getTime()) return false;
+  return true;
+}
+
+function applyUnitDiscount(unit: PricingUnit, day: Date, base: number) {
+  if (base <= 0) return base;
+  if (!unit.discountType || !unit.discountValue || !unit.discountStart || !unit.discountEnd) return base;
+
+  const d = startOfDay(day).getTime();
+  const s = startOfDay(new Date(unit.discountStart)).getTime();
+  const e = startOfDay(new Date(unit.discountEnd)).getTime();
+  if (d < s || d > e) return base;
+
+  const discountValue = toAmount(unit.discountValue);
+  if (discountValue <= 0) return base;
+
+  if (unit.discountType === "PERCENT") {
+    const pct = Math.min(100, discountValue);
+    return Math.max(0, base * (1 - pct / 100));
+  }
+  if (unit.discountType === "FIXED_PRICE") {
+    return Math.max(0, discountValue);
+  }
+  return base;
+}
+
+export function countNights(checkIn: Date, checkOut: Date) {
+  const s = startOfDay(checkIn);
+  const e = startOfDay(checkOut);
+  return Math.max(1, Math.ceil((e.getTime() - s.getTime()) / DAY_MS));
+}
+
+/**
+ * Loads the plans and overrides that can affect `units` between checkIn and checkOut,
+ * so a batch of units (availability search) is priced with two queries.
+ */
+export async function loadPricingRules(
+  db: PricingClient,
+  tenantId: string,
+  units: Array<Pick<PricingUnit, "id" | "propertyId">>,
+  checkIn: Date,
+  checkOut: Date
+): Promise<PricingRules> {
+  if (units.length === 0) return { plans: [], overrides: new Map() };
+
+  const unitIds = units.map((u) => u.id);
+  const propertyIds = Array.from(new Set(units.map((u) => u.propertyId)));
+  const from = startOfDay(checkIn);
+  const to = startOfDay(checkOut);
+
+  const [plans, overrides] = await Promise.all([
+    db.ratePlan.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        AND: [
+          {
+            OR: [
+              { unitId: { in: unitIds } },
+              { unitId: null, propertyId: null },
+              { unitId: null, propertyId: { in: propertyIds } },
+            ],
+          },
+          { OR: [{ startDate: null }, { startDate: { lt: addDays(to, 1) } }] },
+          { OR: [{ endDate: null }, { endDate: { gte: addDays(from, -1) } }] },
+        ],
+      },
+      select: {
+        id: true,
+        unitId: true,
+        propertyId: true,
+        unitType: true,
+        startDate: true,
+        endDate: true,
+        weekdayPrice: true,
+        weekendPrice: true,
+        minStayNights: true,
+        priority: true,
+      },
+    }),
+    db.unitRateOverride.findMany({
+      where: {
+        tenantId,
+        unitId: { in: unitIds },
+        date: { gte: addDays(from, -1), lte: addDays(to, 1) },
+      },
+      select: { unitId: true, date: true, price: true, minStayNights: true },
+    }),
+  ]);
+
+  plans.sort((a, b) => b.priority - a.priority || scopeRank(b) - scopeRank(a));
+
+  const overrideMap = new Map<string, OverrideRule>();
+  for (const o of overrides) overrideMap.set(`${o.unitId}:${utcYmd(o.date)}`, o);
+
+  return { plans, overrides: overrideMap };
+}
+
+/**
+ * Prices every night of [checkIn, checkOut) for one unit using preloaded rules.
+ */
+export function priceStay(unit: PricingUnit, checkIn: Date, checkOut: Date, rules: PricingRules): StayQuote {
+  const start = startOfDay(checkIn);
+  const count = countNights(checkIn, checkOut);
+  const unitBase = toAmount(unit.basePrice) || toAmount(unit.category?.basePrice ?? null);
+
+  const nights: NightlyRate[] = [];
+  let minStayNights = 0;
+
+  for (let i = 0; i < count; i += 1) {
+    const day = addDays(start, i);
+    const date = ymd(day);
+    const override = rules.overrides.get(`${unit.id}:${date}`);
+    const plan = rules.plans.find((p) => planMatches(p, unit, day));
+
+    if (i === 0) {
+      minStayNights = override?.minStayNights ?? plan?.minStayNights ?? 0;
+    }
+
+    const overridePrice = override ? toAmount(override.price) : 0;
+    if (overridePrice > 0) {
+      nights.push({ date, base: overridePrice, discount: 0, final: overridePrice, source: "OVERRIDE", ratePlanId: null });
+      continue;
+    }
+
+    let base = unitBase;
+    let source: NightlyRate["source"] = "UNIT";
+    if (plan) {
+      const planPrice = isWeekendNight(day) ? toAmount(plan.weekendPrice) || toAmount(plan.weekdayPrice) : toAmount(plan.weekdayPrice);
+      if (planPrice > 0) {
+        base = planPrice;
+        source = "RATE_PLAN";
+      }
+    }
+
+    const final = round2(applyUnitDiscount(unit, day, base));
+    nights.push({
+      date,
+      base: round2(base),
+      discount: round2(base - final),
+      final,
+      source,
+      ratePlanId: source === "RATE_PLAN" ? plan!.id : null,
+    });
+  }
+
+  const total = round2(nights.reduce((sum, n) => sum + n.final, 0));
+  return {
+    nights,
+    total,
+    minStayNights,
+    rateMissing: nights.some((n) => n.base <= 0),
+  };
+}
+
+/**
+ * Loads rules for a single unit and prices the stay.
+ */
+export async function quoteStay(
+  db: PricingClient,
+  tenantId: string,
+  unit: PricingUnit,
+  checkIn: Date,
+  checkOut: Date
+) {
+  const rules = await loadPricingRules(db, tenantId, [unit], checkIn, checkOut);
+  return priceStay(unit, checkIn, checkOut, rules);
+}
+
+export function assertMinimumStay(quote: StayQuote) {
+  if (quote.minStayNights > quote.nights.length) {
+    throw new AppError(
+      `Minimum stay for the selected arrival date is ${quote.minStayNights} nights`,
+      400,
+      "MIN_STAY_NOT_MET",
+      { minStayNights: quote.minStayNights, nights: quote.nights.length }
+    );
+  }
+}
+
+function nightRows(tenantId: string, bookingId: string, quote: StayQuote, chargeId: string | null) {
+  return quote.nights.map((n) => ({
+    tenantId,
+    bookingId,
+    chargeId,
+    date: new Date(`${n.date}T00:00:00.000Z`),
+    baseAmount: n.base.toFixed(2),
+    discountAmount: n.discount.toFixed(2),
+    amount: n.final.toFixed(2),
+    source: n.source,
+    ratePlanId: n.ratePlanId,
+  }));
+}
+
+/**
+ * Replaces the nights that make up Booking.totalAmount. Pass null when the booking is no
+ * longer engine-priced (manual total, or dates changed without repricing). Extension nights stay.
+ */
+export async function replaceBookingNights(
+  db: PricingClient,
+  tenantId: string,
+  bookingId: string,
+  quote: StayQuote | null
+) {
+  await db.bookingNight.deleteMany({ where: { tenantId, bookingId, chargeId: null } });
+  if (!quote || quote.rateMissing) return;
+  await db.bookingNight.createMany({ data: nightRows(tenantId, bookingId, quote, null), skipDuplicates: true });
+}
+
+/**
+ * Records nights billed through a separate charge (stay extension).
+ */
+export async function appendBookingNights(
+  db: PricingClient,
+  tenantId: string,
+  bookingId: string,
+  quote: StayQuote,
+  chargeId: string
+) {
+  if (quote.rateMissing) return;
+  await db.bookingNight.createMany({ data: nightRows(tenantId, bookingId, quote, chargeId), skipDuplicates: true });
+}
+
+/** Stored BookingNight rows in the same shape as StayQuote.nights. */
+export function toNightlyRates(
+  rows: Array<{
+    date: Date;
+    baseAmount: DecimalLike;
+    discountAmount: DecimalLike;
+    amount: DecimalLike;
+    source: NightlyRate["source"];
+    ratePlanId: string | null;
+    chargeId?: string | null;
+  }>
+) {
+  return rows.map((r) => ({
+    date: utcYmd(r.date),
+    base: Number(r.baseAmount ?? 0),
+    discount: Number(r.discountAmount ?? 0),
+    final: Number(r.amount ?? 0),
+    source: r.source,
+    ratePlanId: r.ratePlanId,
+    chargeId: r.chargeId ?? null,
+  }));
+}
+
+export type TenantPricingSettings = {
+  serviceChargePercent: DecimalLike;
+  taxPercent: DecimalLike;
+  minDepositPercent: number;
+};
+
+/**
+ * Totals on top of a stay quote. Service charge (on the room total) and tax (on room + service
+ * charge) are reported at the tenant's rates, but bookings only bill the room total, so
+ * billedTotal and the TenantSettings.minDepositPercent deposit are both worked out on that.
+ * Missing settings mean no fees and a full deposit, matching the TenantSettings defaults.
+ */
+export function summarizeQuote(quote: StayQuote, settings: TenantPricingSettings | null) {
+  const roomSubtotal = round2(quote.nights.reduce((sum, n) => sum + n.base, 0));
+  const discountTotal = round2(quote.nights.reduce((sum, n) => sum + n.discount, 0));
+  const roomTotal = quote.total;
+
+  const serviceChargePercent = toAmount(settings?.serviceChargePercent ?? 0);
+  const taxPercent = toAmount(settings?.taxPercent ?? 0);
+  const serviceCharge = round2((roomTotal * serviceChargePercent) / 100);
+  const tax = round2(((roomTotal + serviceCharge) * taxPercent) / 100);
+
+  const depositPercent = Math.max(0, Math.min(100, settings?.minDepositPercent ?? 100));
+
+  return {
+    roomSubtotal,
+    discountTotal,
+    roomTotal,
+    serviceCharge: { percent: serviceChargePercent, amount: serviceCharge, billed: false },
+    tax: { percent: taxPercent, amount: tax, billed: false },
+    billedTotal: roomTotal,
+    deposit: { percent: depositPercent, amount: round2((roomTotal * depositPercent) / 100) },
+  };
+}
+
+/**
+ * What a booking bills: its ROOM charges (or totalAmount when those are missing or undercut it by
+ * legacy data) plus every other charge.
+ */
+export function computeTotalBillFromBaseAndCharges(
+  baseAmount: number,
+  charges: Array<{ amount: any; type?: string | null }> | null | undefined
+) {
+  const list = charges ?? [];
+  const base = Math.max(0, Number(baseAmount || 0));
+
+  const roomCharges = list.filter((c) => String(c.type || "").toUpperCase() === "ROOM");
+  const otherCharges = list.filter((c) => String(c.type || "").toUpperCase() !== "ROOM");
+
+  const roomTotal = roomCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
+  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
+
+  // If ROOM charge exists, use it unless legacy data undercut booking total.
+  const roomComponent = roomCharges.length > 0 ? Math.max(roomTotal, base) : base;
+
+  return Math.max(0, roomComponent + otherTotal);
+}
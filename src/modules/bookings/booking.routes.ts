@@ -4,6 +4,7 @@ import { Router } from "express";
 import {
   confirmGuestPhotoUpload,
   createBooking,
+  quoteBooking,
   deleteBooking,
   listBookings,
   arrivalsToday,
@@ -12,12 +13,15 @@ import {
   presignGuestPhotoUpload,
   checkInBooking,
   updateBooking,
+  moveBooking,
   uploadGuestPhoto,
   recordBookingPayment,
+  getBookingHistory,
+  cancelBooking,
 } from "./booking.controller";
 
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import { imageUpload } from "../../middleware/image.middleware";
 
 export const bookingRoutes = Router();
@@ -29,28 +33,56 @@ export const bookingRoutes = Router();
 bookingRoutes.post(
   "/bookings",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.create"),
   createBooking
 );
 
+bookingRoutes.post(
+  "/bookings/quote",
+  requireAuth,
+  requirePermission("bookings.view"),
+  quoteBooking
+);
+
 bookingRoutes.get(
   "/bookings",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   listBookings
 );
 
 bookingRoutes.patch(
   "/bookings/:id",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("bookings.update"),
   updateBooking
 );
 
+bookingRoutes.post(
+  "/bookings/:id/move",
+  requireAuth,
+  requirePermission("bookings.update"),
+  moveBooking
+);
+
+bookingRoutes.get(
+  "/bookings/:id/history",
+  requireAuth,
+  requirePermission("bookings.view"),
+  getBookingHistory
+);
+
+bookingRoutes.post(
+  "/bookings/:id/cancel",
+  requireAuth,
+  requirePermission("bookings.cancel"),
+  cancelBooking
+);
+
 bookingRoutes.delete(
   "/bookings/:id",
   requireAuth,
-  requireRole("ADMIN"),
+  requirePermission("bookings.delete"),
   deleteBooking
 );
 
@@ -61,21 +93,21 @@ bookingRoutes.delete(
 bookingRoutes.get(
   "/bookings/arrivals/today",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   arrivalsToday
 );
 
 bookingRoutes.get(
   "/bookings/arrivals/week",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   arrivalsWeek
 );
 
 bookingRoutes.get(
   "/bookings/inhouse",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   inHouse
 );
 
@@ -86,7 +118,7 @@ bookingRoutes.get(
 bookingRoutes.post(
   "/bookings/:id/check-in",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkin"),
   checkInBooking
 );
 
@@ -99,21 +131,21 @@ bookingRoutes.post(
 bookingRoutes.post(
   "/bookings/:id/guest-photo/presign",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkin"),
   presignGuestPhotoUpload
 );
 
 bookingRoutes.post(
   "/bookings/:id/guest-photo/confirm",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkin"),
   confirmGuestPhotoUpload
 );
 
 bookingRoutes.post(
   "/bookings/:id/guest-photo",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkin"),
   imageUpload({ maxSizeKb: 300 }).single("file"),
   uploadGuestPhoto
 );
@@ -125,7 +157,7 @@ bookingRoutes.post(
 bookingRoutes.post(
   "/bookings/:id/payments",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("payments.record"),
   recordBookingPayment
 );
 
@@ -0,0 +1,92 @@
+// src/modules/bookings/booking.state.ts
+import type { BookingStayStatus, Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Allowed stay-status moves. CHECKED_OUT, CANCELLED and NO_SHOW are terminal. */
+export const BOOKING_TRANSITIONS: Record<BookingStayStatus, readonly BookingStayStatus[]> = {
+  PENDING: ["CONFIRMED", "CANCELLED", "NO_SHOW"],
+  CONFIRMED: ["CHECKED_IN", "CANCELLED", "NO_SHOW"],
+  CHECKED_IN: ["CHECKED_OUT"],
+  CHECKED_OUT: [],
+  CANCELLED: [],
+  NO_SHOW: [],
+};
+
+export type TransitionContext = {
+  tenantId: string;
+  bookingId: string;
+  from: BookingStayStatus | null;
+  to: BookingStayStatus;
+  /** Which action made the change, e.g. "check.check_in". */
+  source: string;
+  reason?: string | null;
+  actorUserId?: string | null;
+};
+
+export function canTransition(from: BookingStayStatus, to: BookingStayStatus) {
+  return BOOKING_TRANSITIONS[from].includes(to);
+}
+
+/** Throws INVALID_BOOKING_STATE (409) when `to` is not reachable from `from`. */
+export function assertTransition(from: BookingStayStatus, to: BookingStayStatus) {
+  if (!canTransition(from, to)) {
+    throw new AppError(`Booking cannot move from ${from} to ${to}`, 409, "INVALID_BOOKING_STATE", {
+      from,
+      to,
+      allowed: BOOKING_TRANSITIONS[from],
+    });
+  }
+}
+
+/**
+ * Update data for a guarded transition: the new status plus the fields that always change with it
+ * (arrival and departure timestamps). Callers spread it into their own booking.update.
+ */
+export function transitionData(from: BookingStayStatus, to: BookingStayStatus, at = new Date()) {
+  assertTransition(from, to);
+  return {
+    status: to,
+    ...(to === "CHECKED_IN" ? { checkedInAt: at } : {}),
+    ...(to === "CHECKED_OUT" ? { checkedOutAt: at } : {}),
+  };
+}
+
+/** Appends a history row. No-op when the status did not actually change. */
+export async function recordStatusChange(db: Db, ctx: TransitionContext) {
+  if (ctx.from === ctx.to) return null;
+  return db.bookingStatusHistory.create({
+    data: {
+      tenantId: ctx.tenantId,
+      bookingId: ctx.bookingId,
+      fromStatus: ctx.from,
+      toStatus: ctx.to,
+      source: ctx.source,
+      reason: ctx.reason ?? null,
+      actorUserId: ctx.actorUserId ?? null,
+    },
+  });
+}
+
+/**
+ * Guarded transition for callers that do not need the updated row back. The update only applies
+ * while the booking is still in `from`, so two desks racing on the same booking cannot both win.
+ */
+export async function transitionBooking(
+  db: Db,
+  ctx: TransitionContext & { from: BookingStayStatus; data?: Prisma.BookingUpdateManyMutationInput },
+  at = new Date()
+) {
+  const { count } = await db.booking.updateMany({
+    where: { id: ctx.bookingId, tenantId: ctx.tenantId, status: ctx.from },
+    data: { ...(ctx.data ?? {}), ...transitionData(ctx.from, ctx.to, at) },
+  });
+  if (count === 0) {
+    throw new AppError("Booking status changed while this request was in progress", 409, "BOOKING_STATE_CONFLICT", {
+      bookingId: ctx.bookingId,
+      expected: ctx.from,
+    });
+  }
+  await recordStatusChange(db, ctx);
+}
@@ -11,6 +11,26 @@ import {
   sendGuestCheckOutEmail,
 } from "../../common/notifications/email";
 import { resolvePropertyScope, scopedBookingWhere } from "../../common/authz/property-scope";
+import { hasPermission } from "../../middleware/permission.middleware";
+import { assertUnitAvailable, assertUnitInService, assignRoomForCheckIn, findUnitBlock } from "../bookings/booking.availability";
+import {
+  PRICING_UNIT_SELECT,
+  appendBookingNights,
+  computeTotalBillFromBaseAndCharges,
+  countNights,
+  quoteStay,
+  toNightlyRates,
+} from "../bookings/booking.pricing";
+import { loadGroupFolio } from "../groups/group.folio";
+import { checkUnitReadyForCheckIn, markUnitDirtyAfterCheckout } from "../housekeeping/housekeeping.status";
+import {
+  WORK_ORDER_CATEGORIES,
+  WORK_ORDER_PRIORITIES,
+  createWorkOrder,
+  parseCost,
+  parseEnumValue,
+} from "../work-orders/work-order.service";
+import { assertTransition, recordStatusChange, transitionBooking, transitionData } from "../bookings/booking.state";
 
 function toOptionalString(value: unknown) {
   if (value === null || value === undefined) return null;
@@ -37,25 +57,6 @@ function toOptionalDate(value: unknown) {
   return d;
 }
 
-function computeTotalBillFromBaseAndCharges(
-  baseAmount: number,
-  charges: Array<{ amount: any; type?: string | null }> | null | undefined
-) {
-  const list = charges ?? [];
-  const base = Math.max(0, Number(baseAmount || 0));
-
-  const roomCharges = list.filter((c) => String(c.type || "").toUpperCase() === "ROOM");
-  const otherCharges = list.filter((c) => String(c.type || "").toUpperCase() !== "ROOM");
-
-  const roomTotal = roomCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-
-  // If ROOM charge exists, use it unless legacy data undercut booking total.
-  const roomComponent = roomCharges.length > 0 ? Math.max(roomTotal, base) : base;
-
-  return Math.max(0, roomComponent + otherTotal);
-}
-
 function safeNumber(value: unknown) {
   const n = Number(value);
   if (!Number.isFinite(n)) return 0;
@@ -167,6 +168,19 @@ async function buildBookingBillPayload(req: Request, bookingId: string) {
           createdAt: true,
         },
       },
+      nights: {
+        where: { OR: [{ chargeId: null }, { charge: { status: "OPEN" } }] },
+        orderBy: { date: "asc" },
+        select: {
+          date: true,
+          baseAmount: true,
+          discountAmount: true,
+          amount: true,
+          source: true,
+          ratePlanId: true,
+          chargeId: true,
+        },
+      },
       payments: {
         where: { status: "CONFIRMED" },
         orderBy: { paidAt: "asc" },
@@ -233,6 +247,7 @@ async function buildBookingBillPayload(req: Request, bookingId: string) {
       currency: booking.currency ?? "NGN",
       baseAmount: toMoney(baseAmount),
     },
+    nights: toNightlyRates(booking.nights ?? []),
     charges,
     payments,
     summary: {
@@ -415,6 +430,7 @@ function buildBillPdfLines(bill: Awaited<ReturnType<typeof buildBookingBillPaylo
 
 /**
  * CHECK-IN
+ * Body unitId puts the guest in a different free room (same category for a category booking).
  */
 export const checkIn = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
@@ -423,7 +439,7 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
   const propertyScope = await resolvePropertyScope(req);
 
   const { bookingId } = req.params;
-  const { photoUrl, idDocUrl, notes } = req.body;
+  const { photoUrl, idDocUrl, notes, ignoreHousekeeping, unitId } = req.body;
   if (!bookingId) throw new AppError("bookingId is required", 400, "VALIDATION_ERROR");
 
   const result = await db.raw.$transaction(async (tx) => {
@@ -432,19 +448,19 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
       throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
     }
 
-    if (booking.status !== "CONFIRMED") {
-      throw new AppError(
-        "Booking must be CONFIRMED before check-in",
-        409,
-        "INVALID_BOOKING_STATE"
-      );
-    }
+    assertTransition(booking.status, "CHECKED_IN");
+
+    const { unitId: roomUnitId, repricedTotal } = await assignRoomForCheckIn(tx, {
+      tenantId,
+      booking,
+      unitId: typeof unitId === "string" && unitId.trim() ? unitId.trim() : null,
+    });
 
     // 🚫 prevent unit double-occupancy
     const clash = await tx.booking.findFirst({
       where: {
         tenantId,
-        unitId: booking.unitId,
+        unitId: roomUnitId,
         status: "CHECKED_IN",
         NOT: { id: bookingId },
       },
@@ -455,14 +471,28 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
       throw new AppError("Unit is already occupied", 409, "UNIT_ALREADY_OCCUPIED");
     }
 
+    // Maintenance blocks covering the rest of the stay keep the guest out of the room.
+    await assertUnitInService(tx, {
+      tenantId,
+      unitId: roomUnitId,
+      checkIn: new Date(),
+      checkOut: booking.checkOut,
+    });
+    const housekeepingWarning = await checkUnitReadyForCheckIn(tx, {
+      tenantId,
+      unitId: roomUnitId,
+      ignoreHousekeeping: toBoolean(ignoreHousekeeping),
+    });
+
     // 1) tenant settings
     const settings = await tx.tenantSettings.findUnique({
       where: { tenantId },
     });
     const minDepositPercent = settings?.minDepositPercent ?? 100;
 
-    // 2) booking amount
-    if (!booking.totalAmount) {
+    // 2) booking amount (requoted when the guest was moved to another room)
+    const bookingTotal = repricedTotal ?? booking.totalAmount;
+    if (!bookingTotal) {
       throw new AppError(
         "Booking totalAmount not set",
         409,
@@ -480,7 +510,7 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
       0
     );
 
-    const totalAmount = Number(booking.totalAmount);
+    const totalAmount = Number(bookingTotal);
     const requiredDeposit = (minDepositPercent / 100) * totalAmount;
 
     if (paidAmount < requiredDeposit) {
@@ -502,11 +532,20 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
     const updatedBooking = await tx.booking.update({
       where: { id: bookingId },
       data: {
-        status: "CHECKED_IN",
-        checkedInAt: new Date(),
+        ...transitionData(booking.status, "CHECKED_IN"),
+        unitAssigned: true,
         paymentStatus,
       },
     });
+    await recordStatusChange(tx, {
+      tenantId,
+      bookingId: booking.id,
+      from: booking.status,
+      to: "CHECKED_IN",
+      source: "check.check_in",
+      reason: notes ?? null,
+      actorUserId: user?.userId ?? null,
+    });
 
     // ✅ audit event
     const event = await tx.checkEvent.create({
@@ -523,7 +562,7 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
       },
     });
 
-    return { booking: updatedBooking, checkIn: event };
+    return { booking: updatedBooking, checkIn: event, housekeepingWarning };
   });
 
   logger.info(
@@ -535,6 +574,7 @@ export const checkIn = asyncHandler(async (req: Request, res: Response) => {
       actorUserId: user?.userId ?? null,
       status: result.booking.status,
       paymentStatus: result.booking.paymentStatus,
+      housekeepingWarning: result.housekeepingWarning,
     },
     "Audit check-in"
   );
@@ -628,8 +668,17 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
   const propertyScope = await resolvePropertyScope(req);
 
   const { bookingId } = req.params;
-  const { photoUrl, notes, damagesCost, damagesNotes, refundPolicy, refundApproved, refundAmount, refundReason } =
-    req.body ?? {};
+  const {
+    photoUrl,
+    notes,
+    damagesCost,
+    damagesNotes,
+    refundPolicy,
+    refundApproved,
+    refundAmount,
+    refundReason,
+    workOrder,
+  } = req.body ?? {};
   if (!bookingId) throw new AppError("bookingId is required", 400, "VALIDATION_ERROR");
 
   const parsedDamagesCost = Number(damagesCost ?? 0);
@@ -637,10 +686,47 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
   const normalizedRefundPolicy = toOptionalString(refundPolicy);
   const normalizedRefundReason = toOptionalString(refundReason);
   const normalizedRefundApproved = toBoolean(refundApproved);
+  if (normalizedRefundApproved && !hasPermission(req, "refunds.approve")) {
+    throw new AppError("You are not allowed to approve refunds", 403, "FORBIDDEN", {
+      missingPermissions: ["refunds.approve"],
+    });
+  }
   const parsedRefundAmount = Number(refundAmount ?? 0);
   const normalizedRefundAmount =
     Number.isFinite(parsedRefundAmount) && parsedRefundAmount > 0 ? parsedRefundAmount : 0;
 
+  // Optional work order for the damage: { title?, category?, priority?, description?, estimatedCost?, outOfServiceUntil? }
+  const workOrderRequest = workOrder && typeof workOrder === "object" ? (workOrder as Record<string, unknown>) : null;
+  if (workOrderRequest && !hasPermission(req, "maintenance.create")) {
+    throw new AppError("You are not allowed to raise work orders", 403, "FORBIDDEN", {
+      missingPermissions: ["maintenance.create"],
+    });
+  }
+  if (workOrderRequest?.outOfServiceUntil && !hasPermission(req, "units.manage")) {
+    throw new AppError("You are not allowed to take units out of service", 403, "FORBIDDEN", {
+      missingPermissions: ["units.manage"],
+    });
+  }
+  const workOrderFields = workOrderRequest
+    ? {
+        title: toOptionalString(workOrderRequest.title) ?? "Repair checkout damage",
+        description: toOptionalString(workOrderRequest.description) ?? toOptionalString(damagesNotes),
+        category: workOrderRequest.category
+          ? parseEnumValue(workOrderRequest.category, WORK_ORDER_CATEGORIES, "workOrder.category")
+          : undefined,
+        priority: workOrderRequest.priority
+          ? parseEnumValue(workOrderRequest.priority, WORK_ORDER_PRIORITIES, "workOrder.priority")
+          : undefined,
+        estimatedCost: parseCost(workOrderRequest.estimatedCost, "workOrder.estimatedCost"),
+        outOfServiceUntil: workOrderRequest.outOfServiceUntil
+          ? new Date(String(workOrderRequest.outOfServiceUntil))
+          : null,
+      }
+    : null;
+  if (workOrderFields?.outOfServiceUntil && Number.isNaN(workOrderFields.outOfServiceUntil.getTime())) {
+    throw new AppError("workOrder.outOfServiceUntil must be a valid date", 400, "VALIDATION_ERROR");
+  }
+
   const booking = await db.raw.booking.findFirst({
     where: { id: bookingId, tenantId, ...scopedBookingWhere(propertyScope) },
     select: {
@@ -652,17 +738,17 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
       guestEmail: true,
       checkIn: true,
       checkOut: true,
+      unitId: true,
       unit: { select: { name: true, property: { select: { name: true, address: true } } } },
     },
   });
 
   if (!booking) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
 
-  if (booking.status !== "CHECKED_IN") {
-    throw new AppError("Booking must be CHECKED_IN before check-out", 409, "INVALID_BOOKING_STATE");
-  }
+  assertTransition(booking.status, "CHECKED_OUT");
 
   // Persist/update damage charge first, so it remains even when checkout is blocked by outstanding balance.
+  let damageChargeId: string | null = null;
   if (normalizedDamagesCost > 0) {
     const existingDamageCharge = await db.raw.bookingCharge.findFirst({
       where: {
@@ -676,6 +762,7 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
     });
 
     if (existingDamageCharge) {
+      damageChargeId = existingDamageCharge.id;
       await db.raw.bookingCharge.update({
         where: { id: existingDamageCharge.id },
         data: {
@@ -684,7 +771,7 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
         },
       });
     } else {
-      await db.raw.bookingCharge.create({
+      const created = await db.raw.bookingCharge.create({
         data: {
           tenantId,
           bookingId,
@@ -694,7 +781,9 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
           currency: booking.currency ?? "NGN",
           status: "OPEN",
         },
+        select: { id: true },
       });
+      damageChargeId = created.id;
     }
   }
 
@@ -744,8 +833,7 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
     const updatedBooking = await tx.booking.update({
       where: { id: bookingId },
       data: {
-        status: "CHECKED_OUT",
-        checkedOutAt: new Date(),
+        ...transitionData(booking.status, "CHECKED_OUT", now),
         paymentStatus: "PAID",
         earlyCheckout: isEarlyCheckout,
         earlyCheckoutAt: isEarlyCheckout ? now : null,
@@ -757,6 +845,40 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
         refundReason: normalizedRefundReason,
       },
     });
+    await recordStatusChange(tx, {
+      tenantId,
+      bookingId: booking.id,
+      from: booking.status,
+      to: "CHECKED_OUT",
+      source: "check.check_out",
+      reason: notes ?? null,
+      actorUserId: user?.userId ?? null,
+    });
+    await markUnitDirtyAfterCheckout(tx, {
+      tenantId,
+      unitId: booking.unitId,
+      bookingId: booking.id,
+      actorUserId: user?.userId ?? null,
+    });
+
+    const raisedWorkOrder = workOrderFields
+      ? await createWorkOrder(tx, {
+          tenantId,
+          unitId: booking.unitId,
+          bookingId: booking.id,
+          damageChargeId,
+          currency: booking.currency ?? "NGN",
+          title: workOrderFields.title,
+          description: workOrderFields.description,
+          category: workOrderFields.category,
+          priority: workOrderFields.priority,
+          estimatedCost: workOrderFields.estimatedCost,
+          createdByUserId: user?.userId ?? null,
+          outOfService: workOrderFields.outOfServiceUntil
+            ? { from: now, until: workOrderFields.outOfServiceUntil }
+            : null,
+        })
+      : null;
 
     const event = await tx.checkEvent.create({
       data: {
@@ -783,6 +905,7 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
     return {
       booking: updatedBooking,
       checkOut: event,
+      workOrder: raisedWorkOrder,
       settlement: {
         totalBill,
         paidTotal,
@@ -806,6 +929,7 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
       actorUserId: user?.userId ?? null,
       settlement: result.settlement,
       damagesCost: normalizedDamagesCost,
+      workOrderId: result.workOrder?.id ?? null,
     },
     "Audit check-out"
   );
@@ -873,6 +997,271 @@ export const checkOut = asyncHandler(async (req: Request, res: Response) => {
   res.status(201).json(result);
 });
 
+function toIdList(value: unknown) {
+  if (!Array.isArray(value)) return null;
+  const ids = value.map((v) => String(v ?? "").trim()).filter(Boolean);
+  return ids.length ? new Set(ids) : null;
+}
+
+/**
+ * GROUP CHECK-IN
+ * Body: { bookingIds?, photoUrl?, idDocUrl?, notes? }
+ * The deposit rule is applied to the master folio (all rooms together), so rooms still PENDING
+ * because the group payment was allocated elsewhere can arrive with the party.
+ * Rooms that cannot check in are reported in `skipped` instead of failing the whole party.
+ */
+export const groupCheckIn = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const propertyScope = await resolvePropertyScope(req);
+
+  const groupId = String(req.params.groupId ?? "");
+  const { bookingIds, photoUrl, idDocUrl, notes, ignoreHousekeeping } = req.body ?? {};
+  if (!groupId) throw new AppError("groupId is required", 400, "VALIDATION_ERROR");
+  const selected = toIdList(bookingIds);
+
+  const result = await db.raw.$transaction(async (tx) => {
+    const folio = await loadGroupFolio(tx, tenantId, groupId, propertyScope);
+
+    const settings = await tx.tenantSettings.findUnique({ where: { tenantId } });
+    const minDepositPercent = settings?.minDepositPercent ?? 100;
+    const requiredDeposit = (minDepositPercent / 100) * folio.totals.totalBill;
+    if (folio.totals.paid + 0.009 < requiredDeposit) {
+      throw new AppError(`Group deposit required: ${minDepositPercent}%`, 409, "DEPOSIT_REQUIRED", {
+        required: toMoney(requiredDeposit),
+        paid: toMoney(folio.totals.paid),
+      });
+    }
+
+    const checkedIn: Array<{
+      bookingId: string;
+      unitName: string;
+      paymentStatus: string;
+      housekeepingWarning: Awaited<ReturnType<typeof checkUnitReadyForCheckIn>>;
+    }> = [];
+    const skipped: Array<{ bookingId: string; unitName: string; reason: string }> = [];
+    const now = new Date();
+
+    for (const room of folio.rooms) {
+      if (selected && !selected.has(room.id)) continue;
+      if (room.status !== "CONFIRMED" && room.status !== "PENDING") {
+        skipped.push({ bookingId: room.id, unitName: room.unit.name, reason: `Booking is ${room.status}` });
+        continue;
+      }
+
+      const clash = await tx.booking.findFirst({
+        where: { tenantId, unitId: room.unit.id, status: "CHECKED_IN", NOT: { id: room.id } },
+        select: { id: true },
+      });
+      if (clash) {
+        skipped.push({ bookingId: room.id, unitName: room.unit.name, reason: "Unit is already occupied" });
+        continue;
+      }
+
+      const block = await findUnitBlock(tx, { tenantId, unitId: room.unit.id, checkIn: now, checkOut: room.checkOut });
+      if (block) {
+        skipped.push({ bookingId: room.id, unitName: room.unit.name, reason: `Unit is out of order: ${block.reason}` });
+        continue;
+      }
+
+      const housekeepingWarning = await checkUnitReadyForCheckIn(tx, {
+        tenantId,
+        unitId: room.unit.id,
+        ignoreHousekeeping: true,
+      });
+      if (housekeepingWarning && !toBoolean(ignoreHousekeeping)) {
+        skipped.push({
+          bookingId: room.id,
+          unitName: room.unit.name,
+          reason: `Unit is ${housekeepingWarning.housekeepingStatus}`,
+        });
+        continue;
+      }
+
+      const paymentStatus =
+        room.paid >= room.totalBill ? "PAID" : room.paid > 0 ? "PARTPAID" : "UNPAID";
+
+      // PENDING rooms are confirmed by the group deposit first, so their history shows both steps.
+      const audit = { tenantId, bookingId: room.id, actorUserId: user?.userId ?? null };
+      if (room.status === "PENDING") {
+        await transitionBooking(tx, {
+          ...audit,
+          from: "PENDING",
+          to: "CONFIRMED",
+          source: "check.group_check_in",
+          reason: "Covered by group deposit",
+        });
+      }
+      await transitionBooking(
+        tx,
+        { ...audit, from: "CONFIRMED", to: "CHECKED_IN", source: "check.group_check_in", data: { paymentStatus } },
+        now
+      );
+      await tx.checkEvent.create({
+        data: {
+          tenantId,
+          bookingId: room.id,
+          type: "CHECK_IN",
+          capturedByUserId: user?.userId ?? null,
+          photoUrl: photoUrl ?? null,
+          idDocUrl: idDocUrl ?? null,
+          verificationMode: "MANUAL_REVIEW",
+          verificationResult: "PENDING",
+          notes: [notes ? String(notes).trim() : null, `Group check-in: ${folio.group.name}`]
+            .filter(Boolean)
+            .join(" | "),
+        },
+      });
+
+      checkedIn.push({ bookingId: room.id, unitName: room.unit.name, paymentStatus, housekeepingWarning });
+    }
+
+    if (selected) {
+      for (const id of selected) {
+        if (!folio.rooms.some((r) => r.id === id)) {
+          skipped.push({ bookingId: id, unitName: "", reason: "Booking is not part of this group" });
+        }
+      }
+    }
+
+    if (checkedIn.length === 0) {
+      throw new AppError("No rooms in this group are ready for check-in", 409, "INVALID_BOOKING_STATE", {
+        skipped,
+      });
+    }
+
+    return { groupId, checkedIn, skipped };
+  });
+
+  logger.info(
+    {
+      event: "audit.group_check_in",
+      requestId: req.requestId,
+      tenantId,
+      groupId,
+      actorUserId: user?.userId ?? null,
+      checkedIn: result.checkedIn.map((r) => r.bookingId),
+      skipped: result.skipped,
+    },
+    "Audit group check-in"
+  );
+
+  res.status(201).json(result);
+});
+
+/**
+ * GROUP CHECK-OUT (blocked while the master folio has a balance)
+ * Body: { bookingIds?, photoUrl?, notes? }
+ */
+export const groupCheckOut = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const propertyScope = await resolvePropertyScope(req);
+
+  const groupId = String(req.params.groupId ?? "");
+  const { bookingIds, photoUrl, notes } = req.body ?? {};
+  if (!groupId) throw new AppError("groupId is required", 400, "VALIDATION_ERROR");
+  const selected = toIdList(bookingIds);
+
+  const result = await db.raw.$transaction(async (tx) => {
+    const folio = await loadGroupFolio(tx, tenantId, groupId, propertyScope);
+
+    if (folio.totals.outstanding > 0.009) {
+      throw new AppError(
+        `Group balance must be settled before checkout: ${folio.totals.currency} ${toMoney(folio.totals.outstanding)}`,
+        409,
+        "OUTSTANDING_BALANCE"
+      );
+    }
+
+    const checkedOut: Array<{ bookingId: string; unitName: string; earlyCheckout: boolean }> = [];
+    const skipped: Array<{ bookingId: string; unitName: string; reason: string }> = [];
+    const now = new Date();
+
+    for (const room of folio.rooms) {
+      if (selected && !selected.has(room.id)) continue;
+      if (room.status !== "CHECKED_IN") {
+        skipped.push({ bookingId: room.id, unitName: room.unit.name, reason: `Booking is ${room.status}` });
+        continue;
+      }
+
+      const isEarlyCheckout = room.checkOut > now;
+      await transitionBooking(
+        tx,
+        {
+          tenantId,
+          bookingId: room.id,
+          from: "CHECKED_IN",
+          to: "CHECKED_OUT",
+          source: "check.group_check_out",
+          actorUserId: user?.userId ?? null,
+          data: { paymentStatus: "PAID", earlyCheckout: isEarlyCheckout, earlyCheckoutAt: isEarlyCheckout ? now : null },
+        },
+        now
+      );
+      await tx.checkEvent.create({
+        data: {
+          tenantId,
+          bookingId: room.id,
+          type: "CHECK_OUT",
+          capturedByUserId: user?.userId ?? null,
+          photoUrl: photoUrl ?? null,
+          verificationMode: "MANUAL_REVIEW",
+          verificationResult: "PENDING",
+          notes: [notes ? String(notes).trim() : null, `Group check-out: ${folio.group.name}`]
+            .filter(Boolean)
+            .join(" | "),
+          earlyCheckout: isEarlyCheckout,
+        },
+      });
+
+      await markUnitDirtyAfterCheckout(tx, {
+        tenantId,
+        unitId: room.unit.id,
+        bookingId: room.id,
+        actorUserId: user?.userId ?? null,
+      });
+
+      checkedOut.push({ bookingId: room.id, unitName: room.unit.name, earlyCheckout: isEarlyCheckout });
+    }
+
+    if (checkedOut.length === 0) {
+      throw new AppError("No rooms in this group are checked in", 409, "INVALID_BOOKING_STATE", { skipped });
+    }
+
+    return {
+      groupId,
+      checkedOut,
+      skipped,
+      settlement: {
+        totalBill: folio.totals.totalBill,
+        paidTotal: folio.totals.paid,
+        outstanding: folio.totals.outstanding,
+        credit: folio.totals.credit,
+        currency: folio.totals.currency,
+      },
+    };
+  });
+
+  logger.info(
+    {
+      event: "audit.group_check_out",
+      requestId: req.requestId,
+      tenantId,
+      groupId,
+      actorUserId: user?.userId ?? null,
+      checkedOut: result.checkedOut.map((r) => r.bookingId),
+      skipped: result.skipped,
+      settlement: result.settlement,
+    },
+    "Audit group check-out"
+  );
+
+  res.status(201).json(result);
+});
+
 /**
  * BILL PREVIEW + EXPORT
  */
@@ -1218,7 +1607,7 @@ export const extendStay = asyncHandler(async (req: Request, res: Response) => {
   const db = prismaForTenant(tenantId);
   const user = (req as any).user;
   const propertyScope = await resolvePropertyScope(req);
-  const { bookingId } = req.params;
+  const bookingId = String(req.params.bookingId ?? "");
   const { newCheckOut, notes } = req.body ?? {};
   if (!bookingId) throw new AppError("bookingId is required", 400, "VALIDATION_ERROR");
   if (!newCheckOut) throw new AppError("newCheckOut is required", 400, "VALIDATION_ERROR");
@@ -1236,7 +1625,7 @@ export const extendStay = asyncHandler(async (req: Request, res: Response) => {
       checkOut: true,
       totalAmount: true,
       currency: true,
-      unit: { select: { name: true, property: { select: { name: true } } } },
+      unit: { select: { ...PRICING_UNIT_SELECT, name: true, property: { select: { name: true } } } },
     },
   });
   if (!booking) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
@@ -1247,28 +1636,30 @@ export const extendStay = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError("newCheckOut must be after current checkOut", 400, "INVALID_EXTENSION_DATE");
   }
 
-  // Prevent overlap with any other active reservation on this unit.
-  const conflict = await db.raw.booking.findFirst({
-    where: {
+  // Prevent overlap with any other active reservation on this unit (early check; the
+  // Booking_unit_active_no_overlap constraint also rejects a concurrent conflicting write).
+  await assertUnitAvailable(
+    db.raw,
+    {
       tenantId,
       unitId: booking.unitId,
-      id: { not: booking.id },
-      status: { in: ["PENDING", "CONFIRMED", "CHECKED_IN"] },
-      AND: [{ checkIn: { lt: parsedNewCheckOut } }, { checkOut: { gt: booking.checkIn } }],
+      checkIn: booking.checkIn,
+      checkOut: parsedNewCheckOut,
+      excludeBookingId: booking.id,
     },
-    select: { id: true, checkIn: true, checkOut: true },
-  });
+    "Unit is not available for the requested extension dates"
+  );
 
-  if (conflict) {
-    throw new AppError("Unit is not available for the requested extension dates", 409, "UNIT_NOT_AVAILABLE");
+  // Extension nights are priced like a new stay on the unit (no minimum-stay check). Units with
+  // no rate anywhere fall back to the booking's own average nightly amount.
+  const quote = await quoteStay(db.raw, tenantId, booking.unit, booking.checkOut, parsedNewCheckOut);
+  const extensionNights = quote.nights.length;
+  let extensionAmount = quote.total;
+  if (quote.rateMissing) {
+    const originalNights = countNights(booking.checkIn, booking.checkOut);
+    extensionAmount = Math.max(0, (Number(booking.totalAmount ?? 0) / originalNights) * extensionNights);
   }
-
-  const DAY_MS = 1000 * 60 * 60 * 24;
-  const originalNights = Math.max(1, Math.ceil((booking.checkOut.getTime() - booking.checkIn.getTime()) / DAY_MS));
-  const extensionNights = Math.max(1, Math.ceil((parsedNewCheckOut.getTime() - booking.checkOut.getTime()) / DAY_MS));
-  const baseAmount = Number(booking.totalAmount ?? 0);
-  const nightlyRate = originalNights > 0 ? baseAmount / originalNights : 0;
-  const extensionAmount = Math.max(0, nightlyRate * extensionNights);
+  const nightlyRate = extensionAmount / extensionNights;
 
   const result = await db.raw.$transaction(async (tx) => {
     const updatedBooking = await tx.booking.update({
@@ -1297,6 +1688,10 @@ export const extendStay = asyncHandler(async (req: Request, res: Response) => {
         })
       : null;
 
+    if (charge) {
+      await appendBookingNights(tx, tenantId, bookingId, quote, charge.id);
+    }
+
     return { booking: updatedBooking, charge };
   });
 
@@ -1324,6 +1719,7 @@ export const extendStay = asyncHandler(async (req: Request, res: Response) => {
       extensionAmount: Number(extensionAmount.toFixed(2)),
       currency: booking.currency ?? "NGN",
       notes: toOptionalString(notes),
+      nights: quote.rateMissing ? [] : quote.nights,
     },
     charge: result.charge,
   });
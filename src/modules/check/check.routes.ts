@@ -11,109 +11,125 @@ import {
   sendBookingBillToGuest,
   checkIn,
   checkOut,
+  groupCheckIn,
+  groupCheckOut,
   checkoutBookingVisitor,
   listBookingVisitors,
   updateBookingVisitor,
 } from "./check.controller";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 
 export const checkRoutes = Router();
 
 checkRoutes.post(
   "/bookings/:bookingId/check-in",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkin"),
   checkIn
 );
 
 checkRoutes.post(
   "/bookings/:bookingId/check-out",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.checkout"),
   checkOut
 );
 
+checkRoutes.post(
+  "/booking-groups/:groupId/check-in",
+  requireAuth,
+  requirePermission("bookings.checkin"),
+  groupCheckIn
+);
+
+checkRoutes.post(
+  "/booking-groups/:groupId/check-out",
+  requireAuth,
+  requirePermission("bookings.checkout"),
+  groupCheckOut
+);
+
 checkRoutes.post(
   "/bookings/:bookingId/extend-stay",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.extend"),
   extendStay
 );
 
 checkRoutes.post(
   "/bookings/:bookingId/overstay-charge",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("charges.create"),
   addOverstayCharge
 );
 
 checkRoutes.post(
   "/bookings/:bookingId/service-charge",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("charges.create"),
   addServiceCharge
 );
 
 checkRoutes.get(
   "/bookings/:bookingId/bill",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   getBookingBillPreview
 );
 
 checkRoutes.get(
   "/bookings/:bookingId/bill.csv",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   exportBookingBillCsv
 );
 
 checkRoutes.get(
   "/bookings/:bookingId/bill.pdf",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   exportBookingBillPdf
 );
 
 checkRoutes.get(
   "/bookings/:bookingId/bill.xlsx",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   exportBookingBillXlsx
 );
 
 checkRoutes.post(
   "/bookings/:bookingId/bill/send",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bills.send"),
   sendBookingBillToGuest
 );
 
 checkRoutes.get(
   "/bookings/:bookingId/visitors",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.view"),
   listBookingVisitors
 );
 
 checkRoutes.post(
   "/bookings/:bookingId/visitors",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("visitors.manage"),
   addBookingVisitor
 );
 
 checkRoutes.patch(
   "/bookings/:bookingId/visitors/:visitorId",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("visitors.manage"),
   updateBookingVisitor
 );
 
 checkRoutes.patch(
   "/bookings/:bookingId/visitors/:visitorId/checkout",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("visitors.manage"),
   checkoutBookingVisitor
 );
@@ -12,6 +12,8 @@ type JwtUser = { userId: string; tenantId: string; role: Role };
 type DashboardStats = {
   totalProperties: number;
   totalUnits: number;
+  /** Units under a maintenance block today; left out of occupancyRate's denominator. */
+  outOfOrderUnits: number;
   activeBookings: number;
   pendingPayments: number;
   totalRevenue: number;
@@ -125,9 +127,30 @@ export async function getDashboard(req: Request, res: Response, next: NextFuncti
       select: { unitId: true },
       distinct: ["unitId"],
     });
+    const blockedTodayPromise = prisma.unitBlock.findMany({
+      where: {
+        ...scope,
+        unit: scopedUnitWhere(propertyScope),
+        startDate: { lte: endOfToday },
+        endDate: { gt: startOfToday },
+      },
+      select: { unitId: true },
+      distinct: ["unitId"],
+    });
 
-    const [bookingRows, paymentRows, [totalProperties, totalUnits, activeBookings, pendingPaymentsCount], occupiedToday] =
-      await Promise.all([recentBookingsPromise, pendingPaymentsPromise, countsPromise, occupiedTodayPromise]);
+    const [
+      bookingRows,
+      paymentRows,
+      [totalProperties, totalUnits, activeBookings, pendingPaymentsCount],
+      occupiedToday,
+      blockedToday,
+    ] = await Promise.all([
+      recentBookingsPromise,
+      pendingPaymentsPromise,
+      countsPromise,
+      occupiedTodayPromise,
+      blockedTodayPromise,
+    ]);
 
     const recentBookings = bookingRows.map((b) => ({
       id: b.id,
@@ -155,10 +178,13 @@ export async function getDashboard(req: Request, res: Response, next: NextFuncti
     });
 
     const occupiedUnitsToday = occupiedToday.length;
+    // Out-of-order rooms cannot be sold, so they leave the inventory rather than count as empty.
+    const outOfOrderUnits = blockedToday.length;
+    const sellableUnits = Math.max(0, totalUnits - outOfOrderUnits);
 
     // % (1 decimal place)
     const occupancyRate =
-      totalUnits > 0 ? Math.round((occupiedUnitsToday / totalUnits) * 1000) / 10 : 0;
+      sellableUnits > 0 ? Math.round((occupiedUnitsToday / sellableUnits) * 1000) / 10 : 0;
 
     // Keep pending safe vs fetched sample list
     const pendingPaymentsSafe = Math.max(pendingPaymentsCount, pendingPayments.length);
@@ -168,6 +194,7 @@ export async function getDashboard(req: Request, res: Response, next: NextFuncti
       const stats: DashboardStats = {
         totalProperties,
         totalUnits,
+        outOfOrderUnits,
         activeBookings,
         pendingPayments: pendingPaymentsSafe,
         totalRevenue: 0,
@@ -189,6 +216,7 @@ export async function getDashboard(req: Request, res: Response, next: NextFuncti
       const stats: DashboardStats = {
         totalProperties,
         totalUnits,
+        outOfOrderUnits,
         activeBookings,
         pendingPayments: pendingPaymentsSafe,
         totalRevenue: 0,
@@ -217,6 +245,7 @@ export async function getDashboard(req: Request, res: Response, next: NextFuncti
     const stats: DashboardStats = {
       totalProperties,
       totalUnits,
+      outOfOrderUnits,
       activeBookings,
       pendingPayments: pendingPaymentsSafe,
       totalRevenue: Number(revenueAgg._sum.amount ?? 0),
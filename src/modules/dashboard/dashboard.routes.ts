@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import { getDashboard } from "./dashboard.controller";
 import { tenantMiddleware } from "../../middleware/tenant.middleware";
 
@@ -17,6 +18,6 @@ const router = Router();
  * (See note below.)
  */
 
-router.get("/dashboard", tenantMiddleware, requireAuth, getDashboard);
+router.get("/dashboard", tenantMiddleware, requireAuth, requirePermission("dashboard.view"), getDashboard);
 
 export const dashboardRoutes = router;
@@ -0,0 +1,513 @@
+import type { Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { logger } from "../../common/logger/logger";
+import { resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import { PRICING_UNIT_SELECT, assertMinimumStay, quoteStay, replaceBookingNights } from "../bookings/booking.pricing";
+import type { StayQuote } from "../bookings/booking.pricing";
+import { assertUnitAvailable } from "../bookings/booking.availability";
+import { recordStatusChange, transitionBooking } from "../bookings/booking.state";
+import { loadGroupFolio } from "./group.folio";
+import type { GroupFolio } from "./group.folio";
+
+const MAX_GROUP_ROOMS = 30;
+const GROUP_CHARGE_TYPES = ["EXTRA", "DAMAGE", "PENALTY"] as const;
+
+function toDate(value: unknown, field: string) {
+  const d = new Date(String(value ?? ""));
+  if (value === undefined || value === null || value === "" || Number.isNaN(d.getTime())) {
+    throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  }
+  return d;
+}
+
+function toOptionalString(value: unknown) {
+  if (value === undefined || value === null) return null;
+  const s = String(value).trim();
+  return s || null;
+}
+
+function paymentStatusFor(totalBill: number, paid: number): "UNPAID" | "PARTPAID" | "PAID" {
+  if (paid <= 0) return "UNPAID";
+  return totalBill - paid > 0.009 ? "PARTPAID" : "PAID";
+}
+
+function toFolioDto(folio: GroupFolio) {
+  const { group, rooms, totals } = folio;
+  return {
+    group: {
+      id: group.id,
+      name: group.name,
+      payerGuestId: group.payerGuestId,
+      payerName: group.payerName,
+      payerEmail: group.payerEmail,
+      payerPhone: group.payerPhone,
+      currency: group.currency,
+      notes: group.notes,
+      createdAt: group.createdAt,
+    },
+    rooms: rooms.map((r) => ({
+      bookingId: r.id,
+      status: r.status,
+      paymentStatus: r.paymentStatus,
+      checkIn: r.checkIn,
+      checkOut: r.checkOut,
+      guestName: r.guestName,
+      unit: { id: r.unit.id, name: r.unit.name, propertyName: r.unit.property?.name ?? null },
+      inFolio: r.inFolio,
+      totalBill: r.totalBill.toFixed(2),
+      paid: r.paid.toFixed(2),
+      outstanding: r.outstanding.toFixed(2),
+      credit: r.credit.toFixed(2),
+    })),
+    charges: rooms.flatMap((r) => r.charges.map((c) => ({ ...c, bookingId: r.id, unitName: r.unit.name }))),
+    payments: rooms.flatMap((r) => r.payments.map((p) => ({ ...p, bookingId: r.id, unitName: r.unit.name }))),
+    totals: {
+      rooms: totals.rooms,
+      totalBill: totals.totalBill.toFixed(2),
+      paid: totals.paid.toFixed(2),
+      outstanding: totals.outstanding.toFixed(2),
+      credit: totals.credit.toFixed(2),
+      currency: totals.currency,
+    },
+  };
+}
+
+/**
+ * POST /api/booking-groups
+ * Body: { name, payerGuestId, checkIn, checkOut, rooms: [{ unitId, guestId?, checkIn?, checkOut? }], currency?, notes? }
+ * Creates one PENDING booking per room, priced like createBooking, all or nothing.
+ * Rooms without guestId are booked under the payer until the desk assigns occupants.
+ */
+export const createBookingGroup = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = req.user;
+  const propertyScope = await resolvePropertyScope(req);
+  const { name, payerGuestId, checkIn, checkOut, rooms, currency, notes } = req.body ?? {};
+
+  const groupName = toOptionalString(name);
+  if (!groupName) throw new AppError("name is required", 400, "VALIDATION_ERROR");
+  if (!payerGuestId || typeof payerGuestId !== "string") {
+    throw new AppError("payerGuestId is required", 400, "VALIDATION_ERROR");
+  }
+  if (!Array.isArray(rooms) || rooms.length === 0) {
+    throw new AppError("rooms must be a non-empty array", 400, "VALIDATION_ERROR");
+  }
+  if (rooms.length > MAX_GROUP_ROOMS) {
+    throw new AppError(`A group can hold at most ${MAX_GROUP_ROOMS} rooms`, 400, "VALIDATION_ERROR");
+  }
+
+  const defaultCheckIn = checkIn ? toDate(checkIn, "checkIn") : null;
+  const defaultCheckOut = checkOut ? toDate(checkOut, "checkOut") : null;
+
+  const requested = rooms.map((r: any, i: number) => {
+    const unitId = toOptionalString(r?.unitId);
+    if (!unitId) throw new AppError(`rooms[${i}].unitId is required`, 400, "VALIDATION_ERROR");
+    const start = r?.checkIn ? toDate(r.checkIn, `rooms[${i}].checkIn`) : defaultCheckIn;
+    const end = r?.checkOut ? toDate(r.checkOut, `rooms[${i}].checkOut`) : defaultCheckOut;
+    if (!start || !end) {
+      throw new AppError(`rooms[${i}] needs checkIn/checkOut (or group defaults)`, 400, "VALIDATION_ERROR");
+    }
+    if (end <= start) throw new AppError(`rooms[${i}].checkOut must be after checkIn`, 400, "VALIDATION_ERROR");
+    return { unitId, guestId: toOptionalString(r?.guestId) ?? payerGuestId, start, end };
+  });
+
+  // The same unit twice in one request would only fail at the exclusion constraint; report it clearly.
+  const seen = new Map<string, Array<{ start: Date; end: Date }>>();
+  for (const r of requested) {
+    const ranges = seen.get(r.unitId) ?? [];
+    if (ranges.some((x) => x.start < r.end && x.end > r.start)) {
+      throw new AppError("The same unit is requested twice for overlapping dates", 400, "VALIDATION_ERROR", {
+        unitId: r.unitId,
+      });
+    }
+    ranges.push({ start: r.start, end: r.end });
+    seen.set(r.unitId, ranges);
+  }
+
+  const unitIds = Array.from(new Set(requested.map((r) => r.unitId)));
+  const units = await db.raw.unit.findMany({
+    where: { id: { in: unitIds }, tenantId, ...scopedUnitWhere(propertyScope) },
+    select: PRICING_UNIT_SELECT,
+  });
+  const unitById = new Map(units.map((u) => [u.id, u]));
+  const missingUnits = unitIds.filter((id) => !unitById.has(id));
+  if (missingUnits.length > 0) {
+    throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND", { unitIds: missingUnits });
+  }
+
+  const guestIds = Array.from(new Set([payerGuestId, ...requested.map((r) => r.guestId)]));
+  const guests = await db.raw.guest.findMany({
+    where: { id: { in: guestIds }, tenantId },
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+      phone: true,
+      address: true,
+      nationality: true,
+      idType: true,
+      idNumber: true,
+      idIssuedBy: true,
+      vehiclePlate: true,
+    },
+  });
+  const guestById = new Map(guests.map((g) => [g.id, g]));
+  const missingGuests = guestIds.filter((id) => !guestById.has(id));
+  if (missingGuests.length > 0) {
+    throw new AppError("Guest not found", 404, "GUEST_NOT_FOUND", { guestIds: missingGuests });
+  }
+  const payer = guestById.get(payerGuestId)!;
+
+  const priced: Array<(typeof requested)[number] & { quote: StayQuote }> = [];
+  for (const r of requested) {
+    const unit = unitById.get(r.unitId)!;
+    const quote = await quoteStay(db.raw, tenantId, unit, r.start, r.end);
+    assertMinimumStay(quote);
+    if (quote.rateMissing) {
+      throw new AppError("Unit base rate is not set for a room in this group", 400, "UNIT_BASE_RATE_MISSING", {
+        unitId: r.unitId,
+      });
+    }
+    await assertUnitAvailable(db.raw, { tenantId, unitId: r.unitId, checkIn: r.start, checkOut: r.end });
+    priced.push({ ...r, quote });
+  }
+
+  const groupCurrency = toOptionalString(currency) ?? "NGN";
+
+  const created = await db.raw.$transaction(async (tx) => {
+    const group = await tx.bookingGroup.create({
+      data: {
+        tenantId,
+        name: groupName,
+        payerGuestId: payer.id,
+        payerName: payer.fullName ?? null,
+        payerEmail: payer.email ?? null,
+        payerPhone: payer.phone ?? null,
+        currency: groupCurrency,
+        notes: toOptionalString(notes),
+        createdByUserId: user?.userId ?? null,
+      },
+    });
+
+    for (const r of priced) {
+      const guest = guestById.get(r.guestId)!;
+      const totalAmount = r.quote.total.toFixed(2);
+      const booking = await tx.booking.create({
+        data: {
+          tenantId,
+          unitId: r.unitId,
+          groupId: group.id,
+          guestId: guest.id,
+          checkIn: r.start,
+          checkOut: r.end,
+          guestName: guest.fullName ?? null,
+          guestEmail: guest.email ?? null,
+          guestPhone: guest.phone ?? null,
+          guestAddress: guest.address ?? null,
+          guestNationality: guest.nationality ?? null,
+          idType: guest.idType ?? null,
+          idNumber: guest.idNumber ?? null,
+          idIssuedBy: guest.idIssuedBy ?? null,
+          vehiclePlate: guest.vehiclePlate ?? null,
+          totalAmount,
+          currency: groupCurrency,
+          status: "PENDING",
+          paymentStatus: "UNPAID",
+        },
+        select: { id: true },
+      });
+
+      await recordStatusChange(tx, {
+        tenantId,
+        bookingId: booking.id,
+        from: null,
+        to: "PENDING",
+        source: "groups.create",
+        reason: `Room in group ${groupName}`,
+        actorUserId: user?.userId ?? null,
+      });
+      await replaceBookingNights(tx, tenantId, booking.id, r.quote);
+      await tx.bookingCharge.create({
+        data: {
+          tenantId,
+          bookingId: booking.id,
+          type: "ROOM",
+          title: "Room charge",
+          amount: totalAmount,
+          currency: groupCurrency,
+          status: "OPEN",
+        },
+      });
+    }
+
+    return group;
+  });
+
+  logger.info(
+    {
+      event: "audit.booking_group_created",
+      requestId: req.requestId,
+      tenantId,
+      groupId: created.id,
+      rooms: priced.length,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit booking group created"
+  );
+
+  const folio = await loadGroupFolio(db.raw, tenantId, created.id, propertyScope);
+  res.status(201).json(toFolioDto(folio));
+});
+
+/**
+ * GET /api/booking-groups?q=&limit=
+ * Groups whose rooms are all within the caller's property scope, newest first.
+ */
+export const listBookingGroups = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+  const { q, limit = "50" } = req.query as Record<string, string | undefined>;
+  const take = Math.min(Math.max(parseInt(limit || "50", 10) || 50, 1), 200);
+
+  const where: any = { tenantId };
+  if (propertyScope.propertyIds !== null) {
+    where.bookings = { every: { unit: { propertyId: { in: propertyScope.propertyIds } } } };
+  }
+  if (q?.trim()) {
+    const s = q.trim();
+    where.OR = [
+      { name: { contains: s, mode: "insensitive" } },
+      { payerName: { contains: s, mode: "insensitive" } },
+      { payerEmail: { contains: s, mode: "insensitive" } },
+      { payerPhone: { contains: s, mode: "insensitive" } },
+    ];
+  }
+
+  const groups = await db.raw.bookingGroup.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take,
+    select: {
+      id: true,
+      name: true,
+      payerName: true,
+      payerPhone: true,
+      currency: true,
+      createdAt: true,
+      bookings: { select: { status: true, checkIn: true, checkOut: true } },
+    },
+  });
+
+  res.json({
+    groups: groups.map(({ bookings, ...g }) => ({
+      ...g,
+      roomCount: bookings.length,
+      firstCheckIn: bookings.reduce<Date | null>((min, b) => (!min || b.checkIn < min ? b.checkIn : min), null),
+      lastCheckOut: bookings.reduce<Date | null>((max, b) => (!max || b.checkOut > max ? b.checkOut : max), null),
+      statusCounts: bookings.reduce<Record<string, number>>((acc, b) => {
+        acc[b.status] = (acc[b.status] ?? 0) + 1;
+        return acc;
+      }, {}),
+    })),
+  });
+});
+
+/**
+ * GET /api/booking-groups/:groupId
+ * Master folio: rooms, their open charges and confirmed payments, and group totals.
+ */
+export const getBookingGroup = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+
+  const folio = await loadGroupFolio(db.raw, tenantId, String(req.params.groupId), propertyScope);
+  res.json(toFolioDto(folio));
+});
+
+/**
+ * POST /api/booking-groups/:groupId/payments
+ * Body: { amount, reference?, notes? }
+ * One payment on the master folio, split across rooms with a balance (earliest arrival first)
+ * as CONFIRMED booking payments tagged with the group, so per-room deposit and checkout rules still hold.
+ */
+export const recordGroupPayment = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = req.user;
+  const propertyScope = await resolvePropertyScope(req);
+  const groupId = String(req.params.groupId);
+  const { amount, reference, notes } = req.body ?? {};
+
+  if (!amount || typeof amount !== "string") {
+    throw new AppError('amount is required and must be a string like "45000.00"', 400, "VALIDATION_ERROR");
+  }
+  const parsedAmount = Number(amount);
+  if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+    throw new AppError("amount must be greater than 0", 400, "VALIDATION_ERROR");
+  }
+
+  const allocationId = randomUUID();
+  const result = await db.raw.$transaction(async (tx) => {
+    const folio = await loadGroupFolio(tx, tenantId, groupId, propertyScope);
+    if (folio.totals.outstanding <= 0.009) {
+      throw new AppError("Group folio is already settled", 400, "GROUP_SETTLED");
+    }
+    if (parsedAmount - folio.totals.outstanding > 0.009) {
+      throw new AppError(
+        `Amount exceeds the group outstanding balance of ${folio.totals.outstanding.toFixed(2)}`,
+        400,
+        "AMOUNT_EXCEEDS_OUTSTANDING"
+      );
+    }
+
+    let remaining = parsedAmount;
+    const allocations: Array<{ bookingId: string; paymentId: string; amount: string }> = [];
+    const now = new Date();
+
+    for (const room of folio.rooms) {
+      if (remaining <= 0.009) break;
+      if (!room.inFolio || room.outstanding <= 0.009) continue;
+
+      const share = Math.min(remaining, room.outstanding);
+      remaining -= share;
+
+      const payment = await tx.payment.create({
+        data: {
+          tenantId,
+          bookingId: room.id,
+          groupId,
+          amount: share.toFixed(2),
+          currency: folio.group.currency,
+          reference: toOptionalString(reference),
+          notes: toOptionalString(notes),
+          method: "MANUAL",
+          status: "CONFIRMED",
+          paidAt: now,
+          confirmedAt: now,
+          confirmedByUserId: user?.userId ?? null,
+          meta: { groupAllocationId: allocationId, groupPaymentAmount: parsedAmount.toFixed(2) },
+        },
+        select: { id: true },
+      });
+
+      const paymentStatus = paymentStatusFor(room.totalBill, room.paid + share);
+      if (room.status === "PENDING") {
+        await transitionBooking(tx, {
+          tenantId,
+          bookingId: room.id,
+          from: "PENDING",
+          to: "CONFIRMED",
+          source: "groups.record_payment",
+          reason: "Group payment allocated",
+          actorUserId: user?.userId ?? null,
+          data: { paymentStatus },
+        });
+      } else {
+        await tx.booking.update({ where: { id: room.id }, data: { paymentStatus } });
+      }
+
+      allocations.push({ bookingId: room.id, paymentId: payment.id, amount: share.toFixed(2) });
+    }
+
+    return allocations;
+  });
+
+  logger.info(
+    {
+      event: "audit.group_payment_recorded",
+      requestId: req.requestId,
+      tenantId,
+      groupId,
+      allocationId,
+      amount: parsedAmount.toFixed(2),
+      allocations: result,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit group payment"
+  );
+
+  const folio = await loadGroupFolio(db.raw, tenantId, groupId, propertyScope);
+  res.status(201).json({ allocationId, allocations: result, ...toFolioDto(folio) });
+});
+
+/**
+ * POST /api/booking-groups/:groupId/charges
+ * Body: { title, amount, type?: EXTRA|DAMAGE|PENALTY, bookingId? }
+ * Posts a charge to the master folio. It is held on the given room, or on the group's first room.
+ */
+export const addGroupCharge = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = req.user;
+  const propertyScope = await resolvePropertyScope(req);
+  const groupId = String(req.params.groupId);
+  const { title, amount, type, bookingId } = req.body ?? {};
+
+  const chargeTitle = toOptionalString(title);
+  if (!chargeTitle) throw new AppError("title is required", 400, "VALIDATION_ERROR");
+  const parsedAmount = Number(amount);
+  if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+    throw new AppError("amount must be greater than 0", 400, "VALIDATION_ERROR");
+  }
+  const chargeType = (toOptionalString(type)?.toUpperCase() ?? "EXTRA") as (typeof GROUP_CHARGE_TYPES)[number];
+  if (!GROUP_CHARGE_TYPES.includes(chargeType)) {
+    throw new AppError("type must be EXTRA, DAMAGE or PENALTY", 400, "VALIDATION_ERROR");
+  }
+
+  const folio = await loadGroupFolio(db.raw, tenantId, groupId, propertyScope);
+  const targetId = toOptionalString(bookingId);
+  const room = targetId
+    ? folio.rooms.find((r) => r.id === targetId)
+    : folio.rooms.find((r) => r.inFolio);
+  if (!room) {
+    throw new AppError(
+      targetId ? "Booking is not part of this group" : "Group has no active rooms",
+      targetId ? 404 : 400,
+      targetId ? "BOOKING_NOT_FOUND" : "GROUP_HAS_NO_ROOMS"
+    );
+  }
+  if (!room.inFolio) throw new AppError("Cannot charge a cancelled room", 400, "INVALID_STATUS");
+
+  const charge = await db.raw.$transaction(async (tx) => {
+    const created = await tx.bookingCharge.create({
+      data: {
+        tenantId,
+        bookingId: room.id,
+        type: chargeType,
+        title: chargeTitle,
+        amount: parsedAmount.toFixed(2),
+        currency: folio.group.currency,
+        status: "OPEN",
+      },
+    });
+    await tx.booking.update({
+      where: { id: room.id },
+      data: { paymentStatus: paymentStatusFor(room.totalBill + parsedAmount, room.paid) },
+    });
+    return created;
+  });
+
+  logger.info(
+    {
+      event: "audit.group_charge_added",
+      requestId: req.requestId,
+      tenantId,
+      groupId,
+      bookingId: room.id,
+      chargeId: charge.id,
+      type: chargeType,
+      amount: parsedAmount.toFixed(2),
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit group charge"
+  );
+
+  const updated = await loadGroupFolio(db.raw, tenantId, groupId, propertyScope);
+  res.status(201).json({ charge, ...toFolioDto(updated) });
+});
@@ -0,0 +1,112 @@
+// src/modules/groups/group.folio.ts
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { computeTotalBillFromBaseAndCharges } from "../bookings/booking.pricing";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+function round2(n: number) {
+  return Number(n.toFixed(2));
+}
+
+/** Cancelled and no-show rooms stay in the group for history but drop out of the folio. */
+export const FOLIO_EXCLUDED_STATUSES = ["CANCELLED", "NO_SHOW"] as const;
+
+/**
+ * Master folio for a group: every member booking with its bill, confirmed payments, balance and
+ * credit, plus group totals. Throws when the group is missing or any member is outside the caller's
+ * property scope, so group actions never touch rooms the caller cannot see.
+ */
+export async function loadGroupFolio(db: Db, tenantId: string, groupId: string, scope: PropertyScope) {
+  const group = await db.bookingGroup.findFirst({
+    where: { id: groupId, tenantId },
+    include: {
+      bookings: {
+        orderBy: [{ checkIn: "asc" }, { createdAt: "asc" }],
+        select: {
+          id: true,
+          status: true,
+          paymentStatus: true,
+          checkIn: true,
+          checkOut: true,
+          totalAmount: true,
+          currency: true,
+          guestId: true,
+          guestName: true,
+          createdAt: true,
+          unit: { select: { id: true, name: true, propertyId: true, property: { select: { name: true } } } },
+          charges: {
+            where: { status: "OPEN" },
+            orderBy: { createdAt: "asc" },
+            select: { id: true, type: true, title: true, amount: true, currency: true, createdAt: true },
+          },
+          payments: {
+            where: { status: "CONFIRMED" },
+            orderBy: { paidAt: "asc" },
+            select: {
+              id: true,
+              amount: true,
+              currency: true,
+              method: true,
+              reference: true,
+              paidAt: true,
+              groupId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!group) throw new AppError("Booking group not found", 404, "GROUP_NOT_FOUND");
+
+  if (scope.propertyIds !== null) {
+    const allowed = new Set(scope.propertyIds);
+    if (group.bookings.some((b) => !allowed.has(b.unit.propertyId))) {
+      throw new AppError("You do not have access to every property in this group", 403, "PROPERTY_SCOPE_FORBIDDEN");
+    }
+  }
+
+  const rooms = group.bookings.map((b) => {
+    const inFolio = !(FOLIO_EXCLUDED_STATUSES as readonly string[]).includes(String(b.status));
+    const totalBill = inFolio
+      ? computeTotalBillFromBaseAndCharges(Number(b.totalAmount?.toString?.() ?? b.totalAmount ?? 0), b.charges)
+      : 0;
+    const paid = b.payments.reduce((sum, p) => sum + Number(p.amount?.toString?.() ?? p.amount ?? 0), 0);
+    // Excluded rooms only still owe their open charges (cancellation/no-show fee, extras);
+    // anything paid beyond that, or beyond an active room's bill, is credit, not group payment.
+    const retained = inFolio
+      ? totalBill
+      : b.charges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
+    return {
+      ...b,
+      inFolio,
+      totalBill: round2(totalBill),
+      paid: round2(paid),
+      outstanding: round2(Math.max(0, totalBill - paid)),
+      credit: round2(Math.max(0, paid - retained)),
+    };
+  });
+
+  const inFolioRooms = rooms.filter((r) => r.inFolio);
+  const totalBill = round2(inFolioRooms.reduce((sum, r) => sum + r.totalBill, 0));
+  // Each room's balance stands on its own so one room's credit never hides another room's debt.
+  const outstanding = round2(inFolioRooms.reduce((sum, r) => sum + r.outstanding, 0));
+
+  return {
+    group,
+    rooms,
+    totals: {
+      rooms: inFolioRooms.length,
+      totalBill,
+      // Payments applied to the folio bill, so totalBill - paid = outstanding.
+      paid: round2(totalBill - outstanding),
+      outstanding,
+      // Overpayments on active rooms plus payments left on cancelled/no-show rooms.
+      credit: round2(rooms.reduce((sum, r) => sum + r.credit, 0)),
+      currency: group.currency,
+    },
+  };
+}
+
+export type GroupFolio = Awaited<ReturnType<typeof loadGroupFolio>>;
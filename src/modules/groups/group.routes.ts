@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import {
+  addGroupCharge,
+  createBookingGroup,
+  getBookingGroup,
+  listBookingGroups,
+  recordGroupPayment,
+} from "./group.controller";
+
+export const groupRoutes = Router();
+
+groupRoutes.get("/booking-groups", requireAuth, requirePermission("bookings.view"), listBookingGroups);
+groupRoutes.post("/booking-groups", requireAuth, requirePermission("bookings.create"), createBookingGroup);
+groupRoutes.get("/booking-groups/:groupId", requireAuth, requirePermission("bookings.view"), getBookingGroup);
+groupRoutes.post(
+  "/booking-groups/:groupId/payments",
+  requireAuth,
+  requirePermission("payments.record"),
+  recordGroupPayment
+);
+groupRoutes.post(
+  "/booking-groups/:groupId/charges",
+  requireAuth,
+  requirePermission("charges.create"),
+  addGroupCharge
+);
@@ -1,7 +1,7 @@
 // src/modules/guests/guest.routes.ts
 import { Router } from "express";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import { createGuest, listGuests, updateGuest, getGuestById } from "./guest.controller";
 
 export const guestRoutes = Router();
@@ -10,7 +10,7 @@ export const guestRoutes = Router();
 guestRoutes.get(
   "/guests",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("guests.view"),
   listGuests
 );
 
@@ -18,7 +18,7 @@ guestRoutes.get(
 guestRoutes.post(
   "/guests",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("guests.manage"),
   createGuest
 );
 
@@ -26,7 +26,7 @@ guestRoutes.post(
 guestRoutes.get(
   "/guests/:id",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("guests.view"),
   getGuestById
 );
 
@@ -34,6 +34,6 @@ guestRoutes.get(
 guestRoutes.put(
   "/guests/:id",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("guests.manage"),
   updateGuest
 );
\ No newline at end of file
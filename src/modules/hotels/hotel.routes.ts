@@ -1,13 +1,13 @@
 import { Router } from "express";
 import { createHotel } from "./hotel.controller";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 
 export const hotelRoutes = Router();
 
 hotelRoutes.post(
   "/hotels",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("hotels.create"),
   createHotel
 );
@@ -0,0 +1,438 @@
+import type { Request, Response } from "express";
+import type { HousekeepingStatus, HousekeepingTaskStatus } from "@prisma/client";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { assertPropertyInScope, resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { hasPermission } from "../../middleware/permission.middleware";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { ACTIVE_TASK_STATUSES, READY_HOUSEKEEPING_STATUSES, setUnitHousekeepingStatus } from "./housekeeping.status";
+
+const HOUSEKEEPING_STATUSES: readonly HousekeepingStatus[] = ["DIRTY", "CLEANING", "CLEAN", "INSPECTED"];
+const TASK_STATUSES: readonly HousekeepingTaskStatus[] = ["OPEN", "IN_PROGRESS", "DONE", "CANCELLED"];
+
+/** DONE and CANCELLED are final; a task can be finished without being started first. */
+const TASK_TRANSITIONS: Record<HousekeepingTaskStatus, readonly HousekeepingTaskStatus[]> = {
+  OPEN: ["IN_PROGRESS", "DONE", "CANCELLED"],
+  IN_PROGRESS: ["OPEN", "DONE", "CANCELLED"],
+  DONE: [],
+  CANCELLED: [],
+};
+
+const taskSelect = {
+  id: true,
+  unitId: true,
+  bookingId: true,
+  title: true,
+  notes: true,
+  status: true,
+  assignedToUserId: true,
+  createdByUserId: true,
+  dueAt: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  unit: { select: { id: true, name: true, propertyId: true, housekeepingStatus: true } },
+  assignedTo: { select: { id: true, fullName: true, email: true } },
+} as const;
+
+function startOfDay(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+function addDays(d: Date, days: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + days);
+  return x;
+}
+
+function parseOptionalDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return null;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function parseOptionalText(value: unknown) {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+function parseHousekeepingStatus(value: unknown) {
+  const status = String(value ?? "").trim().toUpperCase() as HousekeepingStatus;
+  if (!HOUSEKEEPING_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of ${HOUSEKEEPING_STATUSES.join(", ")}`, 400, "VALIDATION_ERROR");
+  }
+  return status;
+}
+
+function parseTaskStatus(value: unknown) {
+  const status = String(value ?? "").trim().toUpperCase() as HousekeepingTaskStatus;
+  if (!TASK_STATUSES.includes(status)) {
+    throw new AppError(`status must be one of ${TASK_STATUSES.join(", ")}`, 400, "VALIDATION_ERROR");
+  }
+  return status;
+}
+
+async function findUnitInScope(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, unitId: string) {
+  const unit = await db.raw.unit.findFirst({
+    where: { id: unitId, tenantId, ...scopedUnitWhere(scope) },
+    select: { id: true, name: true, propertyId: true, housekeepingStatus: true },
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+  return unit;
+}
+
+/**
+ * Tasks go to STAFF users whose assignedPropertyIds include the unit's property, so the
+ * assignee can actually open the task and the board for that property.
+ */
+async function assertAssignable(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  userId: string,
+  propertyId: string
+) {
+  const assignee = await db.raw.user.findFirst({
+    where: { id: userId, tenantId },
+    select: { id: true, role: true, status: true, assignedPropertyIds: true },
+  });
+  if (!assignee) throw new AppError("Assignee not found", 404, "USER_NOT_FOUND");
+  if (assignee.status !== "ACTIVE" || assignee.role !== "STAFF") {
+    throw new AppError("Housekeeping tasks can only be assigned to active STAFF users", 400, "INVALID_ASSIGNEE");
+  }
+  if (!assignee.assignedPropertyIds.includes(propertyId)) {
+    throw new AppError("Assignee is not assigned to this unit's property", 400, "INVALID_ASSIGNEE", { propertyId });
+  }
+  return assignee.id;
+}
+
+/**
+ * Finishing the last open task on a unit makes it CLEAN; starting one marks it CLEANING.
+ * Cancelling leaves the unit status alone.
+ */
+async function syncUnitFromTask(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  unitId: string,
+  status: HousekeepingTaskStatus
+) {
+  if (status === "IN_PROGRESS") {
+    await setUnitHousekeepingStatus(db.raw, tenantId, unitId, "CLEANING");
+    return;
+  }
+  if (status !== "DONE") return;
+
+  const remaining = await db.raw.housekeepingTask.count({
+    where: { tenantId, unitId, status: { in: [...ACTIVE_TASK_STATUSES] } },
+  });
+  if (remaining === 0) await setUnitHousekeepingStatus(db.raw, tenantId, unitId, "CLEAN");
+}
+
+/**
+ * GET /api/housekeeping/board?propertyId=
+ * Room status board for one property: every unit's housekeeping state, who is in it, who arrives
+ * today, maintenance blocks and the open tasks. Dirty units with an arrival today come first.
+ */
+export const getHousekeepingBoard = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+
+  const propertyId = String(req.query.propertyId ?? "").trim();
+  if (!propertyId) throw new AppError("propertyId is required", 400, "VALIDATION_ERROR");
+  assertPropertyInScope(scope, propertyId);
+
+  const property = await db.raw.property.findFirst({ where: { id: propertyId, tenantId }, select: { id: true, name: true } });
+  if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
+
+  const now = new Date();
+  const todayStart = startOfDay(now);
+  const tomorrowStart = addDays(todayStart, 1);
+
+  const units = await db.raw.unit.findMany({
+    where: { tenantId, propertyId },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      housekeepingStatus: true,
+      housekeepingUpdatedAt: true,
+      bookings: {
+        where: {
+          OR: [
+            { status: "CHECKED_IN" },
+            { status: { in: ["PENDING", "CONFIRMED"] }, checkIn: { gte: todayStart, lt: tomorrowStart } },
+          ],
+        },
+        orderBy: { checkIn: "asc" },
+        select: { id: true, status: true, guestName: true, checkIn: true, checkOut: true },
+      },
+      blocks: {
+        where: { startDate: { lte: now }, endDate: { gt: now } },
+        orderBy: { startDate: "asc" },
+        take: 1,
+        select: { id: true, reason: true, startDate: true, endDate: true },
+      },
+      housekeepingTasks: {
+        where: { status: { in: [...ACTIVE_TASK_STATUSES] } },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          dueAt: true,
+          assignedTo: { select: { id: true, fullName: true } },
+        },
+      },
+    },
+  });
+
+  const rows = units.map((u) => {
+    const inHouse = u.bookings.find((b) => b.status === "CHECKED_IN") ?? null;
+    const arrival = u.bookings.find((b) => b.status !== "CHECKED_IN") ?? null;
+    const block = u.blocks[0] ?? null;
+    return {
+      unitId: u.id,
+      name: u.name,
+      type: u.type,
+      housekeepingStatus: u.housekeepingStatus,
+      housekeepingUpdatedAt: u.housekeepingUpdatedAt,
+      ready: READY_HOUSEKEEPING_STATUSES.includes(u.housekeepingStatus) && !block,
+      occupied: inHouse
+        ? {
+            bookingId: inHouse.id,
+            guestName: inHouse.guestName,
+            checkOut: inHouse.checkOut,
+            departsToday: inHouse.checkOut < tomorrowStart,
+          }
+        : null,
+      arrivalToday: arrival ? { bookingId: arrival.id, guestName: arrival.guestName, checkIn: arrival.checkIn } : null,
+      outOfOrder: block ? { blockId: block.id, reason: block.reason, from: block.startDate, to: block.endDate } : null,
+      tasks: u.housekeepingTasks,
+    };
+  });
+
+  const priority = (r: (typeof rows)[number]) => (r.arrivalToday && !r.ready && !r.outOfOrder ? 0 : 1);
+  rows.sort((a, b) => priority(a) - priority(b));
+
+  const byStatus: Record<HousekeepingStatus, number> = { DIRTY: 0, CLEANING: 0, CLEAN: 0, INSPECTED: 0 };
+  for (const r of rows) byStatus[r.housekeepingStatus] += 1;
+
+  res.json({
+    property,
+    generatedAt: now,
+    units: rows,
+    summary: {
+      totalUnits: rows.length,
+      ...byStatus,
+      outOfOrder: rows.filter((r) => r.outOfOrder).length,
+      arrivalsNotReady: rows.filter((r) => priority(r) === 0).length,
+      openTasks: rows.reduce((sum, r) => sum + r.tasks.length, 0),
+    },
+  });
+});
+
+/**
+ * PATCH /api/housekeeping/units/:unitId/status
+ * Body: { status }  (DIRTY | CLEANING | CLEAN | INSPECTED)
+ */
+export const updateUnitHousekeepingStatus = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+  const status = parseHousekeepingStatus(req.body?.status);
+
+  await setUnitHousekeepingStatus(db.raw, tenantId, unit.id, status);
+
+  logger.info(
+    {
+      event: "audit.housekeeping_status_set",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      from: unit.housekeepingStatus,
+      to: status,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit housekeeping status set"
+  );
+
+  const updated = await findUnitInScope(db, tenantId, scope, unit.id);
+  res.json({ unit: updated });
+});
+
+/**
+ * GET /api/housekeeping/tasks?propertyId=&status=&assignedToUserId=
+ * Without housekeeping.manage only the caller's own tasks are listed. Defaults to open tasks.
+ */
+export const listHousekeepingTasks = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  if (propertyId) assertPropertyInScope(scope, propertyId);
+
+  const statusQ = String(req.query.status ?? "").trim();
+  const statuses = statusQ ? statusQ.split(",").map(parseTaskStatus) : [...ACTIVE_TASK_STATUSES];
+
+  const canManage = hasPermission(req, "housekeeping.manage");
+  const assignedToUserId = canManage
+    ? String(req.query.assignedToUserId ?? "").trim() || null
+    : String(user?.userId ?? "");
+
+  const tasks = await db.raw.housekeepingTask.findMany({
+    where: {
+      tenantId,
+      status: { in: statuses },
+      unit: { ...scopedUnitWhere(scope), ...(propertyId ? { propertyId } : {}) },
+      ...(assignedToUserId ? { assignedToUserId } : {}),
+    },
+    orderBy: [{ dueAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    select: taskSelect,
+  });
+
+  res.json({ tasks });
+});
+
+/**
+ * POST /api/housekeeping/tasks
+ * Body: { unitId, title?, notes?, assignedToUserId?, dueAt? }
+ */
+export const createHousekeepingTask = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const body = req.body ?? {};
+
+  const unitId = String(body.unitId ?? "").trim();
+  if (!unitId) throw new AppError("unitId is required", 400, "VALIDATION_ERROR");
+  const unit = await findUnitInScope(db, tenantId, scope, unitId);
+
+  const title = parseOptionalText(body.title) ?? "Clean room";
+  if (title.length > 120) throw new AppError("title must be at most 120 characters", 400, "VALIDATION_ERROR");
+  const assigneeId = parseOptionalText(body.assignedToUserId);
+
+  const task = await db.raw.housekeepingTask.create({
+    data: {
+      tenantId,
+      unitId: unit.id,
+      title,
+      notes: parseOptionalText(body.notes),
+      dueAt: parseOptionalDate(body.dueAt, "dueAt"),
+      assignedToUserId: assigneeId ? await assertAssignable(db, tenantId, assigneeId, unit.propertyId) : null,
+      createdByUserId: user?.userId ?? null,
+    },
+    select: taskSelect,
+  });
+
+  logger.info(
+    {
+      event: "audit.housekeeping_task_created",
+      requestId: req.requestId,
+      tenantId,
+      taskId: task.id,
+      unitId: unit.id,
+      assignedToUserId: task.assignedToUserId,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit housekeeping task created"
+  );
+
+  res.status(201).json({ task });
+});
+
+/**
+ * PATCH /api/housekeeping/tasks/:taskId
+ * Body: { status?, notes?, title?, assignedToUserId?, dueAt? }
+ * The assignee may move their own task through status and notes; everything else, and any
+ * other user's task, needs housekeeping.manage.
+ */
+export const updateHousekeepingTask = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const body = req.body ?? {};
+
+  const current = await db.raw.housekeepingTask.findFirst({
+    where: { id: String(req.params.taskId), tenantId, unit: scopedUnitWhere(scope) },
+    select: taskSelect,
+  });
+  if (!current) throw new AppError("Housekeeping task not found", 404, "HOUSEKEEPING_TASK_NOT_FOUND");
+
+  const canManage = hasPermission(req, "housekeeping.manage");
+  const isAssignee = !!user?.userId && current.assignedToUserId === user.userId;
+  const managerOnly = ["title", "assignedToUserId", "dueAt"].filter((k) => body[k] !== undefined);
+  if (!canManage && (!isAssignee || managerOnly.length > 0)) {
+    throw new AppError("You are not allowed to change this task", 403, "FORBIDDEN", {
+      missingPermissions: ["housekeeping.manage"],
+    });
+  }
+
+  const data: any = {};
+  if (body.title !== undefined) {
+    const title = parseOptionalText(body.title);
+    if (!title) throw new AppError("title must be a non-empty string", 400, "VALIDATION_ERROR");
+    data.title = title;
+  }
+  if (body.notes !== undefined) data.notes = parseOptionalText(body.notes);
+  if (body.dueAt !== undefined) data.dueAt = parseOptionalDate(body.dueAt, "dueAt");
+  if (body.assignedToUserId !== undefined) {
+    const assigneeId = parseOptionalText(body.assignedToUserId);
+    data.assignedToUserId = assigneeId
+      ? await assertAssignable(db, tenantId, assigneeId, current.unit.propertyId)
+      : null;
+  }
+
+  let nextStatus: HousekeepingTaskStatus | null = null;
+  if (body.status !== undefined) {
+    nextStatus = parseTaskStatus(body.status);
+    if (nextStatus !== current.status) {
+      if (!TASK_TRANSITIONS[current.status].includes(nextStatus)) {
+        throw new AppError(`Task cannot move from ${current.status} to ${nextStatus}`, 409, "INVALID_TASK_STATE", {
+          from: current.status,
+          to: nextStatus,
+          allowed: TASK_TRANSITIONS[current.status],
+        });
+      }
+      data.status = nextStatus;
+      if (nextStatus === "IN_PROGRESS") data.startedAt = current.startedAt ?? new Date();
+      if (nextStatus === "DONE") data.completedAt = new Date();
+    }
+  }
+
+  if (Object.keys(data).length === 0) {
+    res.json({ task: current });
+    return;
+  }
+
+  await db.raw.housekeepingTask.update({ where: { id: current.id }, data });
+  if (data.status) await syncUnitFromTask(db, tenantId, current.unitId, data.status);
+
+  logger.info(
+    {
+      event: "audit.housekeeping_task_updated",
+      requestId: req.requestId,
+      tenantId,
+      taskId: current.id,
+      unitId: current.unitId,
+      changes: Object.keys(data),
+      status: data.status ?? current.status,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit housekeeping task updated"
+  );
+
+  const task = await db.raw.housekeepingTask.findUnique({ where: { id: current.id }, select: taskSelect });
+  res.json({ task });
+});
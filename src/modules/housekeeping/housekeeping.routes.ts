@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import {
+  createHousekeepingTask,
+  getHousekeepingBoard,
+  listHousekeepingTasks,
+  updateHousekeepingTask,
+  updateUnitHousekeepingStatus,
+} from "./housekeeping.controller";
+
+export const housekeepingRoutes = Router();
+
+housekeepingRoutes.get("/housekeeping/board", requireAuth, requirePermission("housekeeping.view"), getHousekeepingBoard);
+housekeepingRoutes.patch(
+  "/housekeeping/units/:unitId/status",
+  requireAuth,
+  requirePermission("housekeeping.manage"),
+  updateUnitHousekeepingStatus
+);
+
+housekeepingRoutes.get("/housekeeping/tasks", requireAuth, requirePermission("housekeeping.view"), listHousekeepingTasks);
+housekeepingRoutes.post("/housekeeping/tasks", requireAuth, requirePermission("housekeeping.manage"), createHousekeepingTask);
+housekeepingRoutes.patch("/housekeeping/tasks/:taskId", requireAuth, requirePermission("housekeeping.view"), updateHousekeepingTask);
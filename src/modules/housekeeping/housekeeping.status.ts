@@ -0,0 +1,77 @@
+// src/modules/housekeeping/housekeeping.status.ts
+import type { HousekeepingStatus, Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Unit states a guest can be checked into without a warning. */
+export const READY_HOUSEKEEPING_STATUSES: readonly HousekeepingStatus[] = ["CLEAN", "INSPECTED"];
+
+/** Tasks that still need someone to do them; they keep the unit off the ready list. */
+export const ACTIVE_TASK_STATUSES = ["OPEN", "IN_PROGRESS"] as const;
+
+export type HousekeepingWarning = {
+  code: "UNIT_NOT_CLEAN";
+  unitId: string;
+  housekeepingStatus: HousekeepingStatus;
+};
+
+export async function setUnitHousekeepingStatus(db: Db, tenantId: string, unitId: string, status: HousekeepingStatus) {
+  await db.unit.updateMany({
+    where: { id: unitId, tenantId },
+    data: { housekeepingStatus: status, housekeepingUpdatedAt: new Date() },
+  });
+}
+
+/**
+ * Checkout leaves the room DIRTY and opens an unassigned cleaning task for it, unless one is
+ * already open for the unit.
+ */
+export async function markUnitDirtyAfterCheckout(
+  db: Db,
+  input: { tenantId: string; unitId: string; bookingId: string; actorUserId?: string | null }
+) {
+  await setUnitHousekeepingStatus(db, input.tenantId, input.unitId, "DIRTY");
+
+  const existing = await db.housekeepingTask.findFirst({
+    where: { tenantId: input.tenantId, unitId: input.unitId, status: { in: [...ACTIVE_TASK_STATUSES] } },
+    select: { id: true },
+  });
+  if (existing) return existing;
+
+  return db.housekeepingTask.create({
+    data: {
+      tenantId: input.tenantId,
+      unitId: input.unitId,
+      bookingId: input.bookingId,
+      title: "Checkout clean",
+      createdByUserId: input.actorUserId ?? null,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Check-in guard. A unit that is not CLEAN or INSPECTED throws UNIT_NOT_CLEAN (409) unless the
+ * desk passes `ignoreHousekeeping`, in which case the warning is returned for the response.
+ */
+export async function checkUnitReadyForCheckIn(
+  db: Db,
+  input: { tenantId: string; unitId: string; ignoreHousekeeping: boolean }
+): Promise<HousekeepingWarning | null> {
+  const unit = await db.unit.findFirst({
+    where: { id: input.unitId, tenantId: input.tenantId },
+    select: { id: true, name: true, housekeepingStatus: true },
+  });
+  if (!unit || READY_HOUSEKEEPING_STATUSES.includes(unit.housekeepingStatus)) return null;
+
+  if (!input.ignoreHousekeeping) {
+    throw new AppError(
+      `Unit ${unit.name} is ${unit.housekeepingStatus}; pass ignoreHousekeeping to check in anyway`,
+      409,
+      "UNIT_NOT_CLEAN",
+      { unitId: unit.id, housekeepingStatus: unit.housekeepingStatus }
+    );
+  }
+  return { code: "UNIT_NOT_CLEAN", unitId: unit.id, housekeepingStatus: unit.housekeepingStatus };
+}
@@ -2,28 +2,6 @@ import type { NextFunction, Request, Response } from "express";
 import type { LeadStatus } from "@prisma/client";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
-import { isSuperAdminEmail } from "../../common/auth/superadmin";
-
-type Role = "ADMIN" | "MANAGER" | "STAFF";
-type JwtUser = { userId: string; tenantId: string; role: Role };
-
-function getActor(req: Request): JwtUser {
-  const u = (req as any).user as JwtUser | undefined;
-  if (!u) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
-  return u;
-}
-
-async function requireSuperAdmin(req: Request) {
-  const actor = getActor(req);
-  const actorUser = await prisma.user.findFirst({
-    where: { id: actor.userId, tenantId: actor.tenantId },
-    select: { email: true },
-  });
-  if (!actorUser) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
-  if (!isSuperAdminEmail(actorUser.email)) {
-    throw new AppError("Super admin access required", 403, "SUPERADMIN_REQUIRED");
-  }
-}
 
 function safeLead(l: any) {
   return {
@@ -65,8 +43,6 @@ function normalizeWhere(search: string, status?: LeadStatus) {
 
 export async function listLeads(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const search = String(req.query.search || "").trim();
     const statusQuery = String(req.query.status || "").trim().toUpperCase();
     const status = ["NEW", "CONTACTED", "QUALIFIED", "WON", "LOST"].includes(statusQuery)
@@ -120,7 +96,6 @@ export async function listLeads(req: Request, res: Response, next: NextFunction)
 
 export async function getLeadById(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
     const id = String(req.params.id || "").trim();
     if (!id) throw new AppError("Lead id is required", 400, "VALIDATION_ERROR");
 
@@ -135,7 +110,6 @@ export async function getLeadById(req: Request, res: Response, next: NextFunctio
 
 export async function updateLead(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
     const id = String(req.params.id || "").trim();
     if (!id) throw new AppError("Lead id is required", 400, "VALIDATION_ERROR");
 
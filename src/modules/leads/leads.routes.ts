@@ -1,9 +1,10 @@
 import { Router } from "express";
-import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePlatformAuth } from "../../middleware/platform-auth.middleware";
 import { getLeadById, listLeads, updateLead } from "./leads.controller";
 
 export const leadsRoutes = Router();
 
-leadsRoutes.get("/leads", requireAuth, listLeads);
-leadsRoutes.get("/leads/:id", requireAuth, getLeadById);
-leadsRoutes.patch("/leads/:id", requireAuth, updateLead);
+// Leads are platform data: mounted before tenantMiddleware and only visible to platform operators.
+leadsRoutes.get("/leads", requirePlatformAuth, listLeads);
+leadsRoutes.get("/leads/:id", requirePlatformAuth, getLeadById);
+leadsRoutes.patch("/leads/:id", requirePlatformAuth, updateLead);
@@ -0,0 +1,427 @@
+import type { Request, Response } from "express";
+import path from "path";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { assertPropertyInScope, resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { createPresignedPutUrl, isS3StorageEnabled } from "../../common/storage/object-storage";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import {
+  ALLOWED_MEDIA_MIME,
+  MAX_GALLERY_ITEMS,
+  MAX_MEDIA_BYTES,
+  galleryOrderBy,
+  galleryWhere,
+  isKeyInPrefix,
+  mediaSelect,
+  mediaUrl,
+  removeStoredImage,
+  safeImageExt,
+  storeUploadedImage,
+  storedImageExists,
+  withMediaUrls,
+} from "./media.service";
+import type { Gallery, UploadedFile } from "./media.service";
+
+type TenantDb = ReturnType<typeof prismaForTenant>;
+
+function parseCaption(value: unknown) {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") throw new AppError("caption must be a string", 400, "VALIDATION_ERROR");
+  const caption = value.trim();
+  if (caption.length > 200) throw new AppError("caption must be at most 200 characters", 400, "VALIDATION_ERROR");
+  return caption || null;
+}
+
+/**
+ * Routes are mounted twice: under /properties/:propertyId (property gallery) and /units/:unitId
+ * (unit gallery). Either way the caller must have the property in scope.
+ */
+async function loadGallery(db: TenantDb, tenantId: string, scope: PropertyScope, req: Request) {
+  if (req.params.unitId) {
+    const unit = await db.raw.unit.findFirst({
+      where: { id: String(req.params.unitId), tenantId, ...scopedUnitWhere(scope) },
+      select: { id: true, propertyId: true },
+    });
+    if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+    return { propertyId: unit.propertyId, unitId: unit.id };
+  }
+
+  const propertyId = String(req.params.propertyId);
+  assertPropertyInScope(scope, propertyId);
+  const property = await db.raw.property.findFirst({ where: { id: propertyId, tenantId }, select: { id: true } });
+  if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
+  return { propertyId: property.id, unitId: null };
+}
+
+function galleryKeyPrefix(tenantId: string, gallery: Gallery) {
+  const dir = gallery.unitId
+    ? path.join("tenants", tenantId, "units", gallery.unitId, "media")
+    : path.join("tenants", tenantId, "properties", gallery.propertyId, "media");
+  return dir.replace(/\\/g, "/");
+}
+
+async function loadMedia(db: TenantDb, tenantId: string, gallery: Gallery, mediaId: string) {
+  const media = await db.raw.mediaAsset.findFirst({
+    where: { id: mediaId, ...galleryWhere(tenantId, gallery) },
+    select: mediaSelect,
+  });
+  if (!media) throw new AppError("Media not found", 404, "MEDIA_NOT_FOUND");
+  return media;
+}
+
+/**
+ * Appends to the end of the gallery; the first image of a gallery becomes its cover.
+ */
+async function addMediaToGallery(
+  db: TenantDb,
+  tenantId: string,
+  gallery: Gallery,
+  input: { key: string; mime: string | null; size: number | null; caption: string | null; createdByUserId: string | null }
+) {
+  return db.raw.$transaction(async (tx) => {
+    const existing = await tx.mediaAsset.findMany({
+      where: galleryWhere(tenantId, gallery),
+      select: { sortOrder: true, isCover: true },
+    });
+    if (existing.length >= MAX_GALLERY_ITEMS) {
+      throw new AppError(`A gallery can hold at most ${MAX_GALLERY_ITEMS} images`, 409, "GALLERY_FULL");
+    }
+
+    return tx.mediaAsset.create({
+      data: {
+        tenantId,
+        propertyId: gallery.propertyId,
+        unitId: gallery.unitId,
+        key: input.key,
+        mime: input.mime,
+        size: input.size,
+        caption: input.caption,
+        sortOrder: existing.reduce((max, m) => Math.max(max, m.sortOrder + 1), 0),
+        isCover: !existing.some((m) => m.isCover),
+        createdByUserId: input.createdByUserId,
+      },
+      select: mediaSelect,
+    });
+  });
+}
+
+/**
+ * GET /api/properties/:propertyId/media
+ * GET /api/units/:unitId/media
+ */
+export const listMedia = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const gallery = await loadGallery(db, tenantId, scope, req);
+
+  const media = await db.raw.mediaAsset.findMany({
+    where: galleryWhere(tenantId, gallery),
+    orderBy: galleryOrderBy,
+    select: mediaSelect,
+  });
+
+  res.json({ media: await withMediaUrls(media) });
+});
+
+/**
+ * POST /api/properties/:propertyId/media
+ * POST /api/units/:unitId/media
+ * Expects multer to populate req.file (field name: "file"). Optional body field caption.
+ */
+export const uploadMedia = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+
+  const file = (req as any).file as UploadedFile | undefined;
+  if (!file) throw new AppError("No image uploaded", 400, "VALIDATION_ERROR");
+
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  const caption = parseCaption(req.body?.caption);
+
+  const key = `${galleryKeyPrefix(tenantId, gallery)}/${Date.now()}.${safeImageExt(file.mimetype)}`;
+  await storeUploadedImage(key, file);
+
+  const media = await addMediaToGallery(db, tenantId, gallery, {
+    key,
+    mime: file.mimetype,
+    size: file.size,
+    caption,
+    createdByUserId: user?.userId ?? null,
+  });
+
+  logger.info(
+    {
+      event: "audit.media_added",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: gallery.propertyId,
+      unitId: gallery.unitId,
+      mediaId: media.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit media added"
+  );
+
+  res.status(201).json({ media: { ...media, url: await mediaUrl(media.key) } });
+});
+
+/**
+ * POST /api/properties/:propertyId/media/presign
+ * POST /api/units/:unitId/media/presign
+ * Body: { contentType, fileSize? }. Direct-to-S3 upload; finish with .../media/confirm.
+ */
+export const presignMediaUpload = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const { contentType, fileSize } = req.body ?? {};
+
+  if (!isS3StorageEnabled()) {
+    throw new AppError("Direct upload is available only when STORAGE_DRIVER=S3", 400, "STORAGE_NOT_CONFIGURED");
+  }
+  if (!contentType || typeof contentType !== "string" || !ALLOWED_MEDIA_MIME.has(contentType)) {
+    throw new AppError("contentType must be image/jpeg, image/jpg or image/png", 400, "VALIDATION_ERROR");
+  }
+  const parsedSize = Number(fileSize ?? 0);
+  if (Number.isFinite(parsedSize) && parsedSize > MAX_MEDIA_BYTES) {
+    throw new AppError("Image must be 1MB or less", 400, "FILE_TOO_LARGE");
+  }
+
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  const mediaKey = `${galleryKeyPrefix(tenantId, gallery)}/${Date.now()}.${safeImageExt(contentType)}`;
+
+  const { uploadUrl, expiresIn } = await createPresignedPutUrl({ key: mediaKey, contentType, expiresInSec: 300 });
+
+  res.json({
+    method: "PUT",
+    uploadUrl,
+    expiresInSeconds: expiresIn,
+    mediaKey,
+    requiredHeaders: {
+      "Content-Type": contentType,
+    },
+  });
+});
+
+/**
+ * POST /api/properties/:propertyId/media/confirm
+ * POST /api/units/:unitId/media/confirm
+ * Body: { mediaKey, mime?, size?, caption? }
+ */
+export const confirmMediaUpload = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const { mediaKey, mime, size, caption } = req.body ?? {};
+
+  if (!mediaKey || typeof mediaKey !== "string") {
+    throw new AppError("mediaKey is required", 400, "VALIDATION_ERROR");
+  }
+  if (mime !== undefined && mime !== null && (typeof mime !== "string" || !ALLOWED_MEDIA_MIME.has(mime))) {
+    throw new AppError("mime must be image/jpeg, image/jpg or image/png", 400, "VALIDATION_ERROR");
+  }
+  const parsedSize = Number(size ?? 0);
+  if (Number.isFinite(parsedSize) && parsedSize > MAX_MEDIA_BYTES) {
+    throw new AppError("Image must be 1MB or less", 400, "FILE_TOO_LARGE");
+  }
+
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  // Only the file name presign handed out: no extra path segments, `..` or backslashes.
+  if (!isKeyInPrefix(galleryKeyPrefix(tenantId, gallery), mediaKey)) {
+    throw new AppError("mediaKey is invalid for this gallery", 400, "VALIDATION_ERROR");
+  }
+  if (!(await storedImageExists(mediaKey))) {
+    throw new AppError("Uploaded image not found in storage. Retry upload.", 400, "STORAGE_OBJECT_MISSING");
+  }
+
+  const media = await addMediaToGallery(db, tenantId, gallery, {
+    key: mediaKey,
+    mime: typeof mime === "string" ? mime : null,
+    size: Number.isFinite(parsedSize) && parsedSize > 0 ? parsedSize : null,
+    caption: parseCaption(caption),
+    createdByUserId: user?.userId ?? null,
+  }).catch((err: any) => {
+    if (err?.code === "P2002") throw new AppError("This upload was already confirmed", 409, "MEDIA_ALREADY_CONFIRMED");
+    throw err;
+  });
+
+  logger.info(
+    {
+      event: "audit.media_added",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: gallery.propertyId,
+      unitId: gallery.unitId,
+      mediaId: media.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit media added"
+  );
+
+  res.status(201).json({ media: { ...media, url: await mediaUrl(media.key) } });
+});
+
+/**
+ * PUT /api/properties/:propertyId/media/order
+ * PUT /api/units/:unitId/media/order
+ * Body: { mediaIds: string[] } listing every image of the gallery in the new order.
+ */
+export const reorderMedia = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const gallery = await loadGallery(db, tenantId, scope, req);
+
+  const mediaIds = req.body?.mediaIds;
+  if (!Array.isArray(mediaIds) || mediaIds.some((id) => typeof id !== "string")) {
+    throw new AppError("mediaIds must be an array of media ids", 400, "VALIDATION_ERROR");
+  }
+
+  const current = await db.raw.mediaAsset.findMany({ where: galleryWhere(tenantId, gallery), select: { id: true } });
+  const currentIds = new Set(current.map((m) => m.id));
+  if (new Set(mediaIds).size !== mediaIds.length || mediaIds.length !== currentIds.size || !mediaIds.every((id) => currentIds.has(id))) {
+    throw new AppError("mediaIds must list every image in the gallery exactly once", 400, "VALIDATION_ERROR");
+  }
+
+  await db.raw.$transaction(
+    mediaIds.map((id: string, index: number) =>
+      db.raw.mediaAsset.update({ where: { id }, data: { sortOrder: index }, select: { id: true } })
+    )
+  );
+
+  const media = await db.raw.mediaAsset.findMany({
+    where: galleryWhere(tenantId, gallery),
+    orderBy: galleryOrderBy,
+    select: mediaSelect,
+  });
+
+  logger.info(
+    {
+      event: "audit.media_reordered",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: gallery.propertyId,
+      unitId: gallery.unitId,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit media reordered"
+  );
+
+  res.json({ media: await withMediaUrls(media) });
+});
+
+/**
+ * POST /api/properties/:propertyId/media/:mediaId/cover
+ * POST /api/units/:unitId/media/:mediaId/cover
+ */
+export const setMediaCover = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  const current = await loadMedia(db, tenantId, gallery, String(req.params.mediaId));
+
+  const media = await db.raw.$transaction(async (tx) => {
+    // Clear the old cover first; one cover per gallery is a unique index.
+    await tx.mediaAsset.updateMany({
+      where: { ...galleryWhere(tenantId, gallery), isCover: true, id: { not: current.id } },
+      data: { isCover: false },
+    });
+    return tx.mediaAsset.update({ where: { id: current.id }, data: { isCover: true }, select: mediaSelect });
+  });
+
+  logger.info(
+    {
+      event: "audit.media_cover_set",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: gallery.propertyId,
+      unitId: gallery.unitId,
+      mediaId: media.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit media cover set"
+  );
+
+  res.json({ media: { ...media, url: await mediaUrl(media.key) } });
+});
+
+/**
+ * PATCH /api/properties/:propertyId/media/:mediaId
+ * PATCH /api/units/:unitId/media/:mediaId
+ * Body: { caption }
+ */
+export const updateMedia = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  const current = await loadMedia(db, tenantId, gallery, String(req.params.mediaId));
+
+  const media = await db.raw.mediaAsset.update({
+    where: { id: current.id },
+    data: { caption: parseCaption(req.body?.caption) },
+    select: mediaSelect,
+  });
+
+  res.json({ media: { ...media, url: await mediaUrl(media.key) } });
+});
+
+/**
+ * DELETE /api/properties/:propertyId/media/:mediaId
+ * DELETE /api/units/:unitId/media/:mediaId
+ * Removing the cover promotes the next image in the gallery.
+ */
+export const deleteMedia = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const gallery = await loadGallery(db, tenantId, scope, req);
+  const media = await loadMedia(db, tenantId, gallery, String(req.params.mediaId));
+
+  await db.raw.$transaction(async (tx) => {
+    await tx.mediaAsset.delete({ where: { id: media.id } });
+    if (!media.isCover) return;
+
+    const next = await tx.mediaAsset.findFirst({
+      where: galleryWhere(tenantId, gallery),
+      orderBy: galleryOrderBy,
+      select: { id: true },
+    });
+    if (next) await tx.mediaAsset.update({ where: { id: next.id }, data: { isCover: true } });
+  });
+
+  // The record is gone either way; a leftover object is only wasted space.
+  try {
+    await removeStoredImage(media.key);
+  } catch (err) {
+    logger.warn(
+      { event: "storage.media_delete_failed", tenantId, mediaId: media.id, key: media.key, error: String(err) },
+      "Failed to delete media object"
+    );
+  }
+
+  logger.info(
+    {
+      event: "audit.media_deleted",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: gallery.propertyId,
+      unitId: gallery.unitId,
+      mediaId: media.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit media deleted"
+  );
+
+  res.status(204).send();
+});
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import { imageUpload } from "../../middleware/image.middleware";
+import {
+  confirmMediaUpload,
+  deleteMedia,
+  listMedia,
+  presignMediaUpload,
+  reorderMedia,
+  setMediaCover,
+  updateMedia,
+  uploadMedia,
+} from "./media.controller";
+
+export const mediaRoutes = Router();
+
+/* =========================
+   PROPERTY GALLERY
+========================= */
+
+mediaRoutes.get("/properties/:propertyId/media", requireAuth, requirePermission("properties.view"), listMedia);
+mediaRoutes.post(
+  "/properties/:propertyId/media",
+  requireAuth,
+  requirePermission("properties.update"),
+  imageUpload({ maxSizeKb: 1024 }).single("file"),
+  uploadMedia
+);
+mediaRoutes.post("/properties/:propertyId/media/presign", requireAuth, requirePermission("properties.update"), presignMediaUpload);
+mediaRoutes.post("/properties/:propertyId/media/confirm", requireAuth, requirePermission("properties.update"), confirmMediaUpload);
+mediaRoutes.put("/properties/:propertyId/media/order", requireAuth, requirePermission("properties.update"), reorderMedia);
+mediaRoutes.post("/properties/:propertyId/media/:mediaId/cover", requireAuth, requirePermission("properties.update"), setMediaCover);
+mediaRoutes.patch("/properties/:propertyId/media/:mediaId", requireAuth, requirePermission("properties.update"), updateMedia);
+mediaRoutes.delete("/properties/:propertyId/media/:mediaId", requireAuth, requirePermission("properties.update"), deleteMedia);
+
+/* =========================
+   UNIT GALLERY
+========================= */
+
+mediaRoutes.get("/units/:unitId/media", requireAuth, requirePermission("units.view"), listMedia);
+mediaRoutes.post(
+  "/units/:unitId/media",
+  requireAuth,
+  requirePermission("units.manage"),
+  imageUpload({ maxSizeKb: 1024 }).single("file"),
+  uploadMedia
+);
+mediaRoutes.post("/units/:unitId/media/presign", requireAuth, requirePermission("units.manage"), presignMediaUpload);
+mediaRoutes.post("/units/:unitId/media/confirm", requireAuth, requirePermission("units.manage"), confirmMediaUpload);
+mediaRoutes.put("/units/:unitId/media/order", requireAuth, requirePermission("units.manage"), reorderMedia);
+mediaRoutes.post("/units/:unitId/media/:mediaId/cover", requireAuth, requirePermission("units.manage"), setMediaCover);
+mediaRoutes.patch("/units/:unitId/media/:mediaId", requireAuth, requirePermission("units.manage"), updateMedia);
+mediaRoutes.delete("/units/:unitId/media/:mediaId", requireAuth, requirePermission("units.manage"), deleteMedia);
@@ -0,0 +1,102 @@
+// src/modules/media/media.service.ts
+import fs from "fs";
+import path from "path";
+import { AppError } from "../../common/errors/AppError";
+import {
+  createPresignedGetUrlFromKey,
+  deleteObjectFromStorage,
+  isS3StorageEnabled,
+  publicUrlFromKey,
+  storageObjectExists,
+  uploadBufferToStorage,
+} from "../../common/storage/object-storage";
+
+export const ALLOWED_MEDIA_MIME = new Set(["image/jpeg", "image/jpg", "image/png"]);
+export const MAX_MEDIA_BYTES = 1024 * 1024;
+export const MAX_GALLERY_ITEMS = 30;
+
+/** The parts of a multer memory-storage file the upload handlers use. */
+export type UploadedFile = { buffer: Buffer; mimetype: string; size: number; originalname?: string };
+
+/** A property gallery has unitId null; a unit gallery also carries the unit's propertyId. */
+export type Gallery = { propertyId: string; unitId: string | null };
+
+export const mediaSelect = {
+  id: true,
+  propertyId: true,
+  unitId: true,
+  key: true,
+  mime: true,
+  size: true,
+  caption: true,
+  sortOrder: true,
+  isCover: true,
+  createdAt: true,
+} as const;
+
+export const galleryOrderBy = [{ sortOrder: "asc" as const }, { createdAt: "asc" as const }];
+
+export function galleryWhere(tenantId: string, gallery: Gallery) {
+  return { tenantId, propertyId: gallery.propertyId, unitId: gallery.unitId };
+}
+
+export function safeImageExt(mime: string) {
+  return mime === "image/png" ? "png" : "jpg";
+}
+
+// Generated upload names: <timestamp>.<ext>, or a fixed name such as guest.jpg.
+const SAFE_FILENAME = /^[A-Za-z0-9_-]+\.(jpg|jpeg|png)$/;
+
+/** True when key is exactly `${prefix}/<filename>`, with no extra segments, `..` or backslashes. */
+export function isKeyInPrefix(prefix: string, key: string) {
+  if (!key.startsWith(`${prefix}/`)) return false;
+  return SAFE_FILENAME.test(key.slice(prefix.length + 1));
+}
+
+/** Absolute path of a key in the LOCAL driver's uploads/ folder; never resolves outside it. */
+export function localUploadPath(key: string) {
+  const root = path.resolve(process.cwd(), "uploads");
+  const absolute = path.resolve(root, key);
+  if (!absolute.startsWith(root + path.sep)) {
+    throw new AppError("Invalid storage key", 400, "VALIDATION_ERROR");
+  }
+  return absolute;
+}
+
+/** Writes an uploaded image to S3, or to uploads/<key> for LOCAL. */
+export async function storeUploadedImage(key: string, file: UploadedFile) {
+  if (isS3StorageEnabled()) {
+    await uploadBufferToStorage({ key, body: file.buffer, contentType: file.mimetype });
+    return;
+  }
+  const absolute = localUploadPath(key);
+  fs.mkdirSync(path.dirname(absolute), { recursive: true });
+  fs.writeFileSync(absolute, file.buffer);
+}
+
+export async function storedImageExists(key: string) {
+  if (isS3StorageEnabled()) return storageObjectExists(key);
+  return fs.existsSync(localUploadPath(key));
+}
+
+export async function removeStoredImage(key: string) {
+  if (isS3StorageEnabled()) {
+    await deleteObjectFromStorage(key);
+    return;
+  }
+  fs.rmSync(localUploadPath(key), { force: true });
+}
+
+/** Presigned for S3 (buckets may be private), /uploads/... for LOCAL. */
+export async function mediaUrl(key: string) {
+  return isS3StorageEnabled() ? await createPresignedGetUrlFromKey({ key, expiresInSec: 3600 }) : publicUrlFromKey(key);
+}
+
+export async function withMediaUrls<T extends { key: string }>(items: T[]) {
+  return Promise.all(items.map(async (m) => ({ ...m, url: await mediaUrl(m.key) })));
+}
+
+/** For records with a photos relation (work orders, room categories). */
+export async function withPhotoUrls<T extends { photos: Array<{ key: string }> }>(record: T) {
+  return { ...record, photos: await withMediaUrls(record.photos) };
+}
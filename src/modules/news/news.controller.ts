@@ -3,7 +3,6 @@ import type { NewsStatus, NewsType } from "@prisma/client";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
 import { asyncHandler } from "../../common/utils/asyncHandler";
-import { isSuperAdminEmail } from "../../common/auth/superadmin";
 
 type Role = "ADMIN" | "MANAGER" | "STAFF";
 type JwtUser = { userId: string; tenantId: string; role: Role };
@@ -71,6 +70,11 @@ function getActor(req: Request): JwtUser {
   return user;
 }
 
+// Platform operators are not tenant users, so their edits are recorded without a user id.
+function getEditorUserId(req: Request) {
+  return ((req as any).user as JwtUser | undefined)?.userId ?? null;
+}
+
 function normalize(value?: string | null) {
   return (value || "").trim().toLowerCase();
 }
@@ -87,15 +91,17 @@ function allowedNewsTenantSlugs() {
 }
 
 async function requireNewsControlAccess(req: Request) {
+  if (req.platformOperator) return;
+
   const actor = getActor(req);
+  // API keys authenticate without a user; never fall through to an unfiltered user lookup.
+  if (!actor.userId) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
   const actorUser = await prisma.user.findFirst({
     where: { id: actor.userId, tenantId: actor.tenantId },
-    select: { email: true, role: true, tenantId: true },
+    select: { role: true, tenantId: true },
   });
   if (!actorUser) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
 
-  if (isSuperAdminEmail(actorUser.email)) return;
-
   if (actorUser.role !== "ADMIN") {
     throw new AppError("News admin access required", 403, "NEWS_ADMIN_REQUIRED");
   }
@@ -184,7 +190,7 @@ export const listNewsAdmin = asyncHandler(async (req: Request, res: Response) =>
 
 export const createNews = asyncHandler(async (req: Request, res: Response) => {
   await requireNewsControlAccess(req);
-  const actor = getActor(req);
+  const editorUserId = getEditorUserId(req);
   const title = String(req.body?.title || "").trim();
   const excerpt = String(req.body?.excerpt || "").trim();
   const type = validateType(req.body?.type) || "ARTICLE";
@@ -218,8 +224,8 @@ export const createNews = asyncHandler(async (req: Request, res: Response) => {
       thumbnailUrl,
       isFeatured,
       publishedAt: status === "PUBLISHED" ? new Date() : null,
-      createdByUserId: actor.userId,
-      updatedByUserId: actor.userId,
+      createdByUserId: editorUserId,
+      updatedByUserId: editorUserId,
     },
   });
 
@@ -228,7 +234,7 @@ export const createNews = asyncHandler(async (req: Request, res: Response) => {
 
 export const updateNews = asyncHandler(async (req: Request, res: Response) => {
   await requireNewsControlAccess(req);
-  const actor = getActor(req);
+  const editorUserId = getEditorUserId(req);
   const id = String(req.params.id || "").trim();
   if (!id) throw new AppError("News id is required", 400, "VALIDATION_ERROR");
 
@@ -270,7 +276,7 @@ export const updateNews = asyncHandler(async (req: Request, res: Response) => {
       ...(req.body?.isFeatured !== undefined ? { isFeatured: Boolean(req.body.isFeatured) } : {}),
       ...(nextStatus === "PUBLISHED" && existing.status !== "PUBLISHED" ? { publishedAt: new Date() } : {}),
       ...(nextStatus === "DRAFT" ? { publishedAt: null } : {}),
-      updatedByUserId: actor.userId,
+      updatedByUserId: editorUserId,
     },
   });
 
@@ -288,7 +294,7 @@ export const deleteNews = asyncHandler(async (req: Request, res: Response) => {
 
 export const importDefaultNews = asyncHandler(async (req: Request, res: Response) => {
   await requireNewsControlAccess(req);
-  const actor = getActor(req);
+  const editorUserId = getEditorUserId(req);
 
   const existing = await prisma.newsItem.findMany({
     where: { slug: { in: defaultNewsSeeds.map((x) => x.slug) } },
@@ -313,8 +319,8 @@ export const importDefaultNews = asyncHandler(async (req: Request, res: Response
       videoUrl: x.videoUrl || null,
       isFeatured: Boolean(x.isFeatured),
       publishedAt: x.status === "PUBLISHED" ? new Date() : null,
-      createdByUserId: actor.userId,
-      updatedByUserId: actor.userId,
+      createdByUserId: editorUserId,
+      updatedByUserId: editorUserId,
     })),
     skipDuplicates: true,
   });
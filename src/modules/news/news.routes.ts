@@ -1,11 +1,11 @@
 import { Router } from "express";
-import { requireAuth } from "../../middleware/auth.middleware";
+import { requireAuth, requireUser } from "../../middleware/auth.middleware";
 import { createNews, deleteNews, importDefaultNews, listNewsAdmin, updateNews } from "./news.controller";
 
 export const newsRoutes = Router();
 
-newsRoutes.get("/news", requireAuth, listNewsAdmin);
-newsRoutes.post("/news/import-defaults", requireAuth, importDefaultNews);
-newsRoutes.post("/news", requireAuth, createNews);
-newsRoutes.patch("/news/:id", requireAuth, updateNews);
-newsRoutes.delete("/news/:id", requireAuth, deleteNews);
+newsRoutes.get("/news", requireAuth, requireUser, listNewsAdmin);
+newsRoutes.post("/news/import-defaults", requireAuth, requireUser, importDefaultNews);
+newsRoutes.post("/news", requireAuth, requireUser, createNews);
+newsRoutes.patch("/news/:id", requireAuth, requireUser, updateNews);
+newsRoutes.delete("/news/:id", requireAuth, requireUser, deleteNews);
@@ -1,29 +1,12 @@
 import type { Request, Response } from "express";
+import type { Prisma } from "@prisma/client";
 import { asyncHandler } from "../../common/utils/asyncHandler";
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
 import { AppError } from "../../common/errors/AppError";
 import { resolvePropertyScope, scopedBookingWhere, scopedPaymentWhere } from "../../common/authz/property-scope";
 import { logger } from "../../common/logger/logger";
 import { sendGuestPaymentAcknowledgementEmail } from "../../common/notifications/email";
-
-function computeTotalBillFromBaseAndCharges(
-  baseAmount: number,
-  charges: Array<{ amount: any; type?: string | null }> | null | undefined
-) {
-  const list = charges ?? [];
-  const base = Math.max(0, Number(baseAmount || 0));
-
-  const roomCharges = list.filter((c) => String(c.type || "").toUpperCase() === "ROOM");
-  const otherCharges = list.filter((c) => String(c.type || "").toUpperCase() !== "ROOM");
-
-  const roomTotal = roomCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-
-  // If ROOM charge exists, use it unless legacy data undercut booking total.
-  const roomComponent = roomCharges.length > 0 ? Math.max(roomTotal, base) : base;
-
-  return Math.max(0, roomComponent + otherTotal);
-}
+import { computeTotalBillFromBaseAndCharges, quoteStay, replaceBookingNights } from "../bookings/booking.pricing";
 
 /**
  * CONFIRMED / ALL payments list
@@ -204,6 +187,7 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response) =
           unit: {
             include: {
               property: { select: { address: true } },
+              category: { select: { basePrice: true } },
             },
           },
           payments: { where: { status: "CONFIRMED" } },
@@ -230,24 +214,25 @@ export const confirmPayment = asyncHandler(async (req: Request, res: Response) =
     },
   });
 
-  // fallback to booking.totalAmount, compute if missing
-  let bookingTotal = booking.totalAmount;
+  // fallback to booking.totalAmount, price the stay if missing
+  let bookingTotal: Prisma.Decimal | string | null = booking.totalAmount;
   if (!bookingTotal) {
-    if (!booking.unit?.basePrice) {
+    const quote = await quoteStay(db.raw, tenantId, booking.unit, booking.checkIn, booking.checkOut);
+    if (quote.rateMissing) {
       throw new AppError("Cannot compute booking total (unit price missing)", 400, "BOOKING_TOTAL_MISSING");
     }
 
-    const nights =
-      Math.ceil((booking.checkOut.getTime() - booking.checkIn.getTime()) / (1000 * 60 * 60 * 24)) || 1;
-
-    bookingTotal = booking.unit.basePrice.mul(nights);
+    bookingTotal = quote.total.toFixed(2);
 
-    await db.raw.booking.update({
-      where: { id: booking.id },
-      data: {
-        totalAmount: bookingTotal,
-        currency: booking.currency ?? "NGN",
-      },
+    await db.raw.$transaction(async (tx) => {
+      await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          totalAmount: bookingTotal,
+          currency: booking.currency ?? "NGN",
+        },
+      });
+      await replaceBookingNights(tx, tenantId, booking.id, quote);
     });
   }
 
@@ -7,7 +7,7 @@ import {
   listOutstandingBookings,   // ✅ NEW
 } from "./payment.controller";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 
 export const paymentRoutes = Router();
 
@@ -18,7 +18,7 @@ export const paymentRoutes = Router();
 paymentRoutes.get(
   "/payments/pending",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"), // STAFF can view outstanding
+  requirePermission("receivables.view"),
   listOutstandingBookings
 );
 
@@ -29,7 +29,7 @@ paymentRoutes.get(
 paymentRoutes.post(
   "/bookings/:bookingId/payments",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("payments.record"),
   createManualPayment
 );
 
@@ -40,7 +40,7 @@ paymentRoutes.post(
 paymentRoutes.post(
   "/payments/:paymentId/confirm",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("payments.confirm"),
   confirmPayment
 );
 
@@ -51,13 +51,13 @@ paymentRoutes.post(
 paymentRoutes.get(
   "/payments",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("payments.view"),
   listPayments
 );
 
 paymentRoutes.delete(
   "/payments/:paymentId",
   requireAuth,
-  requireRole("ADMIN"),
+  requirePermission("payments.delete"),
   deletePendingPayment
 );
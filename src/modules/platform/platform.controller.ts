@@ -0,0 +1,133 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { getClientIp } from "../../common/utils/clientIp";
+import { prisma } from "../../prisma/client";
+import {
+  endImpersonation,
+  loginOperator,
+  logoutOperator,
+  startImpersonation,
+  type PlatformContext,
+} from "./platform.service";
+
+function platformContext(req: Request): PlatformContext {
+  return { requestId: req.requestId, ipAddress: getClientIp(req), userAgent: req.header("user-agent") ?? null };
+}
+
+function getOperatorId(req: Request) {
+  const operatorId = req.platformOperator?.operatorId;
+  if (!operatorId) throw new AppError("Platform operator access required", 401, "PLATFORM_UNAUTHORIZED");
+  return operatorId;
+}
+
+/**
+ * POST /api/platform/auth/login
+ * Body: { email, password }
+ */
+export const platformLogin = asyncHandler(async (req: Request, res: Response) => {
+  const { email, password } = req.body ?? {};
+  if (typeof email !== "string" || typeof password !== "string" || !email.trim() || !password) {
+    throw new AppError("email and password are required", 400, "VALIDATION_ERROR");
+  }
+
+  const result = await loginOperator({ email, password }, platformContext(req));
+  res.json(result);
+});
+
+/**
+ * POST /api/platform/auth/logout
+ */
+export const platformLogout = asyncHandler(async (req: Request, res: Response) => {
+  await logoutOperator(getOperatorId(req), platformContext(req));
+  res.json({ ok: true });
+});
+
+/**
+ * GET /api/platform/me
+ */
+export const getPlatformMe = asyncHandler(async (req: Request, res: Response) => {
+  const operator = await prisma.platformOperator.findUnique({
+    where: { id: getOperatorId(req) },
+    select: { id: true, email: true, fullName: true, lastLoginAt: true, createdAt: true },
+  });
+  if (!operator) throw new AppError("Platform operator access required", 401, "PLATFORM_UNAUTHORIZED");
+  res.json({ operator });
+});
+
+/**
+ * POST /api/platform/impersonations
+ * Body: { userId, reason, durationMinutes? }
+ */
+export const createImpersonation = asyncHandler(async (req: Request, res: Response) => {
+  const { userId, reason, durationMinutes } = req.body ?? {};
+  if (typeof userId !== "string" || !userId.trim()) {
+    throw new AppError("userId is required", 400, "VALIDATION_ERROR");
+  }
+  if (typeof reason !== "string") throw new AppError("reason is required", 400, "VALIDATION_ERROR");
+
+  const result = await startImpersonation(
+    getOperatorId(req),
+    {
+      userId: userId.trim(),
+      reason,
+      durationMinutes: durationMinutes === undefined ? undefined : Number(durationMinutes),
+    },
+    platformContext(req)
+  );
+  res.status(201).json(result);
+});
+
+/**
+ * POST /api/platform/impersonations/:id/end
+ */
+export const endImpersonationById = asyncHandler(async (req: Request, res: Response) => {
+  await endImpersonation(getOperatorId(req), String(req.params.id), platformContext(req));
+  res.json({ ok: true });
+});
+
+/**
+ * GET /api/platform/impersonations?tenantId=&operatorId=&active=true&page=&pageSize=
+ */
+export const listImpersonations = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = (req.query.tenantId as string | undefined)?.trim();
+  const operatorId = (req.query.operatorId as string | undefined)?.trim();
+  const activeOnly = String(req.query.active || "").toLowerCase() === "true";
+  const page = Math.max(parseInt((req.query.page as string) || "1", 10), 1);
+  const pageSize = Math.min(Math.max(parseInt((req.query.pageSize as string) || "20", 10), 1), 100);
+
+  const where = {
+    ...(tenantId ? { tenantId } : {}),
+    ...(operatorId ? { operatorId } : {}),
+    ...(activeOnly ? { endedAt: null, expiresAt: { gt: new Date() } } : {}),
+  };
+
+  const [total, impersonations] = await Promise.all([
+    prisma.platformImpersonation.count({ where }),
+    prisma.platformImpersonation.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        reason: true,
+        ipAddress: true,
+        createdAt: true,
+        expiresAt: true,
+        endedAt: true,
+        operator: { select: { id: true, email: true, fullName: true } },
+        tenant: { select: { id: true, name: true, slug: true } },
+        user: { select: { id: true, email: true, fullName: true, role: true } },
+      },
+    }),
+  ]);
+
+  res.json({
+    page,
+    pageSize,
+    total,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    impersonations,
+  });
+});
@@ -0,0 +1,59 @@
+import { Router } from "express";
+import { requirePlatformAuth } from "../../middleware/platform-auth.middleware";
+import { rateLimit } from "../../middleware/rate-limit.middleware";
+import {
+  createImpersonation,
+  endImpersonationById,
+  getPlatformMe,
+  listImpersonations,
+  platformLogin,
+  platformLogout,
+} from "./platform.controller";
+import {
+  createPlatformTenant,
+  listPlatformTenantAdmins,
+  listPlatformTenants,
+  togglePlatformUserStatus,
+  updatePlatformTenantSettings,
+  updatePlatformTenantSubscription,
+  updatePlatformUser,
+} from "../tenant/tenant.controller";
+import { createNews, deleteNews, importDefaultNews, listNewsAdmin, updateNews } from "../news/news.controller";
+
+/**
+ * Platform operator API. Mounted before tenantMiddleware: operators are not tenant users
+ * and never send x-tenant-id.
+ */
+export const platformRoutes = Router();
+
+const platformLoginLimiter = rateLimit({
+  name: "platform.login",
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: "Too many login attempts. Please try again later.",
+});
+
+platformRoutes.post("/platform/auth/login", platformLoginLimiter, platformLogin);
+platformRoutes.post("/platform/auth/logout", requirePlatformAuth, platformLogout);
+platformRoutes.get("/platform/me", requirePlatformAuth, getPlatformMe);
+
+// Tenants and their users
+platformRoutes.post("/platform/tenants", requirePlatformAuth, createPlatformTenant);
+platformRoutes.get("/platform/tenants", requirePlatformAuth, listPlatformTenants);
+platformRoutes.patch("/platform/tenants/:tenantId/subscription", requirePlatformAuth, updatePlatformTenantSubscription);
+platformRoutes.patch("/platform/tenants/:tenantId/settings", requirePlatformAuth, updatePlatformTenantSettings);
+platformRoutes.get("/platform/tenant-admins", requirePlatformAuth, listPlatformTenantAdmins);
+platformRoutes.patch("/platform/users/:userId", requirePlatformAuth, updatePlatformUser);
+platformRoutes.post("/platform/users/:userId/:action", requirePlatformAuth, togglePlatformUserStatus);
+
+// "Log in as" a tenant user: time-limited, every request audited
+platformRoutes.get("/platform/impersonations", requirePlatformAuth, listImpersonations);
+platformRoutes.post("/platform/impersonations", requirePlatformAuth, createImpersonation);
+platformRoutes.post("/platform/impersonations/:id/end", requirePlatformAuth, endImpersonationById);
+
+// Marketing news; founding-tenant admins keep using /api/news
+platformRoutes.get("/platform/news", requirePlatformAuth, listNewsAdmin);
+platformRoutes.post("/platform/news/import-defaults", requirePlatformAuth, importDefaultNews);
+platformRoutes.post("/platform/news", requirePlatformAuth, createNews);
+platformRoutes.patch("/platform/news/:id", requirePlatformAuth, updateNews);
+platformRoutes.delete("/platform/news/:id", requirePlatformAuth, deleteNews);
@@ -0,0 +1,166 @@
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { prisma } from "../../prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { signPlatformToken } from "../../common/auth/platform";
+
+export type PlatformContext = { requestId?: string; ipAddress?: string | null; userAgent?: string | null };
+
+const IMPERSONATION_DEFAULT_MINUTES = 15;
+const IMPERSONATION_MAX_MINUTES = 60;
+
+// Compared against when the email is unknown so response timing does not reveal which operators exist.
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("platform-operator-placeholder", 10);
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export async function loginOperator(input: { email: string; password: string }, context: PlatformContext) {
+  const email = normalizeEmail(input.email);
+  const operator = await prisma.platformOperator.findUnique({
+    where: { email },
+    select: { id: true, email: true, fullName: true, status: true, tokenVersion: true, passwordHash: true },
+  });
+
+  const ok = await bcrypt.compare(input.password, operator?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!operator || !ok || operator.status !== "ACTIVE") {
+    logger.warn(
+      {
+        event: "audit.platform_login_failed",
+        requestId: context.requestId,
+        email,
+        operatorId: operator?.id ?? null,
+        reason: !operator || !ok ? "INVALID_CREDENTIALS" : "OPERATOR_DISABLED",
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+      },
+      "Audit platform login failed"
+    );
+    throw new AppError("Invalid credentials", 401, "INVALID_CREDENTIALS");
+  }
+
+  await prisma.platformOperator.update({ where: { id: operator.id }, data: { lastLoginAt: new Date() } });
+
+  logger.info(
+    {
+      event: "audit.platform_login",
+      requestId: context.requestId,
+      operatorId: operator.id,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+    },
+    "Audit platform login"
+  );
+
+  return {
+    accessToken: signPlatformToken(operator),
+    operator: { id: operator.id, email: operator.email, fullName: operator.fullName },
+  };
+}
+
+/** Ends every outstanding token for the operator. */
+export async function logoutOperator(operatorId: string, context: PlatformContext) {
+  await prisma.platformOperator.update({ where: { id: operatorId }, data: { tokenVersion: { increment: 1 } } });
+  logger.info({ event: "audit.platform_logout", requestId: context.requestId, operatorId }, "Audit platform logout");
+}
+
+/**
+ * Grants the operator a short-lived access token for a tenant user.
+ * No refresh token is issued; the grant can be ended early and every request made with it is logged.
+ */
+export async function startImpersonation(
+  operatorId: string,
+  input: { userId: string; reason: string; durationMinutes?: number },
+  context: PlatformContext
+) {
+  const reason = input.reason.trim();
+  if (reason.length < 5) {
+    throw new AppError("A reason of at least 5 characters is required", 400, "VALIDATION_ERROR");
+  }
+
+  const durationMinutes = input.durationMinutes ?? IMPERSONATION_DEFAULT_MINUTES;
+  if (!Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > IMPERSONATION_MAX_MINUTES) {
+    throw new AppError(
+      `durationMinutes must be between 1 and ${IMPERSONATION_MAX_MINUTES}`,
+      400,
+      "VALIDATION_ERROR"
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { id: true, tenantId: true, email: true, fullName: true, role: true, status: true, tokenVersion: true },
+  });
+  if (!user) throw new AppError("User not found", 404, "NOT_FOUND");
+  if (user.status !== "ACTIVE") {
+    throw new AppError("Only active users can be impersonated", 400, "USER_NOT_ACTIVE");
+  }
+
+  const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
+  const impersonation = await prisma.platformImpersonation.create({
+    data: {
+      operatorId,
+      tenantId: user.tenantId,
+      userId: user.id,
+      reason,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      expiresAt,
+    },
+    select: { id: true, createdAt: true, expiresAt: true },
+  });
+
+  const accessToken = jwt.sign(
+    {
+      userId: user.id,
+      tenantId: user.tenantId,
+      role: user.role,
+      tokenVersion: user.tokenVersion,
+      impersonationId: impersonation.id,
+      impersonatorId: operatorId,
+    },
+    process.env.JWT_ACCESS_SECRET!,
+    { expiresIn: durationMinutes * 60 }
+  );
+
+  logger.info(
+    {
+      event: "audit.impersonation_started",
+      requestId: context.requestId,
+      impersonationId: impersonation.id,
+      operatorId,
+      tenantId: user.tenantId,
+      userId: user.id,
+      reason,
+      expiresAt,
+      ipAddress: context.ipAddress ?? null,
+    },
+    "Audit impersonation started"
+  );
+
+  return {
+    impersonation: { id: impersonation.id, createdAt: impersonation.createdAt, expiresAt: impersonation.expiresAt },
+    accessToken,
+    tenantId: user.tenantId,
+    user: { id: user.id, email: user.email, fullName: user.fullName, role: user.role },
+  };
+}
+
+export async function endImpersonation(operatorId: string, impersonationId: string, context: PlatformContext) {
+  const ended = await prisma.platformImpersonation.updateMany({
+    where: { id: impersonationId, endedAt: null },
+    data: { endedAt: new Date() },
+  });
+  if (ended.count === 0) {
+    const exists = await prisma.platformImpersonation.findUnique({ where: { id: impersonationId }, select: { id: true } });
+    if (!exists) throw new AppError("Impersonation not found", 404, "NOT_FOUND");
+    return;
+  }
+
+  logger.info(
+    { event: "audit.impersonation_ended", requestId: context.requestId, impersonationId, operatorId },
+    "Audit impersonation ended"
+  );
+}
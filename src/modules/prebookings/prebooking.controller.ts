@@ -4,6 +4,9 @@ import { asyncHandler } from "../../common/utils/asyncHandler";
 import { AppError } from "../../common/errors/AppError";
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
 import { resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import { assertUnitAvailable } from "../bookings/booking.availability";
+import { PRICING_UNIT_SELECT, assertMinimumStay, quoteStay, replaceBookingNights } from "../bookings/booking.pricing";
+import { recordStatusChange, transitionData } from "../bookings/booking.state";
 
 function toDate(value: any, field: string) {
   if (value === undefined || value === null || value === "") return null;
@@ -14,55 +17,6 @@ function toDate(value: any, field: string) {
   return d;
 }
 
-function startOfDay(d: Date) {
-  const x = new Date(d);
-  x.setHours(0, 0, 0, 0);
-  return x;
-}
-
-function addDays(d: Date, days: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + days);
-  return x;
-}
-
-function unitNightlyRateForDate(unit: any, day: Date) {
-  const base = Number(unit.basePrice ?? 0);
-  if (!Number.isFinite(base) || base <= 0) return 0;
-
-  if (!unit.discountType || !unit.discountValue || !unit.discountStart || !unit.discountEnd) {
-    return base;
-  }
-
-  const d = startOfDay(day).getTime();
-  const s = startOfDay(new Date(unit.discountStart)).getTime();
-  const e = startOfDay(new Date(unit.discountEnd)).getTime();
-  if (d < s || d > e) return base;
-
-  const discountValue = Number(unit.discountValue ?? 0);
-  if (!Number.isFinite(discountValue) || discountValue <= 0) return base;
-
-  if (unit.discountType === "PERCENT") {
-    const pct = Math.max(0, Math.min(100, discountValue));
-    return Math.max(0, base * (1 - pct / 100));
-  }
-  if (unit.discountType === "FIXED_PRICE") {
-    return Math.max(0, discountValue);
-  }
-  return base;
-}
-
-function calculateBookingTotalFromUnitRate(unit: any, checkIn: Date, checkOut: Date) {
-  const s = startOfDay(checkIn);
-  const e = startOfDay(checkOut);
-  const nights = Math.max(1, Math.ceil((e.getTime() - s.getTime()) / (1000 * 60 * 60 * 24)));
-  let total = 0;
-  for (let i = 0; i < nights; i += 1) {
-    total += unitNightlyRateForDate(unit, addDays(s, i));
-  }
-  return Math.max(0, Number(total.toFixed(2)));
-}
-
 export const createPreBooking = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
   const db = prismaForTenant(tenantId);
@@ -174,35 +128,23 @@ export const convertPreBooking = asyncHandler(async (req: Request, res: Response
 
     const unit = await tx.unit.findFirst({
       where: { id: String(unitId), tenantId, ...scopedUnitWhere(propertyScope) },
-      select: {
-        id: true,
-        basePrice: true,
-        discountType: true,
-        discountValue: true,
-        discountStart: true,
-        discountEnd: true,
-      },
+      select: PRICING_UNIT_SELECT,
     });
     if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
 
-    const conflict = await tx.booking.findMany({
-      where: {
-        unitId: String(unitId),
-        tenantId,
-        status: { in: ["PENDING", "CONFIRMED", "CHECKED_IN"] },
-        AND: [{ checkIn: { lt: end } }, { checkOut: { gt: start } }],
-      },
-      take: 1,
-    });
-    if (conflict.length > 0) {
-      throw new AppError("Unit is not available for the selected dates", 409, "UNIT_NOT_AVAILABLE");
+    await assertUnitAvailable(tx, { tenantId, unitId: unit.id, checkIn: start, checkOut: end });
+
+    const quote = await quoteStay(tx, tenantId, unit, start, end);
+    assertMinimumStay(quote);
+    const hasManualTotal = totalAmount !== undefined && totalAmount !== null && !!String(totalAmount).trim();
+    if (!hasManualTotal && quote.rateMissing) {
+      throw new AppError(
+        "Unit base rate is not set. Set unit base price or provide totalAmount.",
+        400,
+        "UNIT_BASE_RATE_MISSING"
+      );
     }
-
-    const calculatedTotal = calculateBookingTotalFromUnitRate(unit, start, end);
-    const bookingTotalAmount =
-      totalAmount !== undefined && totalAmount !== null && String(totalAmount).trim()
-        ? String(totalAmount).trim()
-        : calculatedTotal.toFixed(2);
+    const bookingTotalAmount = hasManualTotal ? String(totalAmount).trim() : quote.total.toFixed(2);
 
     const totalBillNum = Number(bookingTotalAmount);
     if (!Number.isFinite(totalBillNum) || totalBillNum <= 0) {
@@ -237,6 +179,19 @@ export const convertPreBooking = asyncHandler(async (req: Request, res: Response
       },
     });
 
+    const audit = { tenantId, bookingId: booking.id, actorUserId: req.user?.userId ?? null };
+    await recordStatusChange(tx, {
+      ...audit,
+      from: null,
+      to: "PENDING",
+      source: "prebookings.convert",
+      reason: `Converted from pre-booking ${pre.id.slice(0, 8)}`,
+    });
+
+    if (!hasManualTotal) {
+      await replaceBookingNights(tx, tenantId, booking.id, quote);
+    }
+
     await tx.bookingCharge.create({
       data: {
         tenantId,
@@ -277,9 +232,18 @@ export const convertPreBooking = asyncHandler(async (req: Request, res: Response
       where: { id: booking.id },
       data: {
         paymentStatus: nextPaymentStatus,
-        status: nextPaymentStatus === "UNPAID" ? "PENDING" : "CONFIRMED",
+        ...(nextPaymentStatus === "UNPAID" ? {} : transitionData("PENDING", "CONFIRMED")),
       },
     });
+    if (nextPaymentStatus !== "UNPAID") {
+      await recordStatusChange(tx, {
+        ...audit,
+        from: "PENDING",
+        to: "CONFIRMED",
+        source: "prebookings.convert",
+        reason: "Pre-booking payment applied",
+      });
+    }
 
     const updatedPre = await tx.preBooking.update({
       where: { id: pre.id },
@@ -1,7 +1,7 @@
 import { Router } from "express";
 
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import {
   cancelPreBooking,
   convertPreBooking,
@@ -14,27 +14,27 @@ export const preBookingRoutes = Router();
 preBookingRoutes.post(
   "/prebookings",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("prebookings.create"),
   createPreBooking
 );
 
 preBookingRoutes.get(
   "/prebookings",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("prebookings.view"),
   listPreBookings
 );
 
 preBookingRoutes.post(
   "/prebookings/:id/convert",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("bookings.create"),
   convertPreBooking
 );
 
 preBookingRoutes.patch(
   "/prebookings/:id/cancel",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("prebookings.cancel"),
   cancelPreBooking
 );
@@ -5,17 +5,13 @@ import { resolvePropertyScope, scopedPropertyWhere } from "../../common/authz/pr
 
 // prisma folder is at project root (outside src)
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { parseAmenities } from "../../common/utils/amenities";
 
 export const createProperty = asyncHandler(async (req: Request, res: Response) => {
-  const actorRole = ((req as any).user?.role ?? "") as string;
-  if (actorRole !== "ADMIN") {
-    throw new AppError("Only admins can create properties", 403, "FORBIDDEN");
-  }
-
   const tenantId = req.tenantId!;
   const db = prismaForTenant(tenantId);
 
-  const { name, address, type } = req.body;
+  const { name, address, type, description, amenities } = req.body;
 
   if (!name || typeof name !== "string") {
     throw new AppError("name is required", 400, "VALIDATION_ERROR");
@@ -31,6 +27,8 @@ export const createProperty = asyncHandler(async (req: Request, res: Response) =
       name,
       address: address ?? null,
       type: type ?? "HOTEL",
+      description: description ? String(description).trim() : null,
+      amenities: parseAmenities(amenities),
     },
   });
 
@@ -147,7 +145,7 @@ export const updateProperty = asyncHandler(async (req: Request, res: Response) =
   });
   if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
 
-  const { name, address, type } = req.body ?? {};
+  const { name, address, type, description, amenities } = req.body ?? {};
   if (name !== undefined && (!String(name).trim() || typeof name !== "string")) {
     throw new AppError("name must be a non-empty string", 400, "VALIDATION_ERROR");
   }
@@ -161,6 +159,8 @@ export const updateProperty = asyncHandler(async (req: Request, res: Response) =
       ...(name !== undefined ? { name: String(name).trim() } : {}),
       ...(address !== undefined ? { address: address ? String(address).trim() : null } : {}),
       ...(type !== undefined ? { type } : {}),
+      ...(description !== undefined ? { description: description ? String(description).trim() : null } : {}),
+      ...(amenities !== undefined ? { amenities: parseAmenities(amenities) } : {}),
     },
   });
 
@@ -168,13 +168,8 @@ export const updateProperty = asyncHandler(async (req: Request, res: Response) =
 });
 
 export const deleteProperty = asyncHandler(async (req: Request, res: Response) => {
-  const actorRole = ((req as any).user?.role ?? "") as string;
-  if (actorRole !== "ADMIN") {
-    throw new AppError("Only admins can delete properties", 403, "FORBIDDEN");
-  }
-
   const tenantId = req.tenantId!;
-  const { propertyId } = req.params;
+  const propertyId = Array.isArray(req.params.propertyId) ? req.params.propertyId[0] : req.params.propertyId;
   if (!propertyId) throw new AppError("propertyId is required", 400, "VALIDATION_ERROR");
 
   const db = prismaForTenant(tenantId);
@@ -192,6 +187,9 @@ export const deleteProperty = asyncHandler(async (req: Request, res: Response) =
     throw new AppError("Cannot delete property with existing units", 409, "PROPERTY_HAS_UNITS");
   }
 
-  await db.raw.property.delete({ where: { id: propertyId } });
+  await db.raw.$transaction([
+    db.raw.roomCategory.deleteMany({ where: { tenantId, propertyId } }),
+    db.raw.property.delete({ where: { id: propertyId } }),
+  ]);
   res.status(204).send();
 });
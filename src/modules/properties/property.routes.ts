@@ -1,29 +1,29 @@
 import { Router } from "express";
 import { createProperty, deleteProperty, listProperties, updateProperty } from "./property.controller";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 
 export const propertyRoutes = Router();
 
 propertyRoutes.post(
   "/properties",
   requireAuth,
-  requireRole("ADMIN"),
+  requirePermission("properties.create"),
   createProperty
 );
 
-propertyRoutes.get("/properties", requireAuth, listProperties);
+propertyRoutes.get("/properties", requireAuth, requirePermission("properties.view"), listProperties);
 
 propertyRoutes.patch(
   "/properties/:propertyId",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("properties.update"),
   updateProperty
 );
 
 propertyRoutes.delete(
   "/properties/:propertyId",
   requireAuth,
-  requireRole("ADMIN"),
+  requirePermission("properties.delete"),
   deleteProperty
 );
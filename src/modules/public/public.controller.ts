@@ -3,30 +3,9 @@ import type { NewsType } from "@prisma/client";
 import { z } from "zod";
 import { prisma } from "../../prisma/client";
 import { asyncHandler } from "../../common/utils/asyncHandler";
+import { getClientIp } from "../../common/utils/clientIp";
 import { randomUUID } from "crypto";
-
-const LEAD_RATE_WINDOW_MS = 15 * 60 * 1000;
-const LEAD_RATE_MAX = 5;
-const leadSubmissionsByIp = new Map<string, number[]>();
-
-function getClientIp(req: Request) {
-  const xff = req.header("x-forwarded-for");
-  if (xff) return xff.split(",")[0]?.trim() || req.ip || "unknown";
-  return req.ip || "unknown";
-}
-
-function isRateLimited(ip: string) {
-  const now = Date.now();
-  const cutoff = now - LEAD_RATE_WINDOW_MS;
-  const records = (leadSubmissionsByIp.get(ip) || []).filter((ts) => ts >= cutoff);
-  if (records.length >= LEAD_RATE_MAX) {
-    leadSubmissionsByIp.set(ip, records);
-    return true;
-  }
-  records.push(now);
-  leadSubmissionsByIp.set(ip, records);
-  return false;
-}
+import { galleryOrderBy, withMediaUrls } from "../media/media.service";
 
 const listSchema = z.object({
   query: z.string().min(1).max(60),
@@ -210,6 +189,101 @@ export const getTenantBySlug = asyncHandler(async (req: Request, res: Response)
   res.json({ tenant });
 });
 
+const publicMediaSelect = { id: true, key: true, caption: true, isCover: true, sortOrder: true } as const;
+
+/**
+ * GET /api/public/tenants/by-slug/:slug/properties
+ * Listing content for a tenant's booking site: properties with their galleries, units and room categories.
+ */
+export const listPublicProperties = asyncHandler(async (req: Request, res: Response) => {
+  const parsed = slugSchema.safeParse({ slug: req.params.slug });
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: { code: "INVALID_SLUG", message: "Invalid tenant slug" },
+    });
+  }
+
+  const tenant = await prisma.tenant.findFirst({
+    where: { slug: parsed.data.slug, status: "ACTIVE" },
+    select: { id: true, name: true, slug: true },
+  });
+
+  if (!tenant) {
+    return res.status(404).json({
+      error: { code: "TENANT_NOT_FOUND", message: "Tenant not found" },
+    });
+  }
+
+  const properties = await prisma.property.findMany({
+    where: { tenantId: tenant.id },
+    orderBy: { name: "asc" },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      address: true,
+      description: true,
+      amenities: true,
+      media: { where: { unitId: null }, orderBy: galleryOrderBy, select: publicMediaSelect },
+      roomCategories: {
+        orderBy: { name: "asc" },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          basePrice: true,
+          capacity: true,
+          amenities: true,
+          photos: { orderBy: { sortOrder: "asc" }, select: { id: true, key: true, sortOrder: true } },
+        },
+      },
+      units: {
+        orderBy: { name: "asc" },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          capacity: true,
+          basePrice: true,
+          description: true,
+          amenities: true,
+          category: { select: { id: true, name: true, basePrice: true } },
+          media: { orderBy: galleryOrderBy, select: publicMediaSelect },
+        },
+      },
+    },
+  });
+
+  const listing = await Promise.all(
+    properties.map(async (property) => {
+      const media = await withMediaUrls(property.media);
+      return {
+        ...property,
+        cover: media.find((m) => m.isCover) ?? media[0] ?? null,
+        media,
+        roomCategories: await Promise.all(
+          property.roomCategories.map(async (c) => ({ ...c, photos: await withMediaUrls(c.photos) }))
+        ),
+        units: await Promise.all(
+          property.units.map(async ({ category, ...unit }) => {
+            const unitMedia = await withMediaUrls(unit.media);
+            return {
+              ...unit,
+              // Units without their own price are sold at their category's price.
+              basePrice: unit.basePrice ?? category?.basePrice ?? null,
+              category: category ? { id: category.id, name: category.name } : null,
+              cover: unitMedia.find((m) => m.isCover) ?? unitMedia[0] ?? null,
+              media: unitMedia,
+            };
+          })
+        ),
+      };
+    })
+  );
+
+  res.json({ tenant, properties: listing });
+});
+
 const leadSchema = z.object({
   companyName: z.string().min(2).max(120),
   contactName: z.string().min(2).max(120),
@@ -222,12 +296,6 @@ const leadSchema = z.object({
 
 export const createLead = asyncHandler(async (req: Request, res: Response) => {
   const ip = getClientIp(req);
-  if (isRateLimited(ip)) {
-    return res.status(429).json({
-      error: { code: "RATE_LIMITED", message: "Too many lead submissions. Please try again later." },
-    });
-  }
-
   const parsed = leadSchema.safeParse(req.body || {});
   if (!parsed.success) {
     return res.status(400).json({
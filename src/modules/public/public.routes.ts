@@ -1,8 +1,16 @@
 import { Router } from "express";
-import { createLead, getPublicNewsBySlug, getTenantBySlug, listPublicNews, listRecentTenants, listTenants } from "./public.controller";
+import { rateLimit } from "../../middleware/rate-limit.middleware";
+import { createLead, getPublicNewsBySlug, getTenantBySlug, listPublicNews, listPublicProperties, listRecentTenants, listTenants } from "./public.controller";
 
 export const publicRoutes = Router();
 
+const leadLimiter = rateLimit({
+  name: "public.leads",
+  windowMs: 15 * 60 * 1000,
+  max: 5,
+  message: "Too many lead submissions. Please try again later.",
+});
+
 // Search tenants by name/slug (for tenant selection screen)
 publicRoutes.get("/tenants", listTenants);
 publicRoutes.get("/tenants/recent", listRecentTenants);
@@ -11,4 +19,5 @@ publicRoutes.get("/news/:slug", getPublicNewsBySlug);
 
 // Resolve a tenant by exact slug (fast path)
 publicRoutes.get("/tenants/by-slug/:slug", getTenantBySlug);
-publicRoutes.post("/leads", createLead);
+publicRoutes.get("/tenants/by-slug/:slug/properties", listPublicProperties);
+publicRoutes.post("/leads", leadLimiter, createLead);
@@ -0,0 +1,458 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { toBoolean } from "../../common/utils/toBoolean";
+import { AppError } from "../../common/errors/AppError";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { logger } from "../../common/logger/logger";
+import { assertPropertyInScope, resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+
+const UNIT_TYPES = ["ROOM", "APARTMENT"] as const;
+const MAX_OVERRIDE_DAYS = 366;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const ratePlanSelect = {
+  id: true,
+  name: true,
+  unitId: true,
+  propertyId: true,
+  unitType: true,
+  startDate: true,
+  endDate: true,
+  weekdayPrice: true,
+  weekendPrice: true,
+  minStayNights: true,
+  priority: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  unit: { select: { id: true, name: true, propertyId: true } },
+  property: { select: { id: true, name: true } },
+} as const;
+
+function parseName(value: unknown) {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new AppError("name is required", 400, "VALIDATION_ERROR");
+  if (name.length > 80) throw new AppError("name must be at most 80 characters", 400, "VALIDATION_ERROR");
+  return name;
+}
+
+function parsePrice(value: unknown, field: string, required: boolean) {
+  if (value === undefined || value === null || value === "") {
+    if (required) throw new AppError(`${field} is required`, 400, "VALIDATION_ERROR");
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new AppError(`${field} must be a string like "45000.00"`, 400, "VALIDATION_ERROR");
+  }
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new AppError(`${field} must be greater than 0`, 400, "VALIDATION_ERROR");
+  return value.trim();
+}
+
+function parseMinStay(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1 || n > 365) {
+    throw new AppError("minStayNights must be a whole number between 1 and 365", 400, "VALIDATION_ERROR");
+  }
+  return n;
+}
+
+function parseOptionalDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return null;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function parseRequiredDate(value: unknown, field: string) {
+  const d = parseOptionalDate(value, field);
+  if (!d) throw new AppError(`${field} is required`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+/** Calendar day as a DATE column value (UTC midnight). */
+function toDateOnly(d: Date) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+function assertNameAvailable(err: any): never {
+  if (err?.code === "P2002") throw new AppError("A rate plan with this name already exists", 409, "RATE_PLAN_NAME_TAKEN");
+  throw err;
+}
+
+/**
+ * Plans without a property (tenant-wide or unit-type-only) affect every property,
+ * so only users with access to all properties may change them.
+ */
+function assertPlanInScope(scope: PropertyScope, propertyId: string | null) {
+  if (propertyId) {
+    assertPropertyInScope(scope, propertyId);
+    return;
+  }
+  if (scope.propertyIds !== null) {
+    throw new AppError("Tenant-wide rate plans require access to all properties", 403, "PROPERTY_SCOPE_FORBIDDEN");
+  }
+}
+
+async function findUnitInScope(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, unitId: string) {
+  const unit = await db.raw.unit.findFirst({
+    where: { id: unitId, tenantId, ...scopedUnitWhere(scope) },
+    select: { id: true, propertyId: true },
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+  return unit;
+}
+
+/**
+ * Resolves the plan target from the body: either one unit, or a group by property and/or unit type.
+ */
+async function parseTarget(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  scope: PropertyScope,
+  body: any
+) {
+  const unitId = typeof body?.unitId === "string" && body.unitId.trim() ? body.unitId.trim() : null;
+  const propertyId = typeof body?.propertyId === "string" && body.propertyId.trim() ? body.propertyId.trim() : null;
+  const unitTypeRaw = typeof body?.unitType === "string" && body.unitType.trim() ? body.unitType.trim().toUpperCase() : null;
+
+  if (unitId && (propertyId || unitTypeRaw)) {
+    throw new AppError("Use either unitId or propertyId/unitType, not both", 400, "VALIDATION_ERROR");
+  }
+  if (unitTypeRaw && !UNIT_TYPES.includes(unitTypeRaw as any)) {
+    throw new AppError("unitType must be ROOM or APARTMENT", 400, "VALIDATION_ERROR");
+  }
+
+  if (unitId) {
+    const unit = await findUnitInScope(db, tenantId, scope, unitId);
+    return { unitId: unit.id, propertyId: null, unitType: null };
+  }
+
+  if (propertyId) {
+    const property = await db.property.findById(propertyId);
+    if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
+  }
+  assertPlanInScope(scope, propertyId);
+
+  return {
+    unitId: null,
+    propertyId,
+    unitType: unitTypeRaw as (typeof UNIT_TYPES)[number] | null,
+  };
+}
+
+async function loadPlanInScope(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  scope: PropertyScope,
+  id: string
+) {
+  const plan = await db.raw.ratePlan.findFirst({
+    where: { id, tenantId },
+    select: ratePlanSelect,
+  });
+  if (!plan) throw new AppError("Rate plan not found", 404, "RATE_PLAN_NOT_FOUND");
+  assertPlanInScope(scope, plan.unit?.propertyId ?? plan.propertyId);
+  return plan;
+}
+
+/**
+ * GET /api/rate-plans?unitId=&propertyId=&active=
+ * Scoped users see plans for their properties plus tenant-wide plans.
+ */
+export const listRatePlans = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+
+  const unitId = String(req.query.unitId ?? "").trim() || null;
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  const active = String(req.query.active ?? "").trim().toLowerCase();
+  if (propertyId) assertPropertyInScope(scope, propertyId);
+
+  const and: any[] = [];
+  if (scope.propertyIds !== null) {
+    and.push({
+      OR: [
+        { unitId: null, propertyId: null },
+        { propertyId: { in: scope.propertyIds } },
+        { unit: { propertyId: { in: scope.propertyIds } } },
+      ],
+    });
+  }
+  if (unitId) and.push({ unitId });
+  if (propertyId) and.push({ OR: [{ propertyId }, { unit: { propertyId } }] });
+  if (active === "true" || active === "false") and.push({ isActive: active === "true" });
+
+  const ratePlans = await db.raw.ratePlan.findMany({
+    where: { tenantId, AND: and },
+    orderBy: [{ priority: "desc" }, { name: "asc" }],
+    select: ratePlanSelect,
+  });
+
+  res.json({ ratePlans });
+});
+
+/**
+ * POST /api/rate-plans
+ * Body: { name, unitId? | (propertyId?, unitType?), startDate?, endDate?, weekdayPrice, weekendPrice?,
+ *         minStayNights?, priority?, isActive? }
+ */
+export const createRatePlan = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const body = req.body ?? {};
+
+  const name = parseName(body.name);
+  const target = await parseTarget(db, tenantId, scope, body);
+  const startDate = parseOptionalDate(body.startDate, "startDate");
+  const endDate = parseOptionalDate(body.endDate, "endDate");
+  if (startDate && endDate && endDate < startDate) {
+    throw new AppError("endDate must be on or after startDate", 400, "VALIDATION_ERROR");
+  }
+
+  const priority = body.priority === undefined || body.priority === null ? 0 : Number(body.priority);
+  if (!Number.isInteger(priority)) throw new AppError("priority must be a whole number", 400, "VALIDATION_ERROR");
+
+  const ratePlan = await db.raw.ratePlan
+    .create({
+      data: {
+        tenantId,
+        name,
+        unitId: target.unitId,
+        propertyId: target.propertyId,
+        unitType: target.unitType,
+        startDate,
+        endDate,
+        weekdayPrice: parsePrice(body.weekdayPrice, "weekdayPrice", true)!,
+        weekendPrice: parsePrice(body.weekendPrice, "weekendPrice", false),
+        minStayNights: parseMinStay(body.minStayNights),
+        priority,
+        isActive: body.isActive === undefined ? true : toBoolean(body.isActive),
+      },
+      select: ratePlanSelect,
+    })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.rate_plan_created",
+      requestId: req.requestId,
+      tenantId,
+      ratePlanId: ratePlan.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit rate plan created"
+  );
+
+  res.status(201).json({ ratePlan });
+});
+
+/**
+ * PATCH /api/rate-plans/:id
+ * Same fields as create; the target (unit or group) cannot be changed.
+ */
+export const updateRatePlan = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const id = String(req.params.id);
+  const body = req.body ?? {};
+
+  const current = await loadPlanInScope(db, tenantId, scope, id);
+
+  if (body.unitId !== undefined || body.propertyId !== undefined || body.unitType !== undefined) {
+    throw new AppError("A rate plan's unit or group cannot be changed; create a new plan", 400, "VALIDATION_ERROR");
+  }
+
+  const data: any = {};
+  if (body.name !== undefined) data.name = parseName(body.name);
+  if (body.startDate !== undefined) data.startDate = parseOptionalDate(body.startDate, "startDate");
+  if (body.endDate !== undefined) data.endDate = parseOptionalDate(body.endDate, "endDate");
+  if (body.weekdayPrice !== undefined) data.weekdayPrice = parsePrice(body.weekdayPrice, "weekdayPrice", true);
+  if (body.weekendPrice !== undefined) data.weekendPrice = parsePrice(body.weekendPrice, "weekendPrice", false);
+  if (body.minStayNights !== undefined) data.minStayNights = parseMinStay(body.minStayNights);
+  if (body.isActive !== undefined) data.isActive = toBoolean(body.isActive);
+  if (body.priority !== undefined) {
+    const priority = Number(body.priority);
+    if (!Number.isInteger(priority)) throw new AppError("priority must be a whole number", 400, "VALIDATION_ERROR");
+    data.priority = priority;
+  }
+
+  const startDate = data.startDate !== undefined ? data.startDate : current.startDate;
+  const endDate = data.endDate !== undefined ? data.endDate : current.endDate;
+  if (startDate && endDate && endDate < startDate) {
+    throw new AppError("endDate must be on or after startDate", 400, "VALIDATION_ERROR");
+  }
+
+  const ratePlan = await db.raw.ratePlan
+    .update({ where: { id }, data, select: ratePlanSelect })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.rate_plan_updated",
+      requestId: req.requestId,
+      tenantId,
+      ratePlanId: id,
+      changes: Object.keys(data),
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit rate plan updated"
+  );
+
+  res.json({ ratePlan });
+});
+
+/**
+ * DELETE /api/rate-plans/:id
+ * Existing bookings keep the amount they were priced at.
+ */
+export const deleteRatePlan = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const id = String(req.params.id);
+
+  await loadPlanInScope(db, tenantId, scope, id);
+  await db.raw.ratePlan.delete({ where: { id } });
+
+  logger.info(
+    {
+      event: "audit.rate_plan_deleted",
+      requestId: req.requestId,
+      tenantId,
+      ratePlanId: id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit rate plan deleted"
+  );
+
+  res.status(204).send();
+});
+
+/**
+ * GET /api/units/:unitId/rate-overrides?from=&to=
+ */
+export const listRateOverrides = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+
+  const from = parseOptionalDate(req.query.from, "from");
+  const to = parseOptionalDate(req.query.to, "to");
+
+  const overrides = await db.raw.unitRateOverride.findMany({
+    where: {
+      tenantId,
+      unitId: unit.id,
+      ...(from || to
+        ? { date: { ...(from ? { gte: toDateOnly(from) } : {}), ...(to ? { lte: toDateOnly(to) } : {}) } }
+        : {}),
+    },
+    orderBy: { date: "asc" },
+  });
+
+  res.json({ overrides });
+});
+
+/**
+ * PUT /api/units/:unitId/rate-overrides
+ * Body: { from, to?, price?, minStayNights?, note? }
+ * Sets the same override on every date from..to (inclusive); existing overrides on those dates are replaced.
+ */
+export const upsertRateOverrides = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+  const body = req.body ?? {};
+
+  const from = toDateOnly(parseRequiredDate(body.from, "from"));
+  const to = toDateOnly(parseOptionalDate(body.to, "to") ?? from);
+  if (to < from) throw new AppError("to must be on or after from", 400, "VALIDATION_ERROR");
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  if (days > MAX_OVERRIDE_DAYS) {
+    throw new AppError(`Override range cannot exceed ${MAX_OVERRIDE_DAYS} days`, 400, "VALIDATION_ERROR");
+  }
+
+  const price = parsePrice(body.price, "price", false);
+  const minStayNights = parseMinStay(body.minStayNights);
+  if (!price && !minStayNights) {
+    throw new AppError("price or minStayNights is required", 400, "VALIDATION_ERROR");
+  }
+  const note = typeof body.note === "string" ? body.note.trim() || null : null;
+
+  const dates = Array.from({ length: days }, (_, i) => new Date(from.getTime() + i * DAY_MS));
+
+  const overrides = await db.raw.$transaction(async (tx) => {
+    await tx.unitRateOverride.deleteMany({ where: { tenantId, unitId: unit.id, date: { gte: from, lte: to } } });
+    await tx.unitRateOverride.createMany({
+      data: dates.map((date) => ({ tenantId, unitId: unit.id, date, price, minStayNights, note })),
+    });
+    return tx.unitRateOverride.findMany({
+      where: { tenantId, unitId: unit.id, date: { gte: from, lte: to } },
+      orderBy: { date: "asc" },
+    });
+  });
+
+  logger.info(
+    {
+      event: "audit.rate_overrides_set",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      from,
+      to,
+      price,
+      minStayNights,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit rate overrides set"
+  );
+
+  res.json({ overrides });
+});
+
+/**
+ * DELETE /api/units/:unitId/rate-overrides?from=&to=
+ */
+export const deleteRateOverrides = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+
+  const from = toDateOnly(parseRequiredDate(req.query.from, "from"));
+  const to = toDateOnly(parseOptionalDate(req.query.to, "to") ?? from);
+  if (to < from) throw new AppError("to must be on or after from", 400, "VALIDATION_ERROR");
+
+  const result = await db.raw.unitRateOverride.deleteMany({
+    where: { tenantId, unitId: unit.id, date: { gte: from, lte: to } },
+  });
+
+  logger.info(
+    {
+      event: "audit.rate_overrides_cleared",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      from,
+      to,
+      count: result.count,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit rate overrides cleared"
+  );
+
+  res.json({ deleted: result.count });
+});
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import {
+  createRatePlan,
+  deleteRateOverrides,
+  deleteRatePlan,
+  listRateOverrides,
+  listRatePlans,
+  updateRatePlan,
+  upsertRateOverrides,
+} from "./rates.controller";
+
+export const rateRoutes = Router();
+
+rateRoutes.get("/rate-plans", requireAuth, requirePermission("units.view"), listRatePlans);
+rateRoutes.post("/rate-plans", requireAuth, requirePermission("units.manage"), createRatePlan);
+rateRoutes.patch("/rate-plans/:id", requireAuth, requirePermission("units.manage"), updateRatePlan);
+rateRoutes.delete("/rate-plans/:id", requireAuth, requirePermission("units.manage"), deleteRatePlan);
+
+rateRoutes.get("/units/:unitId/rate-overrides", requireAuth, requirePermission("units.view"), listRateOverrides);
+rateRoutes.put("/units/:unitId/rate-overrides", requireAuth, requirePermission("units.manage"), upsertRateOverrides);
+rateRoutes.delete("/units/:unitId/rate-overrides", requireAuth, requirePermission("units.manage"), deleteRateOverrides);
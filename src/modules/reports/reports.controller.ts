@@ -2,30 +2,18 @@ import type { Request, Response } from "express";
 import { asyncHandler } from "../../common/utils/asyncHandler";
 import { AppError } from "../../common/errors/AppError";
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
-import { assertPropertyInScope, resolvePropertyScope, scopedBookingWhere, scopedUnitWhere } from "../../common/authz/property-scope";
+import {
+  assertPropertyInScope,
+  resolvePropertyScope,
+  scopedBookingWhere,
+  scopedPropertyWhere,
+  scopedUnitWhere,
+} from "../../common/authz/property-scope";
+import { computeTotalBillFromBaseAndCharges } from "../bookings/booking.pricing";
 
 const REPORT_CACHE_TTL_MS = 20_000;
 const reportCache = new Map<string, { expiresAt: number; data: any }>();
 
-function computeTotalBillFromBaseAndCharges(
-  baseAmount: number,
-  charges: Array<{ amount: any; type?: string | null }> | null | undefined
-) {
-  const list = charges ?? [];
-  const base = Math.max(0, Number(baseAmount || 0));
-
-  const roomCharges = list.filter((c) => String(c.type || "").toUpperCase() === "ROOM");
-  const otherCharges = list.filter((c) => String(c.type || "").toUpperCase() !== "ROOM");
-
-  const roomTotal = roomCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-  const otherTotal = otherCharges.reduce((sum, c) => sum + Number(c.amount?.toString?.() ?? c.amount ?? 0), 0);
-
-  // If ROOM charge exists, use it unless legacy data undercut booking total.
-  const roomComponent = roomCharges.length > 0 ? Math.max(roomTotal, base) : base;
-
-  return Math.max(0, roomComponent + otherTotal);
-}
-
 /* ================= CSV HELPERS ================= */
 
 function csvEscape(v: any) {
@@ -84,14 +72,15 @@ function isoDay(d: Date) {
 
 function buildReportCacheKey(req: Request) {
   const tenantId = req.tenantId ?? "";
-  const userId = (req as any).user?.userId ?? "";
+  const userId = (req as any).user?.userId ?? (req as any).user?.apiKeyId ?? "";
   const role = (req as any).user?.role ?? "";
   const from = String(req.query.from || "");
   const to = String(req.query.to || "");
   const includeCancelled = String(req.query.includeCancelled || "");
   const propertyId = String(req.query.propertyId || "");
   const unitId = String(req.query.unitId || "");
-  return [tenantId, userId, role, from, to, includeCancelled, propertyId, unitId].join("|");
+  const categoryId = String(req.query.categoryId || "");
+  return [tenantId, userId, role, from, to, includeCancelled, propertyId, unitId, categoryId].join("|");
 }
 
 async function buildBookingsPaymentsReport(req: Request) {
@@ -121,10 +110,13 @@ async function buildBookingsPaymentsReport(req: Request) {
   const includeCancelled = String(req.query.includeCancelled || "false") === "true";
   const propertyId = String(req.query.propertyId || "").trim();
   const unitId = String(req.query.unitId || "").trim();
+  // Bookings are filtered by the category they were sold as, units by the category they belong to.
+  const categoryId = String(req.query.categoryId || "").trim();
   if (propertyId) assertPropertyInScope(propertyScope, propertyId);
   const bookingScope: any = {
     ...(includeCancelled ? {} : { status: { notIn: ["CANCELLED", "NO_SHOW"] } }),
     ...(unitId ? { unitId } : {}),
+    ...(categoryId ? { categoryId } : {}),
     ...(propertyId ? { unit: { propertyId } } : {}),
     ...scopedBookingWhere(propertyScope),
   };
@@ -150,6 +142,8 @@ async function buildBookingsPaymentsReport(req: Request) {
       guestName: true,
       guestPhone: true,
       guestEmail: true,
+      groupId: true,
+      group: { select: { id: true, name: true } },
       unit: {
         select: {
           id: true,
@@ -341,10 +335,45 @@ async function buildBookingsPaymentsReport(req: Request) {
         currency: b.currency ?? "NGN",
         status: String(b.status),
         paymentStatus: String(b.paymentStatus),
+        groupId: b.groupId ?? "",
+        groupName: b.group?.name ?? "",
       };
     })
     .sort((a, b) => a.date.localeCompare(b.date));
 
+  // Group rollup: one line per booking group among the bookings in range.
+  const groupMap = new Map<
+    string,
+    { groupId: string; name: string; bookingsCount: number; totalBookingAmount: number; paid: number; outstanding: number; currency: string }
+  >();
+  for (const b of bookings) {
+    if (!b.groupId) continue;
+    const totalBill = totalBillByBooking.get(b.id) ?? 0;
+    const paidAllTime = paidByBookingAllTime.get(b.id) || 0;
+    const row = groupMap.get(b.groupId) ?? {
+      groupId: b.groupId,
+      name: b.group?.name ?? "",
+      bookingsCount: 0,
+      totalBookingAmount: 0,
+      paid: 0,
+      outstanding: 0,
+      currency: b.currency ?? "NGN",
+    };
+    row.bookingsCount += 1;
+    row.totalBookingAmount += totalBill;
+    row.paid += paidAllTime;
+    row.outstanding += Math.max(0, totalBill - paidAllTime);
+    groupMap.set(b.groupId, row);
+  }
+  const groups = Array.from(groupMap.values())
+    .sort((a, b) => b.totalBookingAmount - a.totalBookingAmount)
+    .map((g) => ({
+      ...g,
+      totalBookingAmount: g.totalBookingAmount.toFixed(2),
+      paid: g.paid.toFixed(2),
+      outstanding: g.outstanding.toFixed(2),
+    }));
+
   const bookingPaymentRows = paymentsInRange.map((p) => {
     const b = bookingMap.get(p.bookingId);
     const totalBill = totalBillByBooking.get(p.bookingId) ?? 0;
@@ -449,6 +478,7 @@ async function buildBookingsPaymentsReport(req: Request) {
       ...scopedUnitWhere(propertyScope),
       ...(propertyId ? { propertyId } : {}),
       ...(unitId ? { id: unitId } : {}),
+      ...(categoryId ? { categoryId } : {}),
     },
     select: {
       id: true,
@@ -467,10 +497,26 @@ async function buildBookingsPaymentsReport(req: Request) {
       checkOut: { gt: occupancyFrom },
       ...(propertyId ? { unit: { propertyId } } : {}),
       ...(unitId ? { unitId } : {}),
+      ...(categoryId ? { categoryId } : {}),
     },
     select: { unitId: true, checkIn: true, checkOut: true },
   });
 
+  const occupancyBlocksPromise = db.raw.unitBlock.findMany({
+    where: {
+      tenantId,
+      unit: {
+        ...scopedUnitWhere(propertyScope),
+        ...(propertyId ? { propertyId } : {}),
+        ...(categoryId ? { categoryId } : {}),
+      },
+      ...(unitId ? { unitId } : {}),
+      startDate: { lt: occupancyToExclusive },
+      endDate: { gt: occupancyFrom },
+    },
+    select: { unitId: true, startDate: true, endDate: true },
+  });
+
   const topOutstanding = bookings
     .map((b) => {
       const totalBill = computeTotalBillFromBaseAndCharges(
@@ -507,6 +553,7 @@ async function buildBookingsPaymentsReport(req: Request) {
         ...scopedBookingWhere(propertyScope),
         ...(propertyId ? { unit: { propertyId } } : {}),
         ...(unitId ? { unitId } : {}),
+        ...(categoryId ? { categoryId } : {}),
       },
     },
     select: {
@@ -543,6 +590,7 @@ async function buildBookingsPaymentsReport(req: Request) {
       checkOut: { lt: new Date() },
       ...(propertyId ? { unit: { propertyId } } : {}),
       ...(unitId ? { unitId } : {}),
+      ...(categoryId ? { categoryId } : {}),
     },
     select: {
       id: true,
@@ -578,9 +626,27 @@ async function buildBookingsPaymentsReport(req: Request) {
       ...scopedUnitWhere(propertyScope),
       ...(propertyId ? { propertyId } : {}),
       ...(unitId ? { id: unitId } : {}),
+      ...(categoryId ? { categoryId } : {}),
     },
   });
 
+  const asOf = new Date(nowMs);
+  const blockedUnitsRowsPromise = db.raw.unitBlock.findMany({
+    where: {
+      tenantId,
+      unit: {
+        ...scopedUnitWhere(propertyScope),
+        ...(propertyId ? { propertyId } : {}),
+        ...(categoryId ? { categoryId } : {}),
+      },
+      ...(unitId ? { unitId } : {}),
+      startDate: { lte: asOf },
+      endDate: { gt: asOf },
+    },
+    select: { unitId: true },
+    distinct: ["unitId"],
+  });
+
   const occupiedUnitsRowsPromise = db.raw.booking
     .findMany({
       where: {
@@ -589,6 +655,7 @@ async function buildBookingsPaymentsReport(req: Request) {
         status: "CHECKED_IN",
         ...(propertyId ? { unit: { propertyId } } : {}),
         ...(unitId ? { unitId } : {}),
+        ...(categoryId ? { categoryId } : {}),
       },
       select: { unitId: true },
       distinct: ["unitId"],
@@ -628,17 +695,21 @@ async function buildBookingsPaymentsReport(req: Request) {
   const [
     units,
     occupancyBookings,
+    occupancyBlocks,
     earlyCheckoutEvents,
     overstayedBookings,
     totalUnits,
+    blockedUnitsRows,
     occupiedUnitsRows,
     damageCharges,
   ] = await Promise.all([
     unitsPromise,
     occupancyBookingsPromise,
+    occupancyBlocksPromise,
     earlyCheckoutEventsPromise,
     overstayedBookingsPromise,
     totalUnitsPromise,
+    blockedUnitsRowsPromise,
     occupiedUnitsRowsPromise,
     damageChargesPromise,
   ]);
@@ -655,11 +726,22 @@ async function buildBookingsPaymentsReport(req: Request) {
     occupancyByUnit.set(b.unitId, list);
   }
 
+  const blocksByUnit = new Map<string, Array<{ start: number; end: number }>>();
+  for (const b of occupancyBlocks) {
+    const start = new Date(b.startDate);
+    const end = new Date(b.endDate);
+    start.setHours(0, 0, 0, 0);
+    end.setHours(0, 0, 0, 0);
+    const list = blocksByUnit.get(b.unitId) ?? [];
+    list.push({ start: start.getTime(), end: end.getTime() });
+    blocksByUnit.set(b.unitId, list);
+  }
+
   const occupancyRows: Array<{
     date: string;
     room: string;
     propertyName: string;
-    status: "OCCUPIED" | "NOT_OCCUPIED";
+    status: "OCCUPIED" | "NOT_OCCUPIED" | "OUT_OF_ORDER";
   }> = [];
   for (let day = new Date(occupancyFrom); day <= occupancyTo; day = addDays(day, 1)) {
     const dayStart = new Date(day);
@@ -672,16 +754,20 @@ async function buildBookingsPaymentsReport(req: Request) {
     for (const u of units) {
       const intervals = occupancyByUnit.get(u.id) ?? [];
       const isOccupied = intervals.some((r) => r.start < dayEndMs && r.end > dayStartMs);
+      const isBlocked = (blocksByUnit.get(u.id) ?? []).some((r) => r.start < dayEndMs && r.end > dayStartMs);
       occupancyRows.push({
         date: dayIso,
         room: u.name,
         propertyName: u.property?.name ?? "",
-        status: isOccupied ? "OCCUPIED" : "NOT_OCCUPIED",
+        status: isOccupied ? "OCCUPIED" : isBlocked ? "OUT_OF_ORDER" : "NOT_OCCUPIED",
       });
     }
   }
   const occupiedUnits = occupiedUnitsRows.length;
-  const occupancyRate = totalUnits > 0 ? (occupiedUnits / totalUnits) * 100 : 0;
+  // Units out of order right now are not sellable inventory.
+  const outOfOrderUnits = blockedUnitsRows.length;
+  const sellableUnits = Math.max(0, totalUnits - outOfOrderUnits);
+  const occupancyRate = sellableUnits > 0 ? (occupiedUnits / sellableUnits) * 100 : 0;
 
   const refundAmountTotal = earlyCheckoutEvents.reduce(
     (sum, x) => sum + Number(x.refundAmount?.toString?.() ?? x.refundAmount ?? 0),
@@ -762,13 +848,16 @@ async function buildBookingsPaymentsReport(req: Request) {
       overstayCount: overstays.length,
       overstayAmountTotal: overstayAmountTotal.toFixed(2),
       totalUnits,
+      outOfOrderUnits,
       occupiedUnits,
       occupancyRate: Number(occupancyRate.toFixed(2)),
       damagesCount: damages.length,
       damagesAmountTotal: damagesAmountTotal.toFixed(2),
+      groupsCount: groups.length,
     },
     daily,
     bookingsReportRows,
+    groups,
     paymentRows,
     receivablesRows,
     guestPaymentHistoryRows,
@@ -785,6 +874,166 @@ async function buildBookingsPaymentsReport(req: Request) {
   return result;
 }
 
+/* ================= MAINTENANCE COST ================= */
+
+function toAmount(value: any) {
+  const n = Number(value?.toString?.() ?? value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Repair spend vs damage billed to guests, per property. Repair cost is the actual cost (or the
+ * estimate when none was recorded) of work orders completed in the range. Damage counts as
+ * recovered once the stay is CHECKED_OUT, since checkout requires the bill to be settled.
+ */
+async function buildMaintenanceCostReport(req: Request) {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const propertyScope = await resolvePropertyScope(req);
+
+  const fromQ = String(req.query.from || "");
+  const toQ = String(req.query.to || "");
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const from = fromQ ? toDateOnly(fromQ, "from") : addDays(today, -29);
+  const to = toQ ? toDateOnly(toQ, "to") : today;
+  if (from > to) {
+    throw new AppError("from must be before or equal to to", 400, "VALIDATION_ERROR");
+  }
+  const toExclusive = addDays(to, 1);
+
+  const propertyId = String(req.query.propertyId || "").trim();
+  const categoryId = String(req.query.categoryId || "").trim();
+  if (propertyId) assertPropertyInScope(propertyScope, propertyId);
+  const unitScope = {
+    ...scopedUnitWhere(propertyScope),
+    ...(propertyId ? { propertyId } : {}),
+    ...(categoryId ? { categoryId } : {}),
+  };
+
+  const [properties, completedOrders, openOrders, damageCharges] = await Promise.all([
+    db.raw.property.findMany({
+      where: { tenantId, ...scopedPropertyWhere(propertyScope), ...(propertyId ? { id: propertyId } : {}) },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    db.raw.workOrder.findMany({
+      where: { tenantId, status: "COMPLETED", completedAt: { gte: from, lt: toExclusive }, unit: unitScope },
+      select: {
+        id: true,
+        title: true,
+        category: true,
+        actualCost: true,
+        estimatedCost: true,
+        completedAt: true,
+        bookingId: true,
+        unit: { select: { name: true, propertyId: true } },
+        damageCharge: { select: { amount: true, status: true, booking: { select: { status: true } } } },
+      },
+      orderBy: { completedAt: "asc" },
+    }),
+    db.raw.workOrder.findMany({
+      where: { tenantId, status: { in: ["OPEN", "IN_PROGRESS", "ON_HOLD"] }, unit: unitScope },
+      select: { estimatedCost: true, unit: { select: { propertyId: true } } },
+    }),
+    db.raw.bookingCharge.findMany({
+      where: {
+        tenantId,
+        type: "DAMAGE",
+        status: "OPEN",
+        createdAt: { gte: from, lt: toExclusive },
+        booking: { unit: unitScope },
+      },
+      select: { amount: true, booking: { select: { status: true, unit: { select: { propertyId: true } } } } },
+    }),
+  ]);
+
+  const byProperty = new Map(
+    properties.map((p) => [
+      p.id,
+      {
+        propertyId: p.id,
+        propertyName: p.name,
+        completedWorkOrders: 0,
+        repairCost: 0,
+        openWorkOrders: 0,
+        openEstimatedCost: 0,
+        damageCharged: 0,
+        damageRecovered: 0,
+      },
+    ])
+  );
+
+  const workOrderRows = completedOrders.map((w) => {
+    const repairCost = toAmount(w.actualCost ?? w.estimatedCost);
+    const linkedDamage = w.damageCharge && w.damageCharge.status === "OPEN" ? toAmount(w.damageCharge.amount) : 0;
+    const recovered = w.damageCharge?.booking?.status === "CHECKED_OUT" ? linkedDamage : 0;
+
+    const row = byProperty.get(w.unit.propertyId);
+    if (row) {
+      row.completedWorkOrders += 1;
+      row.repairCost += repairCost;
+    }
+
+    return {
+      workOrderId: w.id,
+      title: w.title,
+      category: w.category,
+      unitName: w.unit.name,
+      propertyId: w.unit.propertyId,
+      bookingId: w.bookingId,
+      completedAt: w.completedAt,
+      repairCost: repairCost.toFixed(2),
+      damageCharged: linkedDamage.toFixed(2),
+      damageRecovered: recovered.toFixed(2),
+    };
+  });
+
+  for (const w of openOrders) {
+    const row = byProperty.get(w.unit.propertyId);
+    if (!row) continue;
+    row.openWorkOrders += 1;
+    row.openEstimatedCost += toAmount(w.estimatedCost);
+  }
+
+  for (const c of damageCharges) {
+    const row = byProperty.get(c.booking.unit.propertyId);
+    if (!row) continue;
+    const amount = toAmount(c.amount);
+    row.damageCharged += amount;
+    if (c.booking.status === "CHECKED_OUT") row.damageRecovered += amount;
+  }
+
+  const rows = Array.from(byProperty.values()).map((r) => ({
+    ...r,
+    repairCost: r.repairCost.toFixed(2),
+    openEstimatedCost: r.openEstimatedCost.toFixed(2),
+    damageCharged: r.damageCharged.toFixed(2),
+    damageRecovered: r.damageRecovered.toFixed(2),
+    net: (r.damageRecovered - r.repairCost).toFixed(2),
+    recoveryRate: r.repairCost > 0 ? Number(((r.damageRecovered / r.repairCost) * 100).toFixed(2)) : null,
+  }));
+
+  const totalRepair = rows.reduce((sum, r) => sum + Number(r.repairCost), 0);
+  const totalRecovered = rows.reduce((sum, r) => sum + Number(r.damageRecovered), 0);
+
+  return {
+    range: { from: isoDay(from), to: isoDay(to) },
+    summary: {
+      completedWorkOrders: workOrderRows.length,
+      openWorkOrders: openOrders.length,
+      repairCost: totalRepair.toFixed(2),
+      damageCharged: rows.reduce((sum, r) => sum + Number(r.damageCharged), 0).toFixed(2),
+      damageRecovered: totalRecovered.toFixed(2),
+      net: (totalRecovered - totalRepair).toFixed(2),
+      recoveryRate: totalRepair > 0 ? Number(((totalRecovered / totalRepair) * 100).toFixed(2)) : null,
+      currency: "NGN",
+    },
+    properties: rows,
+    workOrders: workOrderRows,
+  };
+}
+
 /* ================= HANDLERS ================= */
 
 // ✅ JSON endpoint
@@ -855,3 +1104,9 @@ export const exportBookingsPaymentsOutstandingCsv = asyncHandler(async (req: Req
   );
   res.status(200).send(csv);
 });
+
+// ✅ JSON: repair cost vs damage recovered
+export const maintenanceCostReport = asyncHandler(async (req: Request, res: Response) => {
+  const report = await buildMaintenanceCostReport(req);
+  res.json(report);
+});
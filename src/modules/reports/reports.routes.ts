@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 
 import {
   bookingsPaymentsReport,
   exportBookingsPaymentsDailyCsv,
   exportBookingsPaymentsOutstandingCsv,
+  maintenanceCostReport,
 } from "./reports.controller";
 
 export const reportsRoutes = Router();
@@ -18,12 +19,13 @@ export const reportsRoutes = Router();
  *  - to=YYYY-MM-DD
  *  - propertyId?
  *  - unitId?
+ *  - categoryId? (room category)
  *  - includeCancelled=true|false
  */
 reportsRoutes.get(
   "/reports/bookings-payments",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("reports.view"),
   bookingsPaymentsReport
 );
 
@@ -34,7 +36,7 @@ reportsRoutes.get(
 reportsRoutes.get(
   "/reports/bookings-payments/daily.csv",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("reports.view"),
   exportBookingsPaymentsDailyCsv
 );
 
@@ -45,6 +47,22 @@ reportsRoutes.get(
 reportsRoutes.get(
   "/reports/bookings-payments/outstanding.csv",
   requireAuth,
-  requireRole("ADMIN", "MANAGER", "STAFF"),
+  requirePermission("reports.view"),
   exportBookingsPaymentsOutstandingCsv
 );
+
+/**
+ * 🛠️ Maintenance cost vs damage recovered, per property (JSON)
+ * GET /api/reports/maintenance
+ * Query:
+ *  - from=YYYY-MM-DD
+ *  - to=YYYY-MM-DD
+ *  - propertyId?
+ *  - categoryId?
+ */
+reportsRoutes.get(
+  "/reports/maintenance",
+  requireAuth,
+  requirePermission("reports.view"),
+  maintenanceCostReport
+);
@@ -0,0 +1,193 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { logger } from "../../common/logger/logger";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, isPermission } from "../../common/authz/permissions";
+import { assertCanGrantPermissions } from "../../middleware/permission.middleware";
+
+const BASE_ROLES = ["ADMIN", "MANAGER", "STAFF"] as const;
+type BaseRole = (typeof BASE_ROLES)[number];
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  baseRole: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { users: true } },
+} as const;
+
+function toRoleDto(role: any) {
+  const { _count, ...rest } = role;
+  return { ...rest, assignedUserCount: _count?.users ?? 0 };
+}
+
+function parseName(value: unknown) {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new AppError("name is required", 400, "VALIDATION_ERROR");
+  if (name.length > 60) throw new AppError("name must be at most 60 characters", 400, "VALIDATION_ERROR");
+  return name;
+}
+
+function parseBaseRole(value: unknown): BaseRole {
+  if (!BASE_ROLES.includes(value as BaseRole)) {
+    throw new AppError("baseRole must be ADMIN, MANAGER or STAFF", 400, "VALIDATION_ERROR");
+  }
+  return value as BaseRole;
+}
+
+function parsePermissions(value: unknown) {
+  if (!Array.isArray(value)) throw new AppError("permissions must be an array", 400, "VALIDATION_ERROR");
+  const unknown = value.filter((p) => !isPermission(p));
+  if (unknown.length > 0) {
+    throw new AppError("Unknown permissions", 400, "VALIDATION_ERROR", { unknownPermissions: unknown });
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+function assertNameAvailable(err: any): never {
+  if (err?.code === "P2002") throw new AppError("A role with this name already exists", 409, "ROLE_NAME_TAKEN");
+  throw err;
+}
+
+/**
+ * GET /api/roles
+ * Permission catalogue, built-in role defaults and this tenant's role templates.
+ */
+export const listRoles = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+
+  const templates = await db.raw.tenantRole.findMany({
+    where: { tenantId },
+    orderBy: { name: "asc" },
+    select: roleSelect,
+  });
+
+  res.json({
+    permissions: PERMISSIONS,
+    defaults: DEFAULT_ROLE_PERMISSIONS,
+    roles: templates.map(toRoleDto),
+  });
+});
+
+/**
+ * POST /api/roles
+ * Body: { name, description?, baseRole, permissions? }
+ * permissions defaults to the base role's built-in set. Non-admins can only include permissions they hold.
+ */
+export const createRole = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+
+  const name = parseName(req.body?.name);
+  const baseRole = parseBaseRole(req.body?.baseRole);
+  const permissions =
+    req.body?.permissions === undefined ? [...DEFAULT_ROLE_PERMISSIONS[baseRole]] : parsePermissions(req.body.permissions);
+  const description = typeof req.body?.description === "string" ? req.body.description.trim() || null : null;
+  assertCanGrantPermissions(req, permissions);
+
+  const role = await db.raw.tenantRole
+    .create({
+      data: { tenantId, name, description, baseRole, permissions },
+      select: roleSelect,
+    })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.role_created",
+      requestId: req.requestId,
+      tenantId,
+      roleId: role.id,
+      baseRole,
+      permissions,
+      actorUserId: user?.userId,
+    },
+    "Audit role created"
+  );
+
+  res.status(201).json({ role: toRoleDto(role) });
+});
+
+/**
+ * PATCH /api/roles/:id
+ * Body: { name?, description?, permissions? }
+ * baseRole is fixed once created; assigned users pick up changes on their next request.
+ * As on create, non-admins can only include permissions they hold.
+ */
+export const updateRole = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const id = String(req.params.id);
+
+  const existing = await db.raw.tenantRole.findFirst({ where: { id, tenantId }, select: { id: true } });
+  if (!existing) throw new AppError("Role not found", 404, "NOT_FOUND");
+
+  if (req.body?.baseRole !== undefined) {
+    throw new AppError("baseRole cannot be changed; create a new role instead", 400, "VALIDATION_ERROR");
+  }
+
+  const data: Record<string, unknown> = {};
+  if (req.body?.name !== undefined) data.name = parseName(req.body.name);
+  if (req.body?.description !== undefined) {
+    data.description = typeof req.body.description === "string" ? req.body.description.trim() || null : null;
+  }
+  if (req.body?.permissions !== undefined) {
+    const permissions = parsePermissions(req.body.permissions);
+    assertCanGrantPermissions(req, permissions);
+    data.permissions = permissions;
+  }
+
+  const role = await db.raw.tenantRole
+    .update({ where: { id }, data, select: roleSelect })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.role_updated",
+      requestId: req.requestId,
+      tenantId,
+      roleId: id,
+      changes: Object.keys(data),
+      actorUserId: user?.userId,
+    },
+    "Audit role updated"
+  );
+
+  res.json({ role: toRoleDto(role) });
+});
+
+/**
+ * DELETE /api/roles/:id
+ * Only unassigned roles can be deleted.
+ */
+export const deleteRole = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const id = String(req.params.id);
+
+  const existing = await db.raw.tenantRole.findFirst({
+    where: { id, tenantId },
+    select: { id: true, _count: { select: { users: true } } },
+  });
+  if (!existing) throw new AppError("Role not found", 404, "NOT_FOUND");
+  if (existing._count.users > 0) {
+    throw new AppError("Role is still assigned to users", 409, "ROLE_IN_USE", { assignedUserCount: existing._count.users });
+  }
+
+  await db.raw.tenantRole.delete({ where: { id } });
+
+  logger.info(
+    { event: "audit.role_deleted", requestId: req.requestId, tenantId, roleId: id, actorUserId: user?.userId },
+    "Audit role deleted"
+  );
+
+  res.json({ ok: true });
+});
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import { createRole, deleteRole, listRoles, updateRole } from "./roles.controller";
+
+export const roleRoutes = Router();
+
+roleRoutes.get("/roles", requireAuth, requirePermission("roles.manage"), listRoles);
+roleRoutes.post("/roles", requireAuth, requirePermission("roles.manage"), createRole);
+roleRoutes.patch("/roles/:id", requireAuth, requirePermission("roles.manage"), updateRole);
+roleRoutes.delete("/roles/:id", requireAuth, requirePermission("roles.manage"), deleteRole);
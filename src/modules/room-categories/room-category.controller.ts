@@ -0,0 +1,321 @@
+import type { Request, Response } from "express";
+import path from "path";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { assertPropertyInScope, resolvePropertyScope, scopedPropertyWhere } from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { parseAmenities } from "../../common/utils/amenities";
+import { mediaUrl, safeImageExt, storeUploadedImage, withPhotoUrls } from "../media/media.service";
+import type { UploadedFile } from "../media/media.service";
+
+export const roomCategorySelect = {
+  id: true,
+  propertyId: true,
+  name: true,
+  description: true,
+  basePrice: true,
+  capacity: true,
+  amenities: true,
+  createdAt: true,
+  updatedAt: true,
+  photos: {
+    orderBy: { sortOrder: "asc" },
+    select: { id: true, key: true, mime: true, size: true, sortOrder: true, createdAt: true },
+  },
+  _count: { select: { units: true } },
+} as const;
+
+function parseName(value: unknown) {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new AppError("name is required", 400, "VALIDATION_ERROR");
+  if (name.length > 100) throw new AppError("name must be at most 100 characters", 400, "VALIDATION_ERROR");
+  return name;
+}
+
+function parseDescription(value: unknown) {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+function parseBasePrice(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  // Same convention as Unit.basePrice: send as string e.g. "45000.00"
+  if (typeof value !== "string" || !Number.isFinite(Number(value)) || Number(value) < 0) {
+    throw new AppError('basePrice must be a string like "45000.00"', 400, "VALIDATION_ERROR");
+  }
+  return value.trim();
+}
+
+function parseCapacity(value: unknown) {
+  const cap = Number(value);
+  if (!Number.isInteger(cap) || cap < 1) {
+    throw new AppError("capacity must be a whole number >= 1", 400, "VALIDATION_ERROR");
+  }
+  return cap;
+}
+
+function assertNameAvailable(err: any): never {
+  if (err?.code === "P2002") {
+    throw new AppError("A room category with this name already exists for the property", 409, "ROOM_CATEGORY_NAME_TAKEN");
+  }
+  throw err;
+}
+
+async function findPropertyInScope(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, propertyId: string) {
+  assertPropertyInScope(scope, propertyId);
+  const property = await db.raw.property.findFirst({ where: { id: propertyId, tenantId }, select: { id: true } });
+  if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
+  return property;
+}
+
+async function loadCategory(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, categoryId: string) {
+  const category = await db.raw.roomCategory.findFirst({
+    where: { id: categoryId, tenantId, property: scopedPropertyWhere(scope) },
+    select: roomCategorySelect,
+  });
+  if (!category) throw new AppError("Room category not found", 404, "ROOM_CATEGORY_NOT_FOUND");
+  return category;
+}
+
+/**
+ * GET /api/properties/:propertyId/room-categories
+ */
+export const listRoomCategories = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const property = await findPropertyInScope(db, tenantId, scope, String(req.params.propertyId));
+
+  const categories = await db.raw.roomCategory.findMany({
+    where: { tenantId, propertyId: property.id },
+    orderBy: { name: "asc" },
+    select: roomCategorySelect,
+  });
+
+  res.json({ categories: await Promise.all(categories.map(withPhotoUrls)) });
+});
+
+/**
+ * GET /api/room-categories/:categoryId
+ * The category with the units assigned to it.
+ */
+export const getRoomCategory = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const category = await loadCategory(db, tenantId, scope, String(req.params.categoryId));
+
+  const units = await db.raw.unit.findMany({
+    where: { tenantId, categoryId: category.id },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, type: true, capacity: true, basePrice: true, housekeepingStatus: true },
+  });
+
+  res.json({ category: await withPhotoUrls(category), units });
+});
+
+/**
+ * POST /api/properties/:propertyId/room-categories
+ * Body: { name, description?, basePrice?, capacity?, amenities? }
+ */
+export const createRoomCategory = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const property = await findPropertyInScope(db, tenantId, scope, String(req.params.propertyId));
+  const body = req.body ?? {};
+
+  const category = await db.raw.roomCategory
+    .create({
+      data: {
+        tenantId,
+        propertyId: property.id,
+        name: parseName(body.name),
+        description: parseDescription(body.description),
+        basePrice: parseBasePrice(body.basePrice),
+        capacity: body.capacity === undefined || body.capacity === null ? 1 : parseCapacity(body.capacity),
+        amenities: parseAmenities(body.amenities),
+      },
+      select: roomCategorySelect,
+    })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.room_category_created",
+      requestId: req.requestId,
+      tenantId,
+      propertyId: property.id,
+      categoryId: category.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit room category created"
+  );
+
+  res.status(201).json({ category: await withPhotoUrls(category) });
+});
+
+/**
+ * PATCH /api/room-categories/:categoryId
+ * Body: { name?, description?, basePrice?, capacity?, amenities? }
+ * Changing capacity does not touch units that already have their own.
+ */
+export const updateRoomCategory = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const current = await loadCategory(db, tenantId, scope, String(req.params.categoryId));
+  const body = req.body ?? {};
+
+  const data: any = {};
+  if (body.name !== undefined) data.name = parseName(body.name);
+  if (body.description !== undefined) data.description = parseDescription(body.description);
+  if (body.basePrice !== undefined) data.basePrice = parseBasePrice(body.basePrice);
+  if (body.capacity !== undefined) data.capacity = parseCapacity(body.capacity);
+  if (body.amenities !== undefined) data.amenities = parseAmenities(body.amenities);
+
+  const category = await db.raw.roomCategory
+    .update({ where: { id: current.id }, data, select: roomCategorySelect })
+    .catch(assertNameAvailable);
+
+  logger.info(
+    {
+      event: "audit.room_category_updated",
+      requestId: req.requestId,
+      tenantId,
+      categoryId: category.id,
+      changes: Object.keys(data),
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit room category updated"
+  );
+
+  res.json({ category: await withPhotoUrls(category) });
+});
+
+/**
+ * DELETE /api/room-categories/:categoryId
+ * Units must be moved out of the category first.
+ */
+export const deleteRoomCategory = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const category = await loadCategory(db, tenantId, scope, String(req.params.categoryId));
+
+  if (category._count.units > 0) {
+    throw new AppError("Cannot delete a room category that still has units", 409, "ROOM_CATEGORY_IN_USE", {
+      units: category._count.units,
+    });
+  }
+
+  await db.raw.roomCategory.delete({ where: { id: category.id } });
+
+  logger.info(
+    {
+      event: "audit.room_category_deleted",
+      requestId: req.requestId,
+      tenantId,
+      categoryId: category.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit room category deleted"
+  );
+
+  res.status(204).send();
+});
+
+/**
+ * POST /api/room-categories/:categoryId/photos
+ * Expects multer to populate req.file (field name: "file"). Optional body field sortOrder.
+ */
+export const uploadRoomCategoryPhoto = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+
+  const file = (req as any).file as UploadedFile | undefined;
+  if (!file) throw new AppError("No photo uploaded", 400, "VALIDATION_ERROR");
+
+  const category = await loadCategory(db, tenantId, scope, String(req.params.categoryId));
+
+  const sortOrderRaw = req.body?.sortOrder;
+  const sortOrder =
+    sortOrderRaw === undefined || sortOrderRaw === null || sortOrderRaw === ""
+      ? category.photos.length
+      : Number(sortOrderRaw);
+  if (!Number.isInteger(sortOrder) || sortOrder < 0) {
+    throw new AppError("sortOrder must be a whole number >= 0", 400, "VALIDATION_ERROR");
+  }
+
+  const relativeDir = path.join("tenants", tenantId, "room-categories", category.id);
+  const filename = `${Date.now()}.${safeImageExt(file.mimetype)}`;
+  const key = path.join(relativeDir, filename).replace(/\\/g, "/");
+
+  // S3, or uploads/tenants/<tenantId>/room-categories/<id>/<stamp>.<ext> locally
+  await storeUploadedImage(key, file);
+
+  const photo = await db.raw.roomCategoryPhoto.create({
+    data: {
+      tenantId,
+      categoryId: category.id,
+      key,
+      mime: file.mimetype,
+      size: file.size,
+      sortOrder,
+      createdByUserId: user?.userId ?? null,
+    },
+    select: { id: true, key: true, mime: true, size: true, sortOrder: true, createdAt: true },
+  });
+
+  logger.info(
+    {
+      event: "audit.room_category_photo_added",
+      requestId: req.requestId,
+      tenantId,
+      categoryId: category.id,
+      photoId: photo.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit room category photo added"
+  );
+
+  res.status(201).json({ photo: { ...photo, url: await mediaUrl(key) } });
+});
+
+/**
+ * DELETE /api/room-categories/:categoryId/photos/:photoId
+ */
+export const deleteRoomCategoryPhoto = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const category = await loadCategory(db, tenantId, scope, String(req.params.categoryId));
+
+  const photoId = String(req.params.photoId);
+  if (!category.photos.some((p) => p.id === photoId)) {
+    throw new AppError("Photo not found", 404, "PHOTO_NOT_FOUND");
+  }
+
+  await db.raw.roomCategoryPhoto.delete({ where: { id: photoId } });
+
+  logger.info(
+    {
+      event: "audit.room_category_photo_deleted",
+      requestId: req.requestId,
+      tenantId,
+      categoryId: category.id,
+      photoId,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit room category photo deleted"
+  );
+
+  res.status(204).send();
+});
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import { imageUpload } from "../../middleware/image.middleware";
+import {
+  createRoomCategory,
+  deleteRoomCategory,
+  deleteRoomCategoryPhoto,
+  getRoomCategory,
+  listRoomCategories,
+  updateRoomCategory,
+  uploadRoomCategoryPhoto,
+} from "./room-category.controller";
+
+export const roomCategoryRoutes = Router();
+
+roomCategoryRoutes.get(
+  "/properties/:propertyId/room-categories",
+  requireAuth,
+  requirePermission("units.view"),
+  listRoomCategories
+);
+roomCategoryRoutes.post(
+  "/properties/:propertyId/room-categories",
+  requireAuth,
+  requirePermission("units.manage"),
+  createRoomCategory
+);
+
+roomCategoryRoutes.get("/room-categories/:categoryId", requireAuth, requirePermission("units.view"), getRoomCategory);
+roomCategoryRoutes.patch("/room-categories/:categoryId", requireAuth, requirePermission("units.manage"), updateRoomCategory);
+roomCategoryRoutes.delete("/room-categories/:categoryId", requireAuth, requirePermission("units.delete"), deleteRoomCategory);
+
+roomCategoryRoutes.post(
+  "/room-categories/:categoryId/photos",
+  requireAuth,
+  requirePermission("units.manage"),
+  imageUpload({ maxSizeKb: 1024 }).single("file"),
+  uploadRoomCategoryPhoto
+);
+roomCategoryRoutes.delete(
+  "/room-categories/:categoryId/photos/:photoId",
+  requireAuth,
+  requirePermission("units.manage"),
+  deleteRoomCategoryPhoto
+);
@@ -0,0 +1,215 @@
+import type { Request, Response, NextFunction } from "express";
+import { prisma } from "../../prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { generateApiKey } from "../../common/auth/apiKeys";
+import { API_KEY_SCOPES, isApiKeyScope } from "../../common/authz/permissions";
+
+type JwtUser = { userId: string; tenantId: string };
+
+const MAX_ACTIVE_KEYS = 20;
+
+function getActor(req: Request): JwtUser {
+  const u = (req as any).user as JwtUser | undefined;
+  if (!u) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
+  return u;
+}
+
+function getTenantId(req: Request): string {
+  const tid = (req as any).tenantId as string | undefined;
+  if (!tid) throw new AppError("Missing tenant context", 400, "TENANT_REQUIRED");
+  return tid;
+}
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  propertyIds: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdByUserId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+function parseName(value: unknown) {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new AppError("name is required", 400, "VALIDATION_ERROR");
+  if (name.length > 80) throw new AppError("name must be at most 80 characters", 400, "VALIDATION_ERROR");
+  return name;
+}
+
+function parseScopes(value: unknown) {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new AppError("scopes must be a non-empty array", 400, "VALIDATION_ERROR", { allowedScopes: API_KEY_SCOPES });
+  }
+  const invalid = value.filter((s) => !isApiKeyScope(s));
+  if (invalid.length > 0) {
+    throw new AppError("Unknown or disallowed scopes", 400, "VALIDATION_ERROR", {
+      invalidScopes: invalid,
+      allowedScopes: API_KEY_SCOPES,
+    });
+  }
+  return Array.from(new Set(value as string[]));
+}
+
+function parseExpiresAt(value: unknown) {
+  if (value === undefined || value === null || value === "") return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new AppError("expiresAt must be a valid ISO datetime", 400, "VALIDATION_ERROR");
+  if (date.getTime() <= Date.now()) throw new AppError("expiresAt must be in the future", 400, "VALIDATION_ERROR");
+  return date;
+}
+
+async function parsePropertyIds(tenantId: string, value: unknown) {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new AppError("propertyIds must be an array", 400, "VALIDATION_ERROR");
+
+  const ids = Array.from(new Set(value.map((v) => String(v || "").trim()).filter(Boolean)));
+  if (ids.length === 0) return [];
+
+  const found = await prisma.property.count({ where: { tenantId, id: { in: ids } } });
+  if (found !== ids.length) throw new AppError("One or more properties were not found", 400, "VALIDATION_ERROR");
+  return ids;
+}
+
+/**
+ * GET /api/tenant/api-keys
+ * ✅ apikeys.manage: list keys (never the secret)
+ */
+export async function listApiKeys(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = getTenantId(req);
+    const keys = await prisma.apiKey.findMany({
+      where: { tenantId },
+      orderBy: [{ revokedAt: { sort: "asc", nulls: "first" } }, { createdAt: "desc" }],
+      select: apiKeySelect,
+    });
+
+    return res.json({ apiKeys: keys, allowedScopes: API_KEY_SCOPES });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/tenant/api-keys
+ * Body: { name, scopes, propertyIds?, expiresAt? }
+ * ✅ apikeys.manage: the plaintext key is returned once and cannot be retrieved again
+ */
+export async function createApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenantId(req);
+
+    const name = parseName(req.body?.name);
+    const scopes = parseScopes(req.body?.scopes);
+    const expiresAt = parseExpiresAt(req.body?.expiresAt);
+    const propertyIds = await parsePropertyIds(tenantId, req.body?.propertyIds);
+
+    const activeCount = await prisma.apiKey.count({ where: { tenantId, revokedAt: null } });
+    if (activeCount >= MAX_ACTIVE_KEYS) {
+      throw new AppError(`A tenant can have at most ${MAX_ACTIVE_KEYS} active API keys`, 409, "API_KEY_LIMIT_REACHED");
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: { tenantId, name, prefix, keyHash, scopes, propertyIds, expiresAt, createdByUserId: actor.userId },
+      select: apiKeySelect,
+    });
+
+    logger.info(
+      {
+        event: "audit.api_key_created",
+        requestId: req.requestId,
+        tenantId,
+        apiKeyId: apiKey.id,
+        prefix,
+        scopes,
+        propertyIds,
+        expiresAt,
+        actorUserId: actor.userId,
+      },
+      "Audit API key created"
+    );
+
+    return res.status(201).json({ apiKey, key });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * PATCH /api/tenant/api-keys/:id
+ * Body: { name?, scopes?, propertyIds?, expiresAt? }
+ */
+export async function updateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenantId(req);
+    const id = String(req.params.id);
+
+    const existing = await prisma.apiKey.findFirst({ where: { id, tenantId }, select: { id: true, revokedAt: true } });
+    if (!existing) throw new AppError("API key not found", 404, "NOT_FOUND");
+    if (existing.revokedAt) throw new AppError("API key has been revoked", 409, "API_KEY_REVOKED");
+
+    const body = req.body ?? {};
+    const data: Record<string, unknown> = {};
+    if (body.name !== undefined) data.name = parseName(body.name);
+    if (body.scopes !== undefined) data.scopes = parseScopes(body.scopes);
+    if (body.expiresAt !== undefined) data.expiresAt = parseExpiresAt(body.expiresAt);
+    if (body.propertyIds !== undefined) data.propertyIds = await parsePropertyIds(tenantId, body.propertyIds);
+
+    const apiKey = await prisma.apiKey.update({ where: { id }, data, select: apiKeySelect });
+
+    logger.info(
+      {
+        event: "audit.api_key_updated",
+        requestId: req.requestId,
+        tenantId,
+        apiKeyId: id,
+        changes: Object.keys(data),
+        actorUserId: actor.userId,
+      },
+      "Audit API key updated"
+    );
+
+    return res.json({ apiKey });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/tenant/api-keys/:id
+ * ✅ apikeys.manage: revoke immediately (kept for the audit trail)
+ */
+export async function revokeApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenantId(req);
+    const id = String(req.params.id);
+
+    const existing = await prisma.apiKey.findFirst({ where: { id, tenantId }, select: { id: true, revokedAt: true } });
+    if (!existing) throw new AppError("API key not found", 404, "NOT_FOUND");
+
+    const apiKey = existing.revokedAt
+      ? await prisma.apiKey.findUniqueOrThrow({ where: { id }, select: apiKeySelect })
+      : await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() }, select: apiKeySelect });
+
+    if (!existing.revokedAt) {
+      logger.info(
+        { event: "audit.api_key_revoked", requestId: req.requestId, tenantId, apiKeyId: id, actorUserId: actor.userId },
+        "Audit API key revoked"
+      );
+    }
+
+    return res.json({ apiKey });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -2,7 +2,8 @@ import type { Request, Response, NextFunction } from "express";
 import bcrypt from "bcryptjs";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
-import { isSuperAdminEmail } from "../../common/auth/superadmin";
+import { revokeUserSessions } from "../../common/auth/sessions";
+import { logger } from "../../common/logger/logger";
 
 type Role = "ADMIN" | "MANAGER" | "STAFF";
 type JwtUser = { userId: string; tenantId: string; role: Role };
@@ -48,9 +49,18 @@ function safeTenant(t: any) {
 function safeSettings(s: any) {
   return {
     minDepositPercent: s.minDepositPercent,
+    serviceChargePercent: Number(s.serviceChargePercent ?? 0),
+    taxPercent: Number(s.taxPercent ?? 0),
+    cancellationFreeHours: s.cancellationFreeHours,
+    cancellationFeeType: s.cancellationFeeType,
+    cancellationFeePercent: Number(s.cancellationFeePercent ?? 0),
+    noShowCutoffHours: s.noShowCutoffHours ?? null,
+    noShowFeeType: s.noShowFeeType,
+    noShowFeePercent: Number(s.noShowFeePercent ?? 0),
     maxProperties: s.maxProperties,
     maxUnits: s.maxUnits,
     maxUsers: s.maxUsers,
+    requireTwoFactorForAdmins: Boolean(s.requireTwoFactorForAdmins),
     createdAt: s.createdAt,
     updatedAt: s.updatedAt,
   };
@@ -85,26 +95,12 @@ function normalizeOptionalString(value: unknown) {
   return next ? next : null;
 }
 
-async function requireSuperAdmin(req: Request) {
-  const actor = getActor(req);
-  const actorUser = await prisma.user.findFirst({
-    where: { id: actor.userId, tenantId: actor.tenantId },
-    select: { email: true },
-  });
-  if (!actorUser) throw new AppError("Authentication required", 401, "UNAUTHORIZED");
-  if (!isSuperAdminEmail(actorUser.email)) {
-    throw new AppError("Super admin access required", 403, "SUPERADMIN_REQUIRED");
-  }
-}
-
 /**
  * POST /api/platform/tenants
- * ✅ SUPERADMIN only: create tenant + settings + first ADMIN user in one transaction
+ * ✅ Platform operators only: create tenant + settings + first ADMIN user in one transaction
  */
 export async function createPlatformTenant(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const {
       name,
       slug,
@@ -288,13 +284,10 @@ export async function getMyTenant(req: Request, res: Response, next: NextFunctio
 
 /**
  * PATCH /api/tenant
- * ✅ ADMIN only: update tenant basic info (NOT settings)
+ * ✅ tenant.manage: update tenant basic info (NOT settings)
  */
 export async function updateMyTenant(req: Request, res: Response, next: NextFunction) {
   try {
-    const actor = getActor(req);
-    if (actor.role !== "ADMIN") throw new AppError("Admin access required", 403, "FORBIDDEN");
-
     const tenantId = getTenantId(req);
 
     const { name, slug, email, phone, address } = req.body as {
@@ -345,65 +338,192 @@ export async function updateMyTenant(req: Request, res: Response, next: NextFunc
 }
 
 /**
- * PATCH /api/tenant/subscription
- * ✅ SUPERADMIN only: manual phase-1 subscription controls
+ * PATCH /api/tenant/security
+ * ✅ tenant.manage: workspace security policy
+ * Body: { requireTwoFactorForAdmins }
  */
-export async function updateMyTenantSubscription(req: Request, res: Response, next: NextFunction) {
+export async function updateMyTenantSecurity(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
+    const actor = getActor(req);
 
     const tenantId = getTenantId(req);
+    const { requireTwoFactorForAdmins } = req.body as { requireTwoFactorForAdmins?: boolean };
+    if (typeof requireTwoFactorForAdmins !== "boolean") {
+      throw new AppError("requireTwoFactorForAdmins must be a boolean", 400, "VALIDATION_ERROR");
+    }
 
-    const {
-      subscriptionStatus,
-      currentPeriodEndAt,
-      graceEndsAt,
-    } = req.body as {
-      subscriptionStatus?: "ACTIVE" | "GRACE" | "SUSPENDED";
-      currentPeriodEndAt?: string | null;
-      graceEndsAt?: string | null;
+    // Avoid an admin enforcing a policy they would immediately fail themselves.
+    if (requireTwoFactorForAdmins) {
+      const me = await prisma.user.findUnique({ where: { id: actor.userId }, select: { twoFactorEnabled: true } });
+      if (!me?.twoFactorEnabled) {
+        throw new AppError("Enable two-factor authentication on your own account first", 400, "TWO_FACTOR_SETUP_REQUIRED");
+      }
+    }
+
+    const settings = await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, requireTwoFactorForAdmins },
+      update: { requireTwoFactorForAdmins },
+    });
+
+    logger.info(
+      {
+        event: "audit.tenant_security_updated",
+        requestId: req.requestId,
+        tenantId,
+        requireTwoFactorForAdmins,
+        actorUserId: actor.userId,
+      },
+      "Audit tenant security updated"
+    );
+
+    return res.json({ settings: safeSettings(settings) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * PATCH /api/tenant/billing
+ * ✅ tenant.manage: percentages added to room rates in booking quotes
+ * Body: { serviceChargePercent?, taxPercent? }
+ */
+export async function updateMyTenantBilling(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenantId(req);
+    const { serviceChargePercent, taxPercent } = req.body as {
+      serviceChargePercent?: number | string;
+      taxPercent?: number | string;
     };
 
-    if (!subscriptionStatus || !["ACTIVE", "GRACE", "SUSPENDED"].includes(subscriptionStatus)) {
-      throw new AppError("subscriptionStatus must be ACTIVE, GRACE, or SUSPENDED", 400, "VALIDATION_ERROR");
+    const nextValues: { serviceChargePercent?: string; taxPercent?: string } = {};
+    for (const [field, value] of Object.entries({ serviceChargePercent, taxPercent })) {
+      if (value === undefined) continue;
+      const n = Number(value);
+      if (!Number.isFinite(n) || n < 0 || n > 100) {
+        throw new AppError(`${field} must be a number between 0 and 100`, 400, "VALIDATION_ERROR");
+      }
+      nextValues[field as keyof typeof nextValues] = n.toFixed(2);
+    }
+    if (Object.keys(nextValues).length === 0) {
+      throw new AppError("serviceChargePercent or taxPercent is required", 400, "VALIDATION_ERROR");
     }
 
-    const currentEndDate = parseOptionalDate(currentPeriodEndAt, "currentPeriodEndAt");
-    const graceEndDate = parseOptionalDate(graceEndsAt, "graceEndsAt");
-    validateSubscriptionDates(subscriptionStatus, currentEndDate, graceEndDate);
-
-    const before = await prisma.tenant.findUnique({
-      where: { id: tenantId },
-      select: { id: true, status: true, subscriptionStatus: true },
+    const settings = await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...nextValues },
+      update: nextValues,
     });
-    if (!before) throw new AppError("Tenant not found", 404, "NOT_FOUND");
 
-    const nextTenantStatus = subscriptionStatus === "SUSPENDED" ? "SUSPENDED" : "ACTIVE";
-
-    const updated = await prisma.tenant.update({
-      where: { id: tenantId },
-      data: {
-        status: nextTenantStatus,
-        subscriptionStatus,
-        ...(currentEndDate !== undefined ? { currentPeriodEndAt: currentEndDate } : {}),
-        ...(graceEndDate !== undefined ? { graceEndsAt: graceEndDate } : {}),
-        ...(subscriptionStatus === "SUSPENDED" ? { lastSuspensionNoticeAt: new Date() } : {}),
-        ...(before.subscriptionStatus === "SUSPENDED" && subscriptionStatus !== "SUSPENDED"
-          ? { lastReactivationNoticeAt: new Date() }
-          : {}),
+    logger.info(
+      {
+        event: "audit.tenant_billing_updated",
+        requestId: req.requestId,
+        tenantId,
+        ...nextValues,
+        actorUserId: actor.userId ?? null,
       },
-      include: { settings: true },
-    });
+      "Audit tenant billing updated"
+    );
 
-    let settings = updated.settings;
-    if (!settings) {
-      settings = await prisma.tenantSettings.create({ data: { tenantId } });
+    return res.json({ settings: safeSettings(settings) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * PATCH /api/tenant/cancellation-policy
+ * ✅ tenant.manage: free until N hours before arrival, then PERCENT of the room total or FIRST_NIGHT.
+ * The no-show job uses the noShow* fields; noShowCutoffHours: null switches it off for the tenant.
+ * Body: { cancellationFreeHours?, cancellationFeeType?, cancellationFeePercent?, noShowCutoffHours?, noShowFeeType?, noShowFeePercent? }
+ */
+export async function updateMyTenantCancellationPolicy(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenantId(req);
+    const body = req.body as {
+      cancellationFreeHours?: number | string;
+      cancellationFeeType?: string;
+      cancellationFeePercent?: number | string;
+      noShowCutoffHours?: number | string | null;
+      noShowFeeType?: string;
+      noShowFeePercent?: number | string;
+    };
+
+    const nextValues: {
+      cancellationFreeHours?: number;
+      cancellationFeeType?: "PERCENT" | "FIRST_NIGHT";
+      cancellationFeePercent?: string;
+      noShowCutoffHours?: number | null;
+      noShowFeeType?: "PERCENT" | "FIRST_NIGHT";
+      noShowFeePercent?: string;
+    } = {};
+
+    const parseHours = (field: string, value: number | string) => {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 0 || n > 24 * 365) {
+        throw new AppError(`${field} must be a whole number of hours >= 0`, 400, "VALIDATION_ERROR");
+      }
+      return n;
+    };
+    const parseFeeType = (field: string, value: string) => {
+      const t = String(value).trim().toUpperCase();
+      if (t !== "PERCENT" && t !== "FIRST_NIGHT") {
+        throw new AppError(`${field} must be PERCENT or FIRST_NIGHT`, 400, "VALIDATION_ERROR");
+      }
+      return t;
+    };
+    const parsePercent = (field: string, value: number | string) => {
+      const n = Number(value);
+      if (!Number.isFinite(n) || n < 0 || n > 100) {
+        throw new AppError(`${field} must be a number between 0 and 100`, 400, "VALIDATION_ERROR");
+      }
+      return n.toFixed(2);
+    };
+
+    if (body.cancellationFreeHours !== undefined) {
+      nextValues.cancellationFreeHours = parseHours("cancellationFreeHours", body.cancellationFreeHours);
+    }
+    if (body.cancellationFeeType !== undefined) {
+      nextValues.cancellationFeeType = parseFeeType("cancellationFeeType", body.cancellationFeeType);
+    }
+    if (body.cancellationFeePercent !== undefined) {
+      nextValues.cancellationFeePercent = parsePercent("cancellationFeePercent", body.cancellationFeePercent);
+    }
+    if (body.noShowCutoffHours !== undefined) {
+      nextValues.noShowCutoffHours =
+        body.noShowCutoffHours === null ? null : parseHours("noShowCutoffHours", body.noShowCutoffHours);
+    }
+    if (body.noShowFeeType !== undefined) {
+      nextValues.noShowFeeType = parseFeeType("noShowFeeType", body.noShowFeeType);
+    }
+    if (body.noShowFeePercent !== undefined) {
+      nextValues.noShowFeePercent = parsePercent("noShowFeePercent", body.noShowFeePercent);
+    }
+    if (Object.keys(nextValues).length === 0) {
+      throw new AppError("At least one cancellation or no-show policy field is required", 400, "VALIDATION_ERROR");
     }
 
-    return res.json({
-      tenant: safeTenant(updated),
-      settings: safeSettings(settings),
+    const settings = await prisma.tenantSettings.upsert({
+      where: { tenantId },
+      create: { tenantId, ...nextValues },
+      update: nextValues,
     });
+
+    logger.info(
+      {
+        event: "audit.tenant_cancellation_policy_updated",
+        requestId: req.requestId,
+        tenantId,
+        ...nextValues,
+        actorUserId: actor.userId ?? null,
+      },
+      "Audit tenant cancellation policy updated"
+    );
+
+    return res.json({ settings: safeSettings(settings) });
   } catch (err) {
     next(err);
   }
@@ -411,12 +531,10 @@ export async function updateMyTenantSubscription(req: Request, res: Response, ne
 
 /**
  * GET /api/platform/tenants?search=&page=&pageSize=
- * ✅ SUPERADMIN only: list all tenants across platform
+ * ✅ Platform operators only: list all tenants across platform
  */
 export async function listPlatformTenants(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const search = (req.query.search as string | undefined)?.trim();
     const page = Math.max(parseInt((req.query.page as string) || "1", 10), 1);
     const pageSize = Math.min(Math.max(parseInt((req.query.pageSize as string) || "100", 10), 1), 200);
@@ -472,12 +590,10 @@ export async function listPlatformTenants(req: Request, res: Response, next: Nex
 
 /**
  * PATCH /api/platform/tenants/:tenantId/subscription
- * ✅ SUPERADMIN only: update subscription for any tenant
+ * ✅ Platform operators only: update subscription for any tenant
  */
 export async function updatePlatformTenantSubscription(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const tenantId = String(req.params.tenantId || "").trim();
     if (!tenantId) throw new AppError("tenantId is required", 400, "VALIDATION_ERROR");
 
@@ -529,12 +645,10 @@ export async function updatePlatformTenantSubscription(req: Request, res: Respon
 
 /**
  * PATCH /api/platform/tenants/:tenantId/settings
- * ✅ SUPERADMIN only: update tenant policy + plan limits for any tenant
+ * ✅ Platform operators only: update tenant policy + plan limits for any tenant
  */
 export async function updatePlatformTenantSettings(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const tenantId = String(req.params.tenantId || "").trim();
     if (!tenantId) throw new AppError("tenantId is required", 400, "VALIDATION_ERROR");
 
@@ -543,13 +657,19 @@ export async function updatePlatformTenantSettings(req: Request, res: Response,
       maxProperties,
       maxUnits,
       maxUsers,
+      requireTwoFactorForAdmins,
     } = req.body as {
       minDepositPercent?: number;
       maxProperties?: number;
       maxUnits?: number;
       maxUsers?: number;
+      requireTwoFactorForAdmins?: boolean;
     };
 
+    if (requireTwoFactorForAdmins !== undefined && typeof requireTwoFactorForAdmins !== "boolean") {
+      throw new AppError("requireTwoFactorForAdmins must be a boolean", 400, "VALIDATION_ERROR");
+    }
+
     const nextValues = {
       minDepositPercent: minDepositPercent !== undefined ? Number(minDepositPercent) : undefined,
       maxProperties: maxProperties !== undefined ? Number(maxProperties) : undefined,
@@ -586,12 +706,14 @@ export async function updatePlatformTenantSettings(req: Request, res: Response,
         ...(nextValues.maxProperties !== undefined ? { maxProperties: nextValues.maxProperties } : {}),
         ...(nextValues.maxUnits !== undefined ? { maxUnits: nextValues.maxUnits } : {}),
         ...(nextValues.maxUsers !== undefined ? { maxUsers: nextValues.maxUsers } : {}),
+        ...(requireTwoFactorForAdmins !== undefined ? { requireTwoFactorForAdmins } : {}),
       },
       update: {
         ...(nextValues.minDepositPercent !== undefined ? { minDepositPercent: nextValues.minDepositPercent } : {}),
         ...(nextValues.maxProperties !== undefined ? { maxProperties: nextValues.maxProperties } : {}),
         ...(nextValues.maxUnits !== undefined ? { maxUnits: nextValues.maxUnits } : {}),
         ...(nextValues.maxUsers !== undefined ? { maxUsers: nextValues.maxUsers } : {}),
+        ...(requireTwoFactorForAdmins !== undefined ? { requireTwoFactorForAdmins } : {}),
       },
     });
 
@@ -606,12 +728,10 @@ export async function updatePlatformTenantSettings(req: Request, res: Response,
 
 /**
  * GET /api/platform/tenant-admins?search=&tenantId=&status=&page=&pageSize=
- * ✅ SUPERADMIN only: list ADMIN users across all tenants
+ * ✅ Platform operators only: list ADMIN users across all tenants
  */
 export async function listPlatformTenantAdmins(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const search = (req.query.search as string | undefined)?.trim();
     const tenantId = (req.query.tenantId as string | undefined)?.trim();
     const statusQuery = (req.query.status as string | undefined)?.trim().toUpperCase();
@@ -684,12 +804,10 @@ export async function listPlatformTenantAdmins(req: Request, res: Response, next
 
 /**
  * PATCH /api/platform/users/:userId
- * ✅ SUPERADMIN only: update any user across tenants
+ * ✅ Platform operators only: update any user across tenants
  */
 export async function updatePlatformUser(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const userId = String(req.params.userId || "").trim();
     if (!userId) throw new AppError("userId is required", 400, "VALIDATION_ERROR");
 
@@ -714,7 +832,7 @@ export async function updatePlatformUser(req: Request, res: Response, next: Next
       data: {
         ...(fullName !== undefined ? { fullName: normalizeOptionalString(fullName) } : {}),
         ...(phone !== undefined ? { phone: normalizeOptionalString(phone) } : {}),
-        ...(role !== undefined ? { role } : {}),
+        ...(role !== undefined ? { role, tokenVersion: { increment: 1 } } : {}),
       },
       select: {
         id: true,
@@ -747,12 +865,10 @@ export async function updatePlatformUser(req: Request, res: Response, next: Next
 /**
  * POST /api/platform/users/:userId/disable
  * POST /api/platform/users/:userId/enable
- * ✅ SUPERADMIN only
+ * ✅ Platform operators only
  */
 export async function togglePlatformUserStatus(req: Request, res: Response, next: NextFunction) {
   try {
-    await requireSuperAdmin(req);
-
     const userId = String(req.params.userId || "").trim();
     if (!userId) throw new AppError("userId is required", 400, "VALIDATION_ERROR");
 
@@ -769,7 +885,10 @@ export async function togglePlatformUserStatus(req: Request, res: Response, next
 
     const updated = await prisma.user.update({
       where: { id: userId },
-      data: { status: action === "disable" ? "DISABLED" : "ACTIVE" },
+      data:
+        action === "disable"
+          ? { status: "DISABLED", tokenVersion: { increment: 1 } }
+          : { status: "ACTIVE" },
       select: {
         id: true,
         tenantId: true,
@@ -792,6 +911,8 @@ export async function togglePlatformUserStatus(req: Request, res: Response, next
       },
     });
 
+    if (action === "disable") await revokeUserSessions(userId, "ACCOUNT_DISABLED");
+
     return res.json({ user: updated });
   } catch (err) {
     next(err);
@@ -1,27 +1,30 @@
 import { Router } from "express";
-import { requireAuth } from "../../middleware/auth.middleware";
+import { requireAuth, requireUser } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import {
-  createPlatformTenant,
   getMyTenant,
-  listPlatformTenantAdmins,
-  listPlatformTenants,
-  togglePlatformUserStatus,
   updateMyTenant,
-  updateMyTenantSubscription,
-  updatePlatformTenantSettings,
-  updatePlatformUser,
-  updatePlatformTenantSubscription,
+  updateMyTenantBilling,
+  updateMyTenantCancellationPolicy,
+  updateMyTenantSecurity,
 } from "./tenant.controller";
+import { createApiKey, listApiKeys, revokeApiKey, updateApiKey } from "./api-keys.controller";
 
 export const tenantRoutes = Router();
 
-tenantRoutes.get("/tenant", requireAuth, getMyTenant);
-tenantRoutes.patch("/tenant", requireAuth, updateMyTenant);
-tenantRoutes.patch("/tenant/subscription", requireAuth, updateMyTenantSubscription);
-tenantRoutes.post("/platform/tenants", requireAuth, createPlatformTenant);
-tenantRoutes.get("/platform/tenants", requireAuth, listPlatformTenants);
-tenantRoutes.patch("/platform/tenants/:tenantId/subscription", requireAuth, updatePlatformTenantSubscription);
-tenantRoutes.patch("/platform/tenants/:tenantId/settings", requireAuth, updatePlatformTenantSettings);
-tenantRoutes.get("/platform/tenant-admins", requireAuth, listPlatformTenantAdmins);
-tenantRoutes.patch("/platform/users/:userId", requireAuth, updatePlatformUser);
-tenantRoutes.post("/platform/users/:userId/:action", requireAuth, togglePlatformUserStatus);
+tenantRoutes.get("/tenant", requireAuth, requireUser, getMyTenant);
+tenantRoutes.patch("/tenant", requireAuth, requirePermission("tenant.manage"), updateMyTenant);
+tenantRoutes.patch("/tenant/security", requireAuth, requirePermission("tenant.manage"), updateMyTenantSecurity);
+tenantRoutes.patch("/tenant/billing", requireAuth, requirePermission("tenant.manage"), updateMyTenantBilling);
+tenantRoutes.patch(
+  "/tenant/cancellation-policy",
+  requireAuth,
+  requirePermission("tenant.manage"),
+  updateMyTenantCancellationPolicy
+);
+
+// Integration credentials; managed by users only, never by another key
+tenantRoutes.get("/tenant/api-keys", requireAuth, requireUser, requirePermission("apikeys.manage"), listApiKeys);
+tenantRoutes.post("/tenant/api-keys", requireAuth, requireUser, requirePermission("apikeys.manage"), createApiKey);
+tenantRoutes.patch("/tenant/api-keys/:id", requireAuth, requireUser, requirePermission("apikeys.manage"), updateApiKey);
+tenantRoutes.delete("/tenant/api-keys/:id", requireAuth, requireUser, requirePermission("apikeys.manage"), revokeApiKey);
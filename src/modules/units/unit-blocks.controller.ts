@@ -0,0 +1,192 @@
+import type { Request, Response } from "express";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import { resolvePropertyScope, scopedUnitWhere } from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { assertBlockRange, assertNoBookingsInWindow, openUnitBlock, unitBlockSelect } from "./unit-blocks";
+
+function parseOptionalDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return null;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function parseRequiredDate(value: unknown, field: string) {
+  const d = parseOptionalDate(value, field);
+  if (!d) throw new AppError(`${field} is required`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function parseReason(value: unknown) {
+  const reason = typeof value === "string" ? value.trim() : "";
+  if (!reason) throw new AppError("reason is required", 400, "VALIDATION_ERROR");
+  if (reason.length > 200) throw new AppError("reason must be at most 200 characters", 400, "VALIDATION_ERROR");
+  return reason;
+}
+
+function parseNotes(value: unknown) {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+async function findUnitInScope(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, unitId: string) {
+  const unit = await db.raw.unit.findFirst({
+    where: { id: unitId, tenantId, ...scopedUnitWhere(scope) },
+    select: { id: true, name: true, propertyId: true },
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+  return unit;
+}
+
+async function loadBlock(db: ReturnType<typeof prismaForTenant>, tenantId: string, unitId: string, blockId: string) {
+  const block = await db.raw.unitBlock.findFirst({ where: { id: blockId, tenantId, unitId }, select: unitBlockSelect });
+  if (!block) throw new AppError("Unit block not found", 404, "UNIT_BLOCK_NOT_FOUND");
+  return block;
+}
+
+/**
+ * GET /api/units/:unitId/blocks?from=&to=
+ * Blocks overlapping [from, to) when given, otherwise every block on the unit.
+ */
+export const listUnitBlocks = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+
+  const from = parseOptionalDate(req.query.from, "from");
+  const to = parseOptionalDate(req.query.to, "to");
+
+  const blocks = await db.raw.unitBlock.findMany({
+    where: {
+      tenantId,
+      unitId: unit.id,
+      ...(from ? { endDate: { gt: from } } : {}),
+      ...(to ? { startDate: { lt: to } } : {}),
+    },
+    orderBy: { startDate: "asc" },
+    select: unitBlockSelect,
+  });
+
+  res.json({ blocks });
+});
+
+/**
+ * POST /api/units/:unitId/blocks
+ * Body: { startDate, endDate, reason, notes? }
+ * endDate is exclusive, like a booking's checkOut.
+ */
+export const createUnitBlock = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+  const body = req.body ?? {};
+
+  const startDate = parseRequiredDate(body.startDate, "startDate");
+  const endDate = parseRequiredDate(body.endDate, "endDate");
+  const reason = parseReason(body.reason);
+
+  const block = await openUnitBlock(db.raw, {
+    tenantId,
+    unitId: unit.id,
+    startDate,
+    endDate,
+    reason,
+    notes: parseNotes(body.notes),
+    createdByUserId: user?.userId ?? null,
+  });
+
+  logger.info(
+    {
+      event: "audit.unit_block_created",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      blockId: block.id,
+      startDate,
+      endDate,
+      reason,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit unit block created"
+  );
+
+  res.status(201).json({ block });
+});
+
+/**
+ * PATCH /api/units/:unitId/blocks/:blockId
+ * Body: { startDate?, endDate?, reason?, notes? }
+ */
+export const updateUnitBlock = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+  const current = await loadBlock(db, tenantId, unit.id, String(req.params.blockId));
+  const body = req.body ?? {};
+
+  const data: any = {};
+  if (body.startDate !== undefined) data.startDate = parseRequiredDate(body.startDate, "startDate");
+  if (body.endDate !== undefined) data.endDate = parseRequiredDate(body.endDate, "endDate");
+  if (body.reason !== undefined) data.reason = parseReason(body.reason);
+  if (body.notes !== undefined) data.notes = parseNotes(body.notes);
+
+  const startDate: Date = data.startDate ?? current.startDate;
+  const endDate: Date = data.endDate ?? current.endDate;
+  if (data.startDate || data.endDate) {
+    assertBlockRange(startDate, endDate);
+    await assertNoBookingsInWindow(db.raw, { tenantId, unitId: unit.id, startDate, endDate });
+  }
+
+  const block = await db.raw.unitBlock.update({ where: { id: current.id }, data, select: unitBlockSelect });
+
+  logger.info(
+    {
+      event: "audit.unit_block_updated",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      blockId: block.id,
+      changes: Object.keys(data),
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit unit block updated"
+  );
+
+  res.json({ block });
+});
+
+/**
+ * DELETE /api/units/:unitId/blocks/:blockId
+ * Returns the unit to service for the block's dates.
+ */
+export const deleteUnitBlock = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const unit = await findUnitInScope(db, tenantId, scope, String(req.params.unitId));
+  const block = await loadBlock(db, tenantId, unit.id, String(req.params.blockId));
+
+  await db.raw.unitBlock.delete({ where: { id: block.id } });
+
+  logger.info(
+    {
+      event: "audit.unit_block_deleted",
+      requestId: req.requestId,
+      tenantId,
+      unitId: unit.id,
+      blockId: block.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit unit block deleted"
+  );
+
+  res.status(204).send();
+});
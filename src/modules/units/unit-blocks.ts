@@ -0,0 +1,81 @@
+// src/modules/units/unit-blocks.ts
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { findUnitConflict } from "../bookings/booking.availability";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MAX_BLOCK_DAYS = 366;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const unitBlockSelect = {
+  id: true,
+  unitId: true,
+  startDate: true,
+  endDate: true,
+  reason: true,
+  notes: true,
+  createdByUserId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+export function assertBlockRange(startDate: Date, endDate: Date) {
+  if (endDate <= startDate) throw new AppError("endDate must be after startDate", 400, "VALIDATION_ERROR");
+  if (endDate.getTime() - startDate.getTime() > MAX_BLOCK_DAYS * DAY_MS) {
+    throw new AppError(`Block cannot exceed ${MAX_BLOCK_DAYS} days`, 400, "VALIDATION_ERROR");
+  }
+}
+
+/**
+ * Guests already booked into the window have to be moved or cancelled first,
+ * otherwise they would arrive to a room that is out of order.
+ */
+export async function assertNoBookingsInWindow(
+  db: Db,
+  input: { tenantId: string; unitId: string; startDate: Date; endDate: Date }
+) {
+  const conflict = await findUnitConflict(db, {
+    tenantId: input.tenantId,
+    unitId: input.unitId,
+    checkIn: input.startDate,
+    checkOut: input.endDate,
+  });
+  if (conflict) {
+    throw new AppError("Unit has bookings in this period; move or cancel them first", 409, "UNIT_NOT_AVAILABLE", {
+      conflictingBookingId: conflict.id,
+      conflictStatus: conflict.status,
+      conflictCheckIn: conflict.checkIn,
+      conflictCheckOut: conflict.checkOut,
+    });
+  }
+}
+
+/** Validates the window and creates the block. Used by the blocks API and by work orders. */
+export async function openUnitBlock(
+  db: Db,
+  input: {
+    tenantId: string;
+    unitId: string;
+    startDate: Date;
+    endDate: Date;
+    reason: string;
+    notes?: string | null;
+    createdByUserId?: string | null;
+  }
+) {
+  assertBlockRange(input.startDate, input.endDate);
+  await assertNoBookingsInWindow(db, input);
+  return db.unitBlock.create({
+    data: {
+      tenantId: input.tenantId,
+      unitId: input.unitId,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      reason: input.reason,
+      notes: input.notes ?? null,
+      createdByUserId: input.createdByUserId ?? null,
+    },
+    select: unitBlockSelect,
+  });
+}
@@ -5,6 +5,7 @@ import { assertPropertyInScope, resolvePropertyScope, scopedUnitWhere } from "..
 
 // prisma folder is at project root (outside src)
 import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { parseAmenities } from "../../common/utils/amenities";
 
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 const LAGOS_TZ = "Africa/Lagos";
@@ -64,6 +65,24 @@ function toOptionalDate(value: unknown, field: string) {
   return d;
 }
 
+/**
+ * A unit can only join a room category of its own property; null or "" takes it out of its category.
+ */
+async function resolveUnitCategory(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  propertyId: string,
+  categoryId: unknown
+) {
+  if (categoryId === null || categoryId === "") return null;
+  const category = await db.raw.roomCategory.findFirst({
+    where: { id: String(categoryId), tenantId, propertyId },
+    select: { id: true, capacity: true },
+  });
+  if (!category) throw new AppError("Room category not found for this property", 404, "ROOM_CATEGORY_NOT_FOUND");
+  return category;
+}
+
 export const createUnit = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
   const { propertyId } = req.params;
@@ -76,7 +95,7 @@ export const createUnit = asyncHandler(async (req: Request, res: Response) => {
   const property = await db.property.findById(propertyId);
   if (!property) throw new AppError("Property not found", 404, "PROPERTY_NOT_FOUND");
 
-  const { type, name, capacity, basePrice } = req.body;
+  const { type, name, capacity, basePrice, categoryId, description, amenities } = req.body;
 
   if (!type || (type !== "ROOM" && type !== "APARTMENT")) {
     throw new AppError("type must be ROOM or APARTMENT", 400, "VALIDATION_ERROR");
@@ -85,9 +104,12 @@ export const createUnit = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError("name is required", 400, "VALIDATION_ERROR");
   }
 
+  // Without its own capacity or price a unit takes the category's (price is resolved when quoting).
+  const category = categoryId !== undefined ? await resolveUnitCategory(db, tenantId, String(propertyId), categoryId) : null;
+
   const cap =
     capacity === undefined || capacity === null
-      ? 1
+      ? category?.capacity ?? 1
       : Number.isFinite(Number(capacity))
       ? Number(capacity)
       : NaN;
@@ -104,10 +126,13 @@ export const createUnit = asyncHandler(async (req: Request, res: Response) => {
   const unit = await db.unit.create({
     data: {
       propertyId,
+      categoryId: category?.id ?? null,
       type,
       name,
       capacity: cap,
       basePrice: basePrice ?? null,
+      description: description ? String(description).trim() : null,
+      amenities: parseAmenities(amenities),
     },
   });
 
@@ -116,7 +141,7 @@ export const createUnit = asyncHandler(async (req: Request, res: Response) => {
 
 export const listUnitsByProperty = asyncHandler(async (req: Request, res: Response) => {
   const tenantId = req.tenantId!;
-  const { propertyId } = req.params;
+  const propertyId = Array.isArray(req.params.propertyId) ? req.params.propertyId[0] : req.params.propertyId;
   const propertyScope = await resolvePropertyScope(req);
   assertPropertyInScope(propertyScope, propertyId);
 
@@ -128,8 +153,10 @@ export const listUnitsByProperty = asyncHandler(async (req: Request, res: Respon
 
   await clearExpiredUnitPromos(db, tenantId, propertyId);
 
+  const categoryId = req.query.categoryId ? String(req.query.categoryId) : undefined;
+
   const units = await db.unit.findMany({
-    where: { propertyId },
+    where: { propertyId, ...(categoryId ? { categoryId } : {}) },
     orderBy: { createdAt: "desc" },
   });
 
@@ -143,6 +170,7 @@ export const listUnits = asyncHandler(async (req: Request, res: Response) => {
 
   // Optional filters
   const propertyId = req.query.propertyId ? String(req.query.propertyId) : undefined;
+  const categoryId = req.query.categoryId ? String(req.query.categoryId) : undefined;
 
   await clearExpiredUnitPromos(db, tenantId, propertyId);
 
@@ -151,6 +179,7 @@ export const listUnits = asyncHandler(async (req: Request, res: Response) => {
       tenantId,
       ...scopedUnitWhere(propertyScope),
       ...(propertyId ? { propertyId } : {}),
+      ...(categoryId ? { categoryId } : {}),
     },
     orderBy: { createdAt: "desc" },
   });
@@ -182,6 +211,9 @@ export const updateUnit = asyncHandler(async (req: Request, res: Response) => {
     discountStart,
     discountEnd,
     discountLabel,
+    categoryId,
+    description,
+    amenities,
   } = req.body ?? {};
 
   if (type !== undefined && type !== "ROOM" && type !== "APARTMENT") {
@@ -211,6 +243,9 @@ export const updateUnit = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError("discountValue must be a string like \"10.00\"", 400, "VALIDATION_ERROR");
   }
 
+  const category =
+    categoryId !== undefined ? await resolveUnitCategory(db, tenantId, unit.propertyId, categoryId) : undefined;
+
   const startDate = toOptionalDate(discountStart, "discountStart");
   const endDate = toOptionalDate(discountEnd, "discountEnd");
   if (startDate && endDate && endDate < startDate) {
@@ -230,6 +265,9 @@ export const updateUnit = asyncHandler(async (req: Request, res: Response) => {
       ...(name !== undefined ? { name: String(name).trim() } : {}),
       ...(type !== undefined ? { type } : {}),
       ...(cap !== undefined ? { capacity: cap } : {}),
+      ...(category !== undefined ? { categoryId: category?.id ?? null } : {}),
+      ...(description !== undefined ? { description: description ? String(description).trim() : null } : {}),
+      ...(amenities !== undefined ? { amenities: parseAmenities(amenities) } : {}),
       ...(basePrice !== undefined ? { basePrice: basePrice ? String(basePrice) : null } : {}),
       ...(shouldClearDiscount
         ? {
@@ -1,36 +1,42 @@
 import { Router } from "express";
 import { createUnit, deleteUnit, listUnitsByProperty, updateUnit } from "./unit.controller";
 import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import { listUnits } from "./unit.controller";
+import { createUnitBlock, deleteUnitBlock, listUnitBlocks, updateUnitBlock } from "./unit-blocks.controller";
 
 export const unitRoutes = Router();
 
 unitRoutes.post(
   "/properties/:propertyId/units",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("units.manage"),
   createUnit
 );
 
-unitRoutes.get("/properties/:propertyId/units", requireAuth, listUnitsByProperty);
+unitRoutes.get("/properties/:propertyId/units", requireAuth, requirePermission("units.view"), listUnitsByProperty);
 unitRoutes.get(
   "/units",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("units.manage"),
   listUnits
 );
 
 unitRoutes.patch(
   "/units/:unitId",
   requireAuth,
-  requireRole("ADMIN", "MANAGER"),
+  requirePermission("units.manage"),
   updateUnit
 );
 
 unitRoutes.delete(
   "/properties/:propertyId/units/:unitId",
   requireAuth,
-  requireRole("ADMIN"),
+  requirePermission("units.delete"),
   deleteUnit
 );
+
+unitRoutes.get("/units/:unitId/blocks", requireAuth, requirePermission("units.view"), listUnitBlocks);
+unitRoutes.post("/units/:unitId/blocks", requireAuth, requirePermission("units.manage"), createUnitBlock);
+unitRoutes.patch("/units/:unitId/blocks/:blockId", requireAuth, requirePermission("units.manage"), updateUnitBlock);
+unitRoutes.delete("/units/:unitId/blocks/:blockId", requireAuth, requirePermission("units.manage"), deleteUnitBlock);
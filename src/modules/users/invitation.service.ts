@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { prisma } from "../../prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { passwordPolicyErrors } from "../../common/auth/passwordPolicy";
+import { sendStaffInvitationEmail } from "../../common/notifications/email";
+import { logger } from "../../common/logger/logger";
+
+function inviteTtlMs() {
+  const hours = Number(process.env.STAFF_INVITE_EXPIRES_IN_HOURS || 72);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * 60 * 60 * 1000;
+}
+
+function hashInviteToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Placeholder hash for INVITED users so no password can match before they accept.
+ */
+export async function unusablePasswordHash() {
+  return bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+}
+
+/**
+ * Issues a fresh invitation link (revoking any earlier one) and emails it.
+ */
+export async function sendInvitation(
+  user: { id: string; tenantId: string; email: string; role: string },
+  invitedBy: { userId: string }
+) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + inviteTtlMs());
+
+  const [, , tenant, inviter] = await prisma.$transaction([
+    prisma.userInvitation.updateMany({
+      where: { userId: user.id, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+    prisma.userInvitation.create({
+      data: {
+        tenantId: user.tenantId,
+        userId: user.id,
+        tokenHash: hashInviteToken(token),
+        expiresAt,
+        invitedByUserId: invitedBy.userId,
+      },
+    }),
+    prisma.tenant.findUnique({ where: { id: user.tenantId }, select: { name: true, slug: true } }),
+    prisma.user.findUnique({ where: { id: invitedBy.userId }, select: { fullName: true, email: true } }),
+  ]);
+
+  const frontend = process.env.FRONTEND_URL || "http://localhost:5173";
+  const inviteLink = `${frontend}/accept-invite?token=${encodeURIComponent(token)}&tenant=${encodeURIComponent(
+    tenant?.slug ?? ""
+  )}`;
+
+  try {
+    await sendStaffInvitationEmail({
+      to: user.email,
+      inviteLink,
+      tenantName: tenant?.name,
+      inviterName: inviter?.fullName || inviter?.email,
+      role: user.role,
+      expiresAt,
+    });
+  } catch (err) {
+    logger.warn(
+      { event: "notify.staff_invitation_failed", tenantId: user.tenantId, userId: user.id, err },
+      "Failed to send staff invitation email"
+    );
+  }
+
+  return { expiresAt };
+}
+
+export async function revokeInvitations(userId: string) {
+  const result = await prisma.userInvitation.updateMany({
+    where: { userId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
+
+async function findPendingInvitation(token: string) {
+  const invitation = await prisma.userInvitation.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+    include: {
+      user: { select: { id: true, tenantId: true, email: true, role: true, status: true, fullName: true } },
+      tenant: { select: { name: true, slug: true, status: true } },
+    },
+  });
+
+  if (
+    !invitation ||
+    invitation.acceptedAt ||
+    invitation.revokedAt ||
+    invitation.expiresAt.getTime() <= Date.now() ||
+    invitation.user.status !== "INVITED" ||
+    invitation.tenant.status !== "ACTIVE"
+  ) {
+    throw new AppError("Invitation is invalid or has expired", 400, "INVALID_INVITATION");
+  }
+  return invitation;
+}
+
+/**
+ * Details for the accept-invite page.
+ */
+export async function describeInvitation(token: string) {
+  const invitation = await findPendingInvitation(token);
+  return {
+    email: invitation.user.email,
+    fullName: invitation.user.fullName,
+    role: invitation.user.role,
+    tenantId: invitation.tenantId,
+    tenantName: invitation.tenant.name,
+    tenantSlug: invitation.tenant.slug,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+export async function acceptInvitation(token: string, input: { password: string; fullName?: string; phone?: string }) {
+  const policy = passwordPolicyErrors(input.password);
+  if (policy.length > 0) {
+    throw new AppError(`Password must include ${policy.join(", ")}`, 400, "WEAK_PASSWORD");
+  }
+
+  const invitation = await findPendingInvitation(token);
+  const passwordHash = await bcrypt.hash(input.password, 10);
+  const now = new Date();
+
+  const accepted = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.userInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: now },
+    });
+    if (claimed.count === 0) return false;
+
+    await tx.user.update({
+      where: { id: invitation.userId },
+      data: {
+        passwordHash,
+        status: "ACTIVE",
+        ...(input.fullName?.trim() ? { fullName: input.fullName.trim() } : {}),
+        ...(input.phone?.trim() ? { phone: input.phone.trim() } : {}),
+      },
+    });
+    return true;
+  });
+
+  if (!accepted) throw new AppError("Invitation is invalid or has expired", 400, "INVALID_INVITATION");
+
+  logger.info(
+    {
+      event: "audit.invitation_accepted",
+      tenantId: invitation.tenantId,
+      actorUserId: invitation.userId,
+      invitedByUserId: invitation.invitedByUserId,
+    },
+    "Audit invitation accepted"
+  );
+
+  return { tenantId: invitation.tenantId, tenantSlug: invitation.tenant.slug, email: invitation.user.email };
+}
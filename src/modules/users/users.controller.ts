@@ -3,10 +3,14 @@ import bcrypt from "bcrypt";
 import { prisma } from "../../prisma/client";
 import { AppError } from "../../common/errors/AppError";
 import { passwordPolicyErrors } from "../../common/auth/passwordPolicy";
+import { listActiveSessions, revokeSessionFamily, revokeUserSessions } from "../../common/auth/sessions";
+import { logger } from "../../common/logger/logger";
+import { assertCanGrantPermissions, hasPermission } from "../../middleware/permission.middleware";
+import { revokeInvitations, sendInvitation, unusablePasswordHash } from "./invitation.service";
 
 type Role = "ADMIN" | "MANAGER" | "STAFF";
-type JwtUser = { userId: string; tenantId: string; role: Role };
-type UserStatus = "ACTIVE" | "DISABLED";
+type JwtUser = { userId: string; tenantId: string; role: Role; sessionId?: string };
+type UserStatus = "ACTIVE" | "DISABLED" | "INVITED";
 
 function getActor(req: Request): JwtUser {
   const u = (req as any).user as JwtUser | undefined;
@@ -77,6 +81,8 @@ function safeUser(u: any) {
     fullName: u.fullName,
     phone: u.phone,
     assignedPropertyIds: Array.isArray(u.assignedPropertyIds) ? u.assignedPropertyIds : [],
+    lockedUntil: u.lockedUntil ?? null,
+    roleTemplateId: u.tenantRoleId ?? null,
     createdAt: u.createdAt,
     updatedAt: u.updatedAt,
   };
@@ -97,7 +103,7 @@ export async function listUsers(req: Request, res: Response, next: NextFunction)
       ? (["ADMIN", "MANAGER", "STAFF"].includes(roleQuery) ? (roleQuery as Role) : null)
       : undefined;
     const status = statusQuery
-      ? (["ACTIVE", "DISABLED"].includes(statusQuery) ? (statusQuery as UserStatus) : null)
+      ? (["ACTIVE", "DISABLED", "INVITED"].includes(statusQuery) ? (statusQuery as UserStatus) : null)
       : undefined;
 
     if (role === null) throw new AppError("Invalid role filter", 400, "VALIDATION_ERROR");
@@ -144,6 +150,8 @@ export async function listUsers(req: Request, res: Response, next: NextFunction)
           assignedPropertyIds: true,
           createdAt: true,
           updatedAt: true,
+          lockedUntil: true,
+          tenantRoleId: true,
           // status: true, // ✅ uncomment only if you added status to Prisma
         },
       }),
@@ -183,6 +191,8 @@ export async function getUserById(req: Request, res: Response, next: NextFunctio
         assignedPropertyIds: true,
         createdAt: true,
         updatedAt: true,
+        lockedUntil: true,
+        tenantRoleId: true,
         // status: true, // ✅ uncomment only if you added status
       },
     });
@@ -200,7 +210,8 @@ export async function getUserById(req: Request, res: Response, next: NextFunctio
 
 /**
  * POST /api/users
- * Body: { email, role, fullName?, phone?, tempPassword? }
+ * Body: { email, role, fullName?, phone?, assignedPropertyIds? }
+ * Creates the user as INVITED and emails an accept link; the invitee chooses their own password.
  *
  * ADMIN: create ADMIN/MANAGER/STAFF
  * MANAGER: create STAFF only
@@ -210,12 +221,11 @@ export async function createStaffOrManager(req: Request, res: Response, next: Ne
     const actor = getActor(req);
     const tenantId = getTenant(req);
 
-    const { email, role, fullName, phone, tempPassword, assignedPropertyIds } = req.body as {
+    const { email, role, fullName, phone, assignedPropertyIds } = req.body as {
       email?: string;
       role?: Role;
       fullName?: string;
       phone?: string;
-      tempPassword?: string;
       assignedPropertyIds?: unknown;
     };
 
@@ -252,20 +262,14 @@ export async function createStaffOrManager(req: Request, res: Response, next: Ne
     });
     if (existing) throw new AppError("Email already registered", 409, "EMAIL_EXISTS");
 
-    const plain =
-      tempPassword?.trim() ||
-      `Tmp${Math.random().toString(36).slice(2, 8)}${Date.now().toString().slice(-4)}!`;
-    const policy = passwordPolicyErrors(plain);
-    if (policy.length > 0) {
-      throw new AppError(`Temporary password must include ${policy.join(", ")}`, 400, "WEAK_PASSWORD");
-    }
-    const passwordHash = await bcrypt.hash(plain, 10);
+    const passwordHash = await unusablePasswordHash();
 
     const created = await prisma.user.create({
       data: {
         tenantId,
         email: normalizedEmail,
         role,
+        status: "INVITED",
         fullName: fullName?.trim() || null,
         phone: phone?.trim() || null,
         passwordHash,
@@ -285,9 +289,22 @@ export async function createStaffOrManager(req: Request, res: Response, next: Ne
       },
     });
 
+    const invitation = await sendInvitation(created, { userId: actor.userId });
+    logger.info(
+      {
+        event: "audit.user_invited",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: created.id,
+        role: created.role,
+        actorUserId: actor.userId,
+      },
+      "Audit user invited"
+    );
+
     return res.status(201).json({
       user: safeUser(created),
-      tempPassword: plain,
+      invitation,
     });
   } catch (err) {
     next(err);
@@ -296,7 +313,7 @@ export async function createStaffOrManager(req: Request, res: Response, next: Ne
 
 /**
  * PATCH /api/users/:id
- * Body: { fullName?, phone?, role? }
+ * Body: { fullName?, phone?, role?, assignedPropertyIds?, roleTemplateId? }
  *
  * ADMIN: can update anyone
  * MANAGER: can update STAFF only
@@ -317,17 +334,46 @@ export async function updateUserById(req: Request, res: Response, next: NextFunc
       throw new AppError("Insufficient permissions to update this user", 403, "FORBIDDEN");
     }
 
-    const { fullName, phone, role, assignedPropertyIds } = req.body as {
+    const { fullName, phone, assignedPropertyIds, roleTemplateId } = req.body as {
       fullName?: string;
       phone?: string;
       role?: Role;
       assignedPropertyIds?: unknown;
+      roleTemplateId?: string | null;
     };
+    let { role } = req.body as { role?: Role };
+
+    // A role template fixes the user's base role; null returns them to the built-in defaults.
+    let tenantRoleId: string | null | undefined;
+    if (roleTemplateId !== undefined) {
+      if (!hasPermission(req, "roles.manage")) {
+        throw new AppError("Insufficient permissions to assign role templates", 403, "FORBIDDEN");
+      }
+      if (actor.userId === id) throw new AppError("You cannot change your own role", 400, "VALIDATION_ERROR");
+
+      if (roleTemplateId === null) {
+        tenantRoleId = null;
+      } else {
+        const template = await prisma.tenantRole.findFirst({
+          where: { id: String(roleTemplateId), tenantId },
+          select: { id: true, baseRole: true, permissions: true },
+        });
+        if (!template) throw new AppError("Role template not found", 404, "NOT_FOUND");
+        assertCanGrantPermissions(req, template.permissions);
+        if (role !== undefined && role !== template.baseRole) {
+          throw new AppError("role does not match the role template", 400, "VALIDATION_ERROR");
+        }
+        tenantRoleId = template.id;
+        role = template.baseRole;
+      }
+    }
 
     if (role !== undefined) {
       if (!["ADMIN", "MANAGER", "STAFF"].includes(role)) throw new AppError("Invalid role", 400, "VALIDATION_ERROR");
       if (!canAssignRole(actor.role, role)) throw new AppError("Insufficient permissions to assign this role", 403, "FORBIDDEN");
       if (actor.userId === id) throw new AppError("You cannot change your own role", 400, "VALIDATION_ERROR");
+      // A plain role change drops any template built on the previous role.
+      if (tenantRoleId === undefined) tenantRoleId = null;
     }
 
     const normalizedAssigned = normalizeAssignedPropertyIds(assignedPropertyIds);
@@ -348,6 +394,11 @@ export async function updateUserById(req: Request, res: Response, next: NextFunc
         ...(role !== undefined ? { role } : {}),
         ...(normalizedAssigned !== undefined ? { assignedPropertyIds: normalizedAssigned } : {}),
         ...(role === "ADMIN" ? { assignedPropertyIds: [] } : {}),
+        ...(tenantRoleId !== undefined ? { tenantRoleId } : {}),
+        // Role, permission or scope changes must not wait for outstanding tokens to expire.
+        ...(role !== undefined || normalizedAssigned !== undefined || tenantRoleId !== undefined
+          ? { tokenVersion: { increment: 1 } }
+          : {}),
       },
       select: {
         id: true,
@@ -358,6 +409,7 @@ export async function updateUserById(req: Request, res: Response, next: NextFunc
         fullName: true,
         phone: true,
         assignedPropertyIds: true,
+        tenantRoleId: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -444,9 +496,11 @@ export async function changeMyPassword(req: Request, res: Response, next: NextFu
 
     await prisma.user.update({
       where: { id: user.id },
-      data: { passwordHash },
+      data: { passwordHash, tokenVersion: { increment: 1 } },
       select: { id: true },
     });
+    // Other devices are signed out; this one renews its access token via /auth/refresh.
+    await revokeUserSessions(user.id, "PASSWORD_CHANGED", { exceptSessionId: actor.sessionId });
 
     return res.json({ message: "Password updated successfully" });
   } catch (err) {
@@ -477,7 +531,7 @@ export async function disableUser(req: Request, res: Response, next: NextFunctio
 
     const updated = await prisma.user.update({
       where: { id },
-      data: { status: "DISABLED" },
+      data: { status: "DISABLED", tokenVersion: { increment: 1 } },
       select: {
         id: true,
         tenantId: true,
@@ -492,6 +546,19 @@ export async function disableUser(req: Request, res: Response, next: NextFunctio
       },
     });
 
+    const revokedSessions = await revokeUserSessions(target.id, "ACCOUNT_DISABLED");
+    logger.info(
+      {
+        event: "audit.user_disabled",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: target.id,
+        revokedSessions,
+        actorUserId: actor.userId,
+      },
+      "Audit user disabled"
+    );
+
     return res.json({ user: safeUser(updated) });
   } catch (err) {
     next(err);
@@ -506,10 +573,13 @@ export async function enableUser(req: Request, res: Response, next: NextFunction
 
     const target = await prisma.user.findFirst({
       where: { id, tenantId },
-      select: { id: true, role: true },
+      select: { id: true, role: true, status: true },
     });
 
     if (!target) throw new AppError("User not found", 404, "NOT_FOUND");
+    if (target.status === "INVITED") {
+      throw new AppError("User has not accepted their invitation yet", 400, "INVITATION_PENDING");
+    }
     if (!canManagerActOnTarget(actor.role, target.role)) {
       throw new AppError("Insufficient permissions", 403, "FORBIDDEN");
     }
@@ -536,3 +606,218 @@ export async function enableUser(req: Request, res: Response, next: NextFunction
     next(err);
   }
 }
+
+/**
+ * POST /api/users/:id/logout
+ * ADMIN/MANAGER: revoke every active session of a user in this tenant.
+ */
+export async function forceLogoutUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenant(req);
+    const id = String(req.params.id);
+
+    const target = await prisma.user.findFirst({
+      where: { id, tenantId },
+      select: { id: true, role: true },
+    });
+
+    if (!target) throw new AppError("User not found", 404, "NOT_FOUND");
+    if (!canManagerActOnTarget(actor.role, target.role)) {
+      throw new AppError("Insufficient permissions", 403, "FORBIDDEN");
+    }
+
+    const revokedSessions = await revokeUserSessions(id, "FORCED_LOGOUT");
+    logger.info(
+      {
+        event: "audit.user_force_logout",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: id,
+        revokedSessions,
+        actorUserId: actor.userId,
+      },
+      "Audit user force logout"
+    );
+
+    return res.json({ revokedSessions });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * GET /api/me/sessions
+ */
+export async function listMySessions(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenant(req);
+
+    const sessions = await listActiveSessions(tenantId, actor.userId);
+
+    return res.json({
+      sessions: sessions.map((s) => ({ ...s, current: s.id === actor.sessionId })),
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/me/sessions/:id
+ */
+export async function revokeMySession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    getTenant(req);
+
+    const revoked = await revokeSessionFamily(String(req.params.id), "LOGOUT", actor.userId);
+    if (revoked === 0) throw new AppError("Session not found", 404, "NOT_FOUND");
+
+    return res.json({ message: "Session revoked" });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/users/:id/unlock
+ * ADMIN/MANAGER: clear a login lockout after repeated failed attempts.
+ */
+export async function unlockUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenant(req);
+    const id = String(req.params.id);
+
+    const target = await prisma.user.findFirst({
+      where: { id, tenantId },
+      select: { id: true, role: true, failedLoginCount: true, lockedUntil: true },
+    });
+
+    if (!target) throw new AppError("User not found", 404, "NOT_FOUND");
+    if (!canManagerActOnTarget(actor.role, target.role)) {
+      throw new AppError("Insufficient permissions", 403, "FORBIDDEN");
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+      select: {
+        id: true,
+        tenantId: true,
+        email: true,
+        role: true,
+        status: true,
+        fullName: true,
+        phone: true,
+        assignedPropertyIds: true,
+        lockedUntil: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    logger.info(
+      {
+        event: "audit.user_unlocked",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: id,
+        previousFailedLoginCount: target.failedLoginCount,
+        previousLockedUntil: target.lockedUntil,
+        actorUserId: actor.userId,
+      },
+      "Audit user unlocked"
+    );
+
+    return res.json({ user: safeUser(updated) });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /api/users/:id/invite/resend
+ * ADMIN/MANAGER: issue a new invitation link; earlier links stop working.
+ */
+export async function resendInvitation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenant(req);
+    const id = String(req.params.id);
+
+    const target = await prisma.user.findFirst({
+      where: { id, tenantId },
+      select: { id: true, tenantId: true, email: true, role: true, status: true },
+    });
+
+    if (!target) throw new AppError("User not found", 404, "NOT_FOUND");
+    if (!canManagerActOnTarget(actor.role, target.role)) {
+      throw new AppError("Insufficient permissions", 403, "FORBIDDEN");
+    }
+    if (target.status !== "INVITED") {
+      throw new AppError("User has already accepted their invitation", 400, "INVITATION_NOT_PENDING");
+    }
+
+    const invitation = await sendInvitation(target, { userId: actor.userId });
+    logger.info(
+      {
+        event: "audit.user_invite_resent",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: target.id,
+        actorUserId: actor.userId,
+      },
+      "Audit user invitation resent"
+    );
+
+    return res.json({ invitation });
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * DELETE /api/users/:id/invite
+ * ADMIN/MANAGER: withdraw a pending invitation. The INVITED user is removed so the email can be invited again.
+ */
+export async function revokeInvitation(req: Request, res: Response, next: NextFunction) {
+  try {
+    const actor = getActor(req);
+    const tenantId = getTenant(req);
+    const id = String(req.params.id);
+
+    const target = await prisma.user.findFirst({
+      where: { id, tenantId },
+      select: { id: true, role: true, status: true },
+    });
+
+    if (!target) throw new AppError("User not found", 404, "NOT_FOUND");
+    if (!canManagerActOnTarget(actor.role, target.role)) {
+      throw new AppError("Insufficient permissions", 403, "FORBIDDEN");
+    }
+    if (target.status !== "INVITED") {
+      throw new AppError("User has already accepted their invitation", 400, "INVITATION_NOT_PENDING");
+    }
+
+    await revokeInvitations(target.id);
+    await prisma.user.delete({ where: { id: target.id } });
+
+    logger.info(
+      {
+        event: "audit.user_invite_revoked",
+        requestId: req.requestId,
+        tenantId,
+        targetUserId: target.id,
+        actorUserId: actor.userId,
+      },
+      "Audit user invitation revoked"
+    );
+
+    return res.json({ message: "Invitation revoked" });
+  } catch (err) {
+    next(err);
+  }
+}
@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { tenantMiddleware } from "../../middleware/tenant.middleware";
-import { requireAuth } from "../../middleware/auth.middleware";
-import { requireRole } from "../../middleware/role.middleware";
+import { requireAuth, requireUser } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
 import {
   listUsers,
   getUserById,
@@ -11,6 +11,12 @@ import {
   changeMyPassword,
   disableUser,
   enableUser,
+  forceLogoutUser,
+  listMySessions,
+  revokeMySession,
+  unlockUser,
+  resendInvitation,
+  revokeInvitation,
 } from "./users.controller";
 
 
@@ -23,20 +29,26 @@ const router = Router();
 router.use(tenantMiddleware, requireAuth);
 
 /**
- * ADMIN + MANAGER: user management in their tenant
+ * users.view / users.manage (ADMIN + MANAGER by default): user management in their tenant
  */
-router.get("/users", requireRole("ADMIN", "MANAGER"), listUsers);
-router.get("/users/:id", requireRole("ADMIN", "MANAGER"), getUserById);
-router.post("/users", requireRole("ADMIN", "MANAGER"), createStaffOrManager);
-router.patch("/users/:id", requireRole("ADMIN", "MANAGER"), updateUserById);
-router.post("/users/:id/disable", requireRole("ADMIN", "MANAGER"), disableUser);
-router.post("/users/:id/enable", requireRole("ADMIN", "MANAGER"), enableUser);
+router.get("/users", requirePermission("users.view"), listUsers);
+router.get("/users/:id", requirePermission("users.view"), getUserById);
+router.post("/users", requirePermission("users.manage"), createStaffOrManager);
+router.patch("/users/:id", requirePermission("users.manage"), updateUserById);
+router.post("/users/:id/disable", requirePermission("users.manage"), disableUser);
+router.post("/users/:id/enable", requirePermission("users.manage"), enableUser);
+router.post("/users/:id/logout", requirePermission("users.manage"), forceLogoutUser);
+router.post("/users/:id/unlock", requirePermission("users.manage"), unlockUser);
+router.post("/users/:id/invite/resend", requirePermission("users.manage"), resendInvitation);
+router.delete("/users/:id/invite", requirePermission("users.manage"), revokeInvitation);
 
 
 /**
  * STAFF: only update own profile & password
  */
-router.patch("/me", updateMyProfile);
-router.patch("/me/password", changeMyPassword);
+router.patch("/me", requireUser, updateMyProfile);
+router.patch("/me/password", requireUser, changeMyPassword);
+router.get("/me/sessions", requireUser, listMySessions);
+router.delete("/me/sessions/:id", requireUser, revokeMySession);
 
 export const usersRoutes = router;
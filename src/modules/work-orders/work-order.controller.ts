@@ -0,0 +1,346 @@
+import type { Request, Response } from "express";
+import path from "path";
+import type { WorkOrderStatus } from "@prisma/client";
+import { asyncHandler } from "../../common/utils/asyncHandler";
+import { AppError } from "../../common/errors/AppError";
+import { logger } from "../../common/logger/logger";
+import {
+  assertPropertyInScope,
+  resolvePropertyScope,
+  scopedBookingWhere,
+  scopedUnitWhere,
+} from "../../common/authz/property-scope";
+import type { PropertyScope } from "../../common/authz/property-scope";
+import { hasPermission } from "../../middleware/permission.middleware";
+import { prismaForTenant } from "../../../prisma/tenantPrisma";
+import { mediaUrl, safeImageExt, storeUploadedImage, withPhotoUrls } from "../media/media.service";
+import type { UploadedFile } from "../media/media.service";
+import {
+  WORK_ORDER_CATEGORIES,
+  WORK_ORDER_PRIORITIES,
+  WORK_ORDER_STATUSES,
+  WORK_ORDER_TRANSITIONS,
+  createWorkOrder,
+  parseCost,
+  parseEnumValue,
+  releaseWorkOrderBlock,
+  workOrderSelect,
+} from "./work-order.service";
+
+function parseOptionalDate(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return null;
+  const d = new Date(String(value));
+  if (Number.isNaN(d.getTime())) throw new AppError(`${field} must be a valid date`, 400, "VALIDATION_ERROR");
+  return d;
+}
+
+function parseOptionalText(value: unknown) {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+function parseTitle(value: unknown) {
+  const title = parseOptionalText(value);
+  if (!title) throw new AppError("title is required", 400, "VALIDATION_ERROR");
+  if (title.length > 120) throw new AppError("title must be at most 120 characters", 400, "VALIDATION_ERROR");
+  return title;
+}
+
+async function loadWorkOrder(db: ReturnType<typeof prismaForTenant>, tenantId: string, scope: PropertyScope, id: string) {
+  const workOrder = await db.raw.workOrder.findFirst({
+    where: { id, tenantId, unit: scopedUnitWhere(scope) },
+    select: workOrderSelect,
+  });
+  if (!workOrder) throw new AppError("Work order not found", 404, "WORK_ORDER_NOT_FOUND");
+  return workOrder;
+}
+
+/** Assignees must be active and able to see the unit's property. */
+async function assertAssignable(
+  db: ReturnType<typeof prismaForTenant>,
+  tenantId: string,
+  userId: string,
+  propertyId: string
+) {
+  const assignee = await db.raw.user.findFirst({
+    where: { id: userId, tenantId },
+    select: { id: true, role: true, status: true, assignedPropertyIds: true },
+  });
+  if (!assignee) throw new AppError("Assignee not found", 404, "USER_NOT_FOUND");
+  if (assignee.status !== "ACTIVE") {
+    throw new AppError("Work orders can only be assigned to active users", 400, "INVALID_ASSIGNEE");
+  }
+  if (assignee.role !== "ADMIN" && !assignee.assignedPropertyIds.includes(propertyId)) {
+    throw new AppError("Assignee is not assigned to this unit's property", 400, "INVALID_ASSIGNEE", { propertyId });
+  }
+  return assignee.id;
+}
+
+/**
+ * Optional out-of-service window from the body: { from?, until }. `from` defaults to now.
+ */
+function parseOutOfService(value: unknown) {
+  if (value === undefined || value === null) return null;
+  const raw = value as any;
+  const until = parseOptionalDate(raw?.until, "outOfService.until");
+  if (!until) throw new AppError("outOfService.until is required", 400, "VALIDATION_ERROR");
+  return { from: parseOptionalDate(raw?.from, "outOfService.from") ?? new Date(), until };
+}
+
+/**
+ * GET /api/work-orders?propertyId=&unitId=&status=&priority=&category=&assignedToUserId=
+ * status may be a comma-separated list; without it open work (not COMPLETED/CANCELLED) is listed.
+ */
+export const listWorkOrders = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+
+  const propertyId = String(req.query.propertyId ?? "").trim() || null;
+  if (propertyId) assertPropertyInScope(scope, propertyId);
+  const unitId = String(req.query.unitId ?? "").trim() || null;
+  const assignedToUserId = String(req.query.assignedToUserId ?? "").trim() || null;
+
+  const statusQ = String(req.query.status ?? "").trim();
+  const statuses: WorkOrderStatus[] = statusQ
+    ? statusQ.split(",").map((s) => parseEnumValue(s, WORK_ORDER_STATUSES, "status"))
+    : ["OPEN", "IN_PROGRESS", "ON_HOLD"];
+  const priority = req.query.priority ? parseEnumValue(req.query.priority, WORK_ORDER_PRIORITIES, "priority") : null;
+  const category = req.query.category ? parseEnumValue(req.query.category, WORK_ORDER_CATEGORIES, "category") : null;
+
+  const workOrders = await db.raw.workOrder.findMany({
+    where: {
+      tenantId,
+      status: { in: statuses },
+      unit: { ...scopedUnitWhere(scope), ...(propertyId ? { propertyId } : {}) },
+      ...(unitId ? { unitId } : {}),
+      ...(priority ? { priority } : {}),
+      ...(category ? { category } : {}),
+      ...(assignedToUserId ? { assignedToUserId } : {}),
+    },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    select: workOrderSelect,
+  });
+
+  res.json({ workOrders: await Promise.all(workOrders.map(withPhotoUrls)) });
+});
+
+/**
+ * GET /api/work-orders/:id
+ */
+export const getWorkOrder = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const scope = await resolvePropertyScope(req);
+
+  const workOrder = await loadWorkOrder(db, tenantId, scope, String(req.params.id));
+  res.json({ workOrder: await withPhotoUrls(workOrder) });
+});
+
+/**
+ * POST /api/work-orders
+ * Body: { unitId? | bookingId?, title, description?, category?, priority?, assignedToUserId?,
+ *         estimatedCost?, outOfService?: { from?, until } }
+ * With bookingId the unit comes from the booking and the booking's open DAMAGE charge is linked,
+ * so repairs raised after checkout count towards damage recovery.
+ * outOfService blocks the unit like the blocks API, so it also needs units.manage.
+ */
+export const createWorkOrderHandler = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const body = req.body ?? {};
+
+  if (body.outOfService !== undefined && body.outOfService !== null && !hasPermission(req, "units.manage")) {
+    throw new AppError("You are not allowed to take units out of service", 403, "FORBIDDEN", {
+      missingPermissions: ["units.manage"],
+    });
+  }
+
+  const bookingId = parseOptionalText(body.bookingId);
+  let unitId = parseOptionalText(body.unitId);
+  let damageChargeId: string | null = null;
+  let currency: string | null = null;
+
+  if (bookingId) {
+    const booking = await db.raw.booking.findFirst({
+      where: { id: bookingId, tenantId, ...scopedBookingWhere(scope) },
+      select: {
+        id: true,
+        unitId: true,
+        currency: true,
+        charges: {
+          where: { type: "DAMAGE", status: "OPEN" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { id: true },
+        },
+      },
+    });
+    if (!booking) throw new AppError("Booking not found", 404, "BOOKING_NOT_FOUND");
+    if (unitId && unitId !== booking.unitId) {
+      throw new AppError("unitId does not match the booking's unit", 400, "VALIDATION_ERROR");
+    }
+    unitId = booking.unitId;
+    damageChargeId = booking.charges[0]?.id ?? null;
+    currency = booking.currency;
+  }
+  if (!unitId) throw new AppError("unitId or bookingId is required", 400, "VALIDATION_ERROR");
+
+  const unit = await db.raw.unit.findFirst({
+    where: { id: unitId, tenantId, ...scopedUnitWhere(scope) },
+    select: { id: true, propertyId: true },
+  });
+  if (!unit) throw new AppError("Unit not found", 404, "UNIT_NOT_FOUND");
+
+  const assigneeId = parseOptionalText(body.assignedToUserId);
+  const input = {
+    tenantId,
+    unitId: unit.id,
+    bookingId,
+    damageChargeId,
+    currency,
+    title: parseTitle(body.title),
+    description: parseOptionalText(body.description),
+    category: body.category ? parseEnumValue(body.category, WORK_ORDER_CATEGORIES, "category") : undefined,
+    priority: body.priority ? parseEnumValue(body.priority, WORK_ORDER_PRIORITIES, "priority") : undefined,
+    estimatedCost: parseCost(body.estimatedCost, "estimatedCost"),
+    assignedToUserId: assigneeId ? await assertAssignable(db, tenantId, assigneeId, unit.propertyId) : null,
+    createdByUserId: user?.userId ?? null,
+    outOfService: parseOutOfService(body.outOfService),
+  };
+
+  const workOrder = await db.raw.$transaction((tx) => createWorkOrder(tx, input));
+
+  logger.info(
+    {
+      event: "audit.work_order_created",
+      requestId: req.requestId,
+      tenantId,
+      workOrderId: workOrder.id,
+      unitId: unit.id,
+      bookingId,
+      damageChargeId,
+      unitBlockId: workOrder.unitBlockId,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit work order created"
+  );
+
+  res.status(201).json({ workOrder: await withPhotoUrls(workOrder) });
+});
+
+/**
+ * PATCH /api/work-orders/:id
+ * Body: { title?, description?, category?, priority?, status?, assignedToUserId?, estimatedCost?, actualCost? }
+ * COMPLETED or CANCELLED ends any out-of-service block the order opened.
+ */
+export const updateWorkOrder = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+  const body = req.body ?? {};
+
+  const current = await loadWorkOrder(db, tenantId, scope, String(req.params.id));
+
+  const data: any = {};
+  if (body.title !== undefined) data.title = parseTitle(body.title);
+  if (body.description !== undefined) data.description = parseOptionalText(body.description);
+  if (body.category !== undefined) data.category = parseEnumValue(body.category, WORK_ORDER_CATEGORIES, "category");
+  if (body.priority !== undefined) data.priority = parseEnumValue(body.priority, WORK_ORDER_PRIORITIES, "priority");
+  if (body.estimatedCost !== undefined) data.estimatedCost = parseCost(body.estimatedCost, "estimatedCost");
+  if (body.actualCost !== undefined) data.actualCost = parseCost(body.actualCost, "actualCost");
+  if (body.assignedToUserId !== undefined) {
+    const assigneeId = parseOptionalText(body.assignedToUserId);
+    data.assignedToUserId = assigneeId
+      ? await assertAssignable(db, tenantId, assigneeId, current.unit.propertyId)
+      : null;
+  }
+
+  const now = new Date();
+  if (body.status !== undefined) {
+    const next = parseEnumValue(body.status, WORK_ORDER_STATUSES, "status");
+    if (next !== current.status) {
+      if (!WORK_ORDER_TRANSITIONS[current.status].includes(next)) {
+        throw new AppError(`Work order cannot move from ${current.status} to ${next}`, 409, "INVALID_WORK_ORDER_STATE", {
+          from: current.status,
+          to: next,
+          allowed: WORK_ORDER_TRANSITIONS[current.status],
+        });
+      }
+      data.status = next;
+      if (next === "COMPLETED") data.completedAt = now;
+    }
+  }
+
+  const closing = data.status === "COMPLETED" || data.status === "CANCELLED";
+  const workOrder = await db.raw.$transaction(async (tx) => {
+    if (closing) await releaseWorkOrderBlock(tx, tenantId, current.unitBlockId, now);
+    return tx.workOrder.update({ where: { id: current.id }, data, select: workOrderSelect });
+  });
+
+  logger.info(
+    {
+      event: "audit.work_order_updated",
+      requestId: req.requestId,
+      tenantId,
+      workOrderId: current.id,
+      changes: Object.keys(data),
+      status: workOrder.status,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit work order updated"
+  );
+
+  res.json({ workOrder: await withPhotoUrls(workOrder) });
+});
+
+/**
+ * POST /api/work-orders/:id/photos
+ * Expects multer to populate req.file (field name: "file").
+ */
+export const uploadWorkOrderPhoto = asyncHandler(async (req: Request, res: Response) => {
+  const tenantId = req.tenantId!;
+  const db = prismaForTenant(tenantId);
+  const user = (req as any).user;
+  const scope = await resolvePropertyScope(req);
+
+  const file = (req as any).file as UploadedFile | undefined;
+  if (!file) throw new AppError("No photo uploaded", 400, "VALIDATION_ERROR");
+
+  const workOrder = await loadWorkOrder(db, tenantId, scope, String(req.params.id));
+
+  const relativeDir = path.join("tenants", tenantId, "work-orders", workOrder.id);
+  const filename = `${Date.now()}.${safeImageExt(file.mimetype)}`;
+  const key = path.join(relativeDir, filename).replace(/\\/g, "/");
+
+  // S3, or uploads/tenants/<tenantId>/work-orders/<id>/<stamp>.<ext> locally
+  await storeUploadedImage(key, file);
+
+  const photo = await db.raw.workOrderPhoto.create({
+    data: {
+      tenantId,
+      workOrderId: workOrder.id,
+      key,
+      mime: file.mimetype,
+      size: file.size,
+      createdByUserId: user?.userId ?? null,
+    },
+    select: { id: true, key: true, mime: true, size: true, createdAt: true },
+  });
+
+  logger.info(
+    {
+      event: "audit.work_order_photo_added",
+      requestId: req.requestId,
+      tenantId,
+      workOrderId: workOrder.id,
+      photoId: photo.id,
+      actorUserId: user?.userId ?? null,
+    },
+    "Audit work order photo added"
+  );
+
+  res.status(201).json({ photo: { ...photo, url: await mediaUrl(key) } });
+});
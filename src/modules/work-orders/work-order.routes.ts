@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { requireAuth } from "../../middleware/auth.middleware";
+import { requirePermission } from "../../middleware/permission.middleware";
+import { imageUpload } from "../../middleware/image.middleware";
+import {
+  createWorkOrderHandler,
+  getWorkOrder,
+  listWorkOrders,
+  updateWorkOrder,
+  uploadWorkOrderPhoto,
+} from "./work-order.controller";
+
+export const workOrderRoutes = Router();
+
+workOrderRoutes.get("/work-orders", requireAuth, requirePermission("maintenance.view"), listWorkOrders);
+workOrderRoutes.post("/work-orders", requireAuth, requirePermission("maintenance.create"), createWorkOrderHandler);
+workOrderRoutes.get("/work-orders/:id", requireAuth, requirePermission("maintenance.view"), getWorkOrder);
+workOrderRoutes.patch("/work-orders/:id", requireAuth, requirePermission("maintenance.manage"), updateWorkOrder);
+
+workOrderRoutes.post(
+  "/work-orders/:id/photos",
+  requireAuth,
+  requirePermission("maintenance.create"),
+  imageUpload({ maxSizeKb: 1024 }).single("file"),
+  uploadWorkOrderPhoto
+);
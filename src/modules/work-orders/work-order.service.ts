@@ -0,0 +1,139 @@
+// src/modules/work-orders/work-order.service.ts
+import type { Prisma, PrismaClient, WorkOrderCategory, WorkOrderPriority, WorkOrderStatus } from "@prisma/client";
+import { AppError } from "../../common/errors/AppError";
+import { openUnitBlock } from "../units/unit-blocks";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const WORK_ORDER_CATEGORIES: readonly WorkOrderCategory[] = [
+  "PLUMBING",
+  "ELECTRICAL",
+  "HVAC",
+  "FURNITURE",
+  "APPLIANCE",
+  "STRUCTURAL",
+  "OTHER",
+];
+export const WORK_ORDER_PRIORITIES: readonly WorkOrderPriority[] = ["LOW", "MEDIUM", "HIGH", "URGENT"];
+export const WORK_ORDER_STATUSES: readonly WorkOrderStatus[] = ["OPEN", "IN_PROGRESS", "ON_HOLD", "COMPLETED", "CANCELLED"];
+
+/** COMPLETED and CANCELLED are final. */
+export const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, readonly WorkOrderStatus[]> = {
+  OPEN: ["IN_PROGRESS", "ON_HOLD", "COMPLETED", "CANCELLED"],
+  IN_PROGRESS: ["ON_HOLD", "COMPLETED", "CANCELLED"],
+  ON_HOLD: ["IN_PROGRESS", "COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+export const workOrderSelect = {
+  id: true,
+  unitId: true,
+  bookingId: true,
+  damageChargeId: true,
+  unitBlockId: true,
+  title: true,
+  description: true,
+  category: true,
+  priority: true,
+  status: true,
+  assignedToUserId: true,
+  createdByUserId: true,
+  estimatedCost: true,
+  actualCost: true,
+  currency: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  unit: { select: { id: true, name: true, propertyId: true, property: { select: { name: true } } } },
+  assignedTo: { select: { id: true, fullName: true, email: true } },
+  damageCharge: { select: { id: true, amount: true, currency: true, status: true } },
+  unitBlock: { select: { id: true, startDate: true, endDate: true, reason: true } },
+  photos: {
+    orderBy: { createdAt: "asc" },
+    select: { id: true, key: true, mime: true, size: true, createdAt: true },
+  },
+} as const;
+
+export function parseEnumValue<T extends string>(value: unknown, allowed: readonly T[], field: string): T {
+  const v = String(value ?? "").trim().toUpperCase() as T;
+  if (!allowed.includes(v)) {
+    throw new AppError(`${field} must be one of ${allowed.join(", ")}`, 400, "VALIDATION_ERROR");
+  }
+  return v;
+}
+
+export function parseCost(value: unknown, field: string) {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new AppError(`${field} must be a non-negative amount`, 400, "VALIDATION_ERROR");
+  return n.toFixed(2);
+}
+
+export type CreateWorkOrderInput = {
+  tenantId: string;
+  unitId: string;
+  title: string;
+  description?: string | null;
+  category?: WorkOrderCategory;
+  priority?: WorkOrderPriority;
+  bookingId?: string | null;
+  damageChargeId?: string | null;
+  assignedToUserId?: string | null;
+  estimatedCost?: string | null;
+  currency?: string | null;
+  createdByUserId?: string | null;
+  /** Takes the unit out of service for [from, until) through a UnitBlock linked to the order. */
+  outOfService?: { from: Date; until: Date } | null;
+};
+
+export async function createWorkOrder(db: Db, input: CreateWorkOrderInput) {
+  const block = input.outOfService
+    ? await openUnitBlock(db, {
+        tenantId: input.tenantId,
+        unitId: input.unitId,
+        startDate: input.outOfService.from,
+        endDate: input.outOfService.until,
+        reason: `Work order: ${input.title}`,
+        createdByUserId: input.createdByUserId ?? null,
+      })
+    : null;
+
+  return db.workOrder.create({
+    data: {
+      tenantId: input.tenantId,
+      unitId: input.unitId,
+      bookingId: input.bookingId ?? null,
+      damageChargeId: input.damageChargeId ?? null,
+      unitBlockId: block?.id ?? null,
+      title: input.title,
+      description: input.description ?? null,
+      category: input.category ?? "OTHER",
+      priority: input.priority ?? "MEDIUM",
+      assignedToUserId: input.assignedToUserId ?? null,
+      estimatedCost: input.estimatedCost ?? null,
+      currency: input.currency ?? "NGN",
+      createdByUserId: input.createdByUserId ?? null,
+    },
+    select: workOrderSelect,
+  });
+}
+
+/**
+ * Finishing or cancelling an order hands the unit back: a block that has started is cut short at
+ * `now`, one that has not started yet is removed.
+ */
+export async function releaseWorkOrderBlock(db: Db, tenantId: string, unitBlockId: string | null, now = new Date()) {
+  if (!unitBlockId) return;
+  const block = await db.unitBlock.findFirst({
+    where: { id: unitBlockId, tenantId },
+    select: { id: true, startDate: true, endDate: true },
+  });
+  if (!block || block.endDate <= now) return;
+
+  if (block.startDate >= now) {
+    await db.unitBlock.delete({ where: { id: block.id } });
+  } else {
+    await db.unitBlock.update({ where: { id: block.id }, data: { endDate: now } });
+  }
+}
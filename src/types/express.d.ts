@@ -16,9 +16,21 @@ declare global {
         tenantId: string;
         role: UserRole;
         assignedPropertyIds?: string[];
+        permissions?: string[];
+        sessionId?: string;
+        tokenVersion?: number;
+        /** Set when a platform operator is acting as this user. */
+        impersonationId?: string;
+        impersonatorId?: string;
+        /** Set for API key principals, which have no user (userId is absent). */
+        apiKeyId?: string;
         iat?: number;
         exp?: number;
       };
+      platformOperator?: {
+        operatorId: string;
+        email: string;
+      };
     }
   }
 }